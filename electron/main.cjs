@@ -1,4 +1,4 @@
-const { app, BrowserWindow, shell } = require('electron');
+const { app, BrowserWindow, shell, ipcMain, Notification } = require('electron');
 const path = require('path');
 const { spawn } = require('child_process');
 const fs = require('fs');
@@ -18,7 +18,7 @@ function createWindow() {
         height: 800,
         icon: path.join(__dirname, '../public/favicon-eye.svg'), // Use existing favicon if possible, or convert to .ico later
         webPreferences: {
-            preload: path.join(__dirname, 'preload.js'),
+            preload: path.join(__dirname, 'preload.cjs'),
             nodeIntegration: false,
             contextIsolation: true,
         },
@@ -95,7 +95,56 @@ function startServer() {
     }
 }
 
+// Local data store: one JSON file per collection under the user data directory.
+// The renderer reaches these through the preload bridge (window.electronAPI.store).
+function getStorePath(name) {
+    if (typeof name !== 'string' || !/^[a-z0-9-]+$/i.test(name)) {
+        throw new Error(`Invalid store name: ${name}`);
+    }
+    return path.join(app.getPath('userData'), 'store', `${name}.json`);
+}
+
+function registerStoreHandlers() {
+    ipcMain.handle('store:read', async (_event, name) => {
+        const filePath = getStorePath(name);
+        try {
+            const raw = await fs.promises.readFile(filePath, 'utf8');
+            return JSON.parse(raw);
+        } catch (err) {
+            if (err.code === 'ENOENT') return {};
+            console.error(`Failed to read store ${name}:`, err);
+            return {};
+        }
+    });
+
+    ipcMain.handle('store:write', async (_event, name, data) => {
+        const filePath = getStorePath(name);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        // Write to a temp file first so a crash mid-write never leaves a truncated store
+        const tmpPath = `${filePath}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify(data), 'utf8');
+        await fs.promises.rename(tmpPath, filePath);
+    });
+}
+
+// Desktop notifications for watchlist alerts; clicking one brings the app to the front
+function registerNotificationHandlers() {
+    ipcMain.handle('notify:show', (_event, { title, body }) => {
+        if (!Notification.isSupported()) return;
+
+        const notification = new Notification({ title: String(title), body: String(body || '') });
+        notification.on('click', () => {
+            if (!mainWindow) return;
+            if (mainWindow.isMinimized()) mainWindow.restore();
+            mainWindow.focus();
+        });
+        notification.show();
+    });
+}
+
 app.whenReady().then(() => {
+    registerStoreHandlers();
+    registerNotificationHandlers();
     startServer();
     createWindow();
 
@@ -1,5 +1,11 @@
 const { contextBridge, ipcRenderer } = require('electron');
 
 contextBridge.exposeInMainWorld('electronAPI', {
-    // Add any needed API exposures here
+    // Persistent JSON collections stored in the app's user data directory
+    store: {
+        read: (name) => ipcRenderer.invoke('store:read', name),
+        write: (name, data) => ipcRenderer.invoke('store:write', name, data),
+    },
+    // Native desktop notification (used for watchlist alerts)
+    notify: (title, body) => ipcRenderer.invoke('notify:show', { title, body }),
 });
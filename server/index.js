@@ -51,7 +51,31 @@ app.use(express.json());
 const apiLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 100, // Limit each IP to 100 requests per windowMs
-    message: { error: 'Too many requests, please try again later.' }
+    message: { error: 'Too many requests, please try again later.' },
+    // Autocomplete, upload lists and video details have their own, higher limits below
+    skip: (req) => ['/youtube/autocomplete', '/youtube/playlistItems', '/youtube/videos']
+        .some(path => req.path === path || req.path.startsWith(`${path}/`))
+});
+
+// Keyword Research's deep expansion makes a few hundred suggest requests per topic
+const autocompleteLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 1000,
+    message: { error: 'Autocomplete rate limit exceeded. Please wait.' }
+});
+
+// Channel baselines and the competitor feed read one upload list per channel (1 quota unit each)
+const playlistItemsLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 500,
+    message: { error: 'Upload list rate limit exceeded. Please wait.' }
+});
+
+// A full channel report reads video details in batches of 50, up to 100 batches per report
+const videosLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 500,
+    message: { error: 'Video details rate limit exceeded. Please wait.' }
 });
 
 const searchLimiter = rateLimit({
@@ -61,6 +85,9 @@ const searchLimiter = rateLimit({
 });
 
 // Apply rate limits
+app.use('/api/youtube/autocomplete', autocompleteLimiter);
+app.use('/api/youtube/playlistItems', playlistItemsLimiter);
+app.use('/api/youtube/videos', videosLimiter);
 app.use('/api/', apiLimiter);
 app.use('/download', searchLimiter);
 
@@ -192,12 +219,18 @@ app.post('/api/gemini/generate', async (req, res) => {
         apiKey = process.env.GEMINI_API_KEY;
     }
 
-    const { prompt, enableSearch } = req.body;
+    const { prompt, enableSearch, model } = req.body;
 
     if (!prompt || typeof prompt !== 'string') {
         return res.status(400).json({ error: 'Invalid prompt' });
     }
 
+    // Model names end up in the request URL, so only allow plain identifiers
+    if (model !== undefined && (typeof model !== 'string' || !/^[a-z0-9.-]{1,64}$/i.test(model))) {
+        return res.status(400).json({ error: 'Invalid model name' });
+    }
+    const geminiModel = model || 'gemini-2.0-flash';
+
     if (!apiKey) {
         // Use a local fallback implementation when Gemini key is not provided
         try {
@@ -242,7 +275,7 @@ app.post('/api/gemini/generate', async (req, res) => {
         };
 
         const response = await fetchWithRetry(
-            `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
+            `https://generativelanguage.googleapis.com/v1beta/models/${geminiModel}:generateContent?key=${apiKey}`,
             {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
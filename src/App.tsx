@@ -1,28 +1,43 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { ToolSelector } from './components/ToolSelector';
 import { LandingPage } from './components/LandingPage';
 import { Dashboard } from './components/Dashboard';
 import { SavedIdeasDialog } from './components/SavedIdeasDialog';
+import { WatchlistDialog } from './components/WatchlistDialog';
 import { VideoAnalyzer } from './pages/VideoAnalyzer';
 import { ChannelFinder } from './pages/ChannelFinder';
 import { KeywordResearch } from './pages/KeywordResearch';
 import { VideoSimilarity } from './pages/VideoSimilarity';
 import { ThumbnailGenerator } from './pages/ThumbnailGenerator';
+import { CompetitorTracker } from './pages/CompetitorTracker';
+import { TitleAnalyzer } from './pages/TitleAnalyzer';
 import { Toaster } from './components/ui/use-toast';
 import { toast } from './components/ui/use-toast';
 import { useLocalStorage } from './hooks/useLocalStorage';
-import { fetchTrendingVideos, fetchChannelFromURL, fetchRecentChannelVideos } from './lib/youtube-api';
+import { useWatchlistScheduler } from './hooks/useWatchlistScheduler';
+import { useCompetitorScheduler } from './hooks/useCompetitorScheduler';
+import { useIdeas } from './hooks/useIdeas';
+import { useRoute } from './hooks/useRoute';
+import { navigate, formatRoute, resultsRoute, filtersFromParams } from './lib/router';
+import { AppView } from './types/route';
+import { fetchTrendingVideos, fetchChannelFromURL, fetchRecentChannelVideos, estimateTrendingSearchCost } from './lib/youtube-api';
+import { checkQuotaBudget } from './lib/quota-ledger';
 import { Video } from './types/video';
-import { rankVideos } from './lib/viral-score';
+import { rankVideos, enrichVideo } from './lib/viral-score';
+import { resolveScoringProfile } from './lib/scoring-profiles';
+import { recordNicheSnapshot } from './lib/snapshot-store';
+import { createWatchlistEntry } from './lib/watchlist';
+import { saveIdea } from './lib/idea-store';
 import { generateNextVideoIdea, inferNicheFromMetadata, checkContentSafety } from './lib/gemini-api';
 import { Loader2 } from 'lucide-react';
 import { SearchFilters, DEFAULT_FILTERS } from './types/filters';
 import { logger } from './lib/logger';
 
-type AppState = 'tool-selector' | 'niche-finder' | 'dashboard' | 'video-analyzer' | 'channel-finder' | 'keyword-tool' | 'video-similarity' | 'thumbnail-generator';
-
 function App() {
-    const [appState, setAppState] = useState<AppState>('tool-selector');
+    // The URL decides which tool is shown, so links and refreshes land in the same place
+    const route = useRoute();
+    const appState = route.view;
+    const setAppState = (view: AppView) => navigate({ view, params: {} });
     const [videos, setVideos] = useState<Video[]>([]);
     const [currentNiche, setCurrentNiche] = useState('');
     const [nextVideoIdea, setNextVideoIdea] = useState('');
@@ -30,19 +45,40 @@ function App() {
     const [isMoreLoading, setIsMoreLoading] = useState(false);
     const [loadingStatus, setLoadingStatus] = useState('Initializing...');
     const [showSavedDialog, setShowSavedDialog] = useState(false);
+    const [showWatchlistDialog, setShowWatchlistDialog] = useState(false);
     const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
     // State for pagination tokens
     const [nextPageTokenMap, setNextPageTokenMap] = useState<Record<string, string> | undefined>(undefined);
+    // Bumped after each snapshot is stored so the tracking tab reloads
+    const [historyVersion, setHistoryVersion] = useState(0);
+    // Results route of the videos currently loaded (null when none are)
+    const loadedResultsRef = useRef<string | null>(null);
 
     const {
         preferences,
         updateLastNiche,
-        saveIdea,
-        removeIdea,
-        clearAllIdeas,
+        addWatchlist,
     } = useLocalStorage();
+    const { ideas } = useIdeas();
+
+    // Re-runs watched niches in the background while the app is open
+    const { runningId, runNow, unreadAlertCount } = useWatchlistScheduler();
+    // Refreshes the pinned competitors' upload feed on its schedule
+    const { refreshing: competitorsRefreshing, refreshNow: refreshCompetitors } = useCompetitorScheduler();
 
-    const savedVideoIds = new Set(preferences.savedIdeas.map(idea => idea.video.id));
+    const savedVideoIds = new Set(ideas.map(idea => idea.id));
+
+    // Active scoring profile; re-resolved when the selection or any saved profile changes
+    const scoringProfilesKey = JSON.stringify(preferences.scoringProfiles || []);
+    const scoringProfile = useMemo(
+        () => resolveScoringProfile(filters.scoringProfileId, JSON.parse(scoringProfilesKey)),
+        [filters.scoringProfileId, scoringProfilesKey]
+    );
+
+    // Re-score loaded results when the profile changes so the switch is instant
+    useEffect(() => {
+        setVideos(prev => prev.length === 0 ? prev : rankVideos(prev.map(v => enrichVideo(v, scoringProfile))));
+    }, [scoringProfile]);
 
     // Update page title and favicon based on current tool
     useEffect(() => {
@@ -54,7 +90,9 @@ function App() {
             'channel-finder': 'ViralVision - Channel Finder',
             'keyword-tool': 'ViralVision - Keyword Research',
             'video-similarity': 'ViralVision - Video Similarity',
-            'thumbnail-generator': 'ViralVision - Thumbnail Generator'
+            'thumbnail-generator': 'ViralVision - Thumbnail Generator',
+            'competitor-tracker': 'ViralVision - Competitor Tracker',
+            'title-analyzer': 'ViralVision - Title Analyzer'
         };
 
         const favicons = {
@@ -65,7 +103,9 @@ function App() {
             'channel-finder': '/favicon-users.svg',
             'keyword-tool': '/favicon-hash.svg',
             'video-similarity': '/favicon-video.svg',
-            'thumbnail-generator': '/favicon-image.svg'
+            'thumbnail-generator': '/favicon-image.svg',
+            'competitor-tracker': '/favicon-users.svg',
+            'title-analyzer': '/favicon-hash.svg'
         };
 
         // Update title
@@ -81,7 +121,7 @@ function App() {
         }
     }, [appState]);
 
-    const handleSearch = async (niche: string, isLoadMore = false) => {
+    const handleSearch = async (niche: string, isLoadMore = false, bypassCache = false, searchFilters = filters) => {
         // Content safety check (only on initial search)
         if (!isLoadMore) {
             const safetyCheck = await checkContentSafety(niche);
@@ -91,10 +131,20 @@ function App() {
                     description: safetyCheck.reason,
                     variant: 'destructive',
                 });
+                navigate({ view: 'niche-finder', params: {} }, { replace: true });
                 return;
             }
         }
 
+        // Warn before going over the daily budget (a blocking budget is enforced in fetchTrendingVideos)
+        const quotaCheck = checkQuotaBudget(estimateTrendingSearchCost(searchFilters));
+        if (quotaCheck.wouldExceed && !quotaCheck.blocked) {
+            toast({
+                title: 'Over daily quota budget',
+                description: `This search costs ~${quotaCheck.cost} units and you've used ${quotaCheck.used.toLocaleString()} of ${quotaCheck.budget.toLocaleString()} today.`,
+            });
+        }
+
         if (!isLoadMore) {
             setIsLoading(true);
             setLoadingStatus('Checking content safety...');
@@ -102,6 +152,7 @@ function App() {
             updateLastNiche(niche);
             setVideos([]); // Clear existing videos on new search
             setNextPageTokenMap(undefined); // Reset tokens
+            loadedResultsRef.current = null;
         } else {
             setIsMoreLoading(true);
             setLoadingStatus('Fetching more videos...');
@@ -111,11 +162,17 @@ function App() {
             // Fetch trending videos
             if (!isLoadMore) setLoadingStatus(`Fetching trending videos for "${niche}"...`);
 
+            // Score with the searched filters' profile: a results link sets filters in the same
+            // render, so the memoized profile may still be the previous one
+            const searchProfile = resolveScoringProfile(searchFilters.scoringProfileId, preferences.scoringProfiles);
+
             // Call API with filters and current tokens
             const { videos: newVideos, nextPageTokenMap: newTokens } = await fetchTrendingVideos(
                 niche,
-                filters,
-                isLoadMore ? nextPageTokenMap : undefined
+                searchFilters,
+                isLoadMore ? nextPageTokenMap : undefined,
+                searchProfile,
+                { bypassCache }
             );
 
             if (newVideos.length === 0 && !isLoadMore) {
@@ -124,6 +181,7 @@ function App() {
                     description: 'Try a broader or different keyword, or choose from the example niches below.',
                 });
                 setIsLoading(false);
+                navigate({ view: 'niche-finder', params: {} }, { replace: true });
                 return;
             }
 
@@ -143,6 +201,11 @@ function App() {
 
             const rankedNewVideos = rankVideos(newVideos);
 
+            // Remember this run so the tracking tab can chart each video over time
+            recordNicheSnapshot(niche, rankedNewVideos)
+                .then(() => setHistoryVersion(v => v + 1))
+                .catch(error => logger.warn('Failed to record niche snapshot:', error));
+
             setVideos(prev => {
                 // If loading more, append. If new search, replace (prev is empty anyway)
                 const combined = isLoadMore ? [...prev, ...rankedNewVideos] : rankedNewVideos;
@@ -168,12 +231,30 @@ function App() {
                 }
             }
 
-            setAppState('dashboard');
+            if (!isLoadMore) {
+                const route = resultsRoute(niche, searchFilters);
+                loadedResultsRef.current = formatRoute(route);
+                navigate(route);
+            }
         } catch (error) {
             logger.error('Search error:', error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-            if (errorMessage === 'QUOTA_EXCEEDED' || errorMessage === 'RATE_LIMIT') {
+            if (errorMessage === 'QUOTA_BUDGET_EXCEEDED') {
+                toast({
+                    title: 'Daily budget reached',
+                    description: 'This search would go over your daily YouTube quota budget. Raise it or switch to warnings in Settings.',
+                    variant: 'destructive',
+                    duration: 10000,
+                });
+            } else if (errorMessage === 'RATE_LIMIT') {
+                toast({
+                    title: 'Too many requests',
+                    description: 'The server is limiting requests for a few minutes. Please try again shortly.',
+                    variant: 'destructive',
+                    duration: 10000,
+                });
+            } else if (errorMessage === 'QUOTA_EXCEEDED') {
                 toast({
                     title: 'API Limit Reached',
                     description: 'The shared API key has exceeded its daily quota. Please click the Settings gear icon to add your own API key.',
@@ -193,12 +274,40 @@ function App() {
                     variant: 'destructive',
                 });
             }
+
+            // A failed results link falls back to the search page
+            if (!isLoadMore) navigate({ view: 'niche-finder', params: {} }, { replace: true });
         } finally {
             setIsLoading(false);
             setIsMoreLoading(false);
         }
     };
 
+    // Run the search in a results link (opened, refreshed or reached with back/forward)
+    // unless those results are already on screen
+    useEffect(() => {
+        if (route.view !== 'dashboard') return;
+        if (formatRoute(route) === loadedResultsRef.current) return;
+
+        const niche = route.params.q?.trim();
+        if (!niche) {
+            navigate({ view: 'niche-finder', params: {} }, { replace: true });
+            return;
+        }
+
+        const routeFilters = filtersFromParams(route.params);
+        setFilters(routeFilters);
+        handleSearch(niche, false, false, routeFilters);
+    }, [formatRoute(route)]);
+
+    // Filter changes on the results page only re-filter what's loaded, so update the link in place
+    const handleResultsFilterChange = (newFilters: SearchFilters) => {
+        setFilters(newFilters);
+        const route = resultsRoute(currentNiche, newFilters);
+        loadedResultsRef.current = formatRoute(route);
+        navigate(route, { replace: true });
+    };
+
     const handleChannelAnalysis = async (channelUrl: string) => {
         setIsLoading(true);
         setLoadingStatus('Analyzing channel profile...');
@@ -269,44 +378,49 @@ function App() {
         }
     };
 
-    const handleSaveIdea = (video: Video) => {
-        const result = saveIdea({
-            video,
-            savedAt: new Date(),
-        });
+    const handleSaveIdea = async (video: Video) => {
+        try {
+            const result = await saveIdea(video);
+            if (result.success) {
+                toast({
+                    title: 'Idea saved',
+                    description: 'Video saved to your ideas workspace.',
+                });
+            } else {
+                toast({
+                    title: 'Could not save',
+                    description: result.message || 'Failed to save this video.',
+                    variant: 'destructive',
+                });
+            }
+        } catch (error) {
+            logger.error('Failed to save idea:', error);
+            toast({
+                title: 'Could not save',
+                description: 'Failed to save this video.',
+                variant: 'destructive',
+            });
+        }
+    };
 
+    const handleAddToWatchlist = () => {
+        const result = addWatchlist(createWatchlistEntry(currentNiche, filters));
         if (result.success) {
             toast({
-                title: 'Idea saved',
-                description: result.message || 'Video saved to your ideas list.',
+                title: 'Added to watchlist',
+                description: `"${currentNiche}" will be re-checked every 24 hours with your current filters.`,
             });
         } else {
             toast({
-                title: 'Could not save',
-                description: result.message || 'Failed to save this video.',
-                variant: 'destructive',
+                title: 'Already watching',
+                description: result.message,
             });
         }
     };
 
-    const handleRemoveIdea = (videoId: string) => {
-        removeIdea(videoId);
-        toast({
-            title: 'Idea removed',
-            description: 'Video removed from your saved ideas.',
-        });
-    };
-
-    const handleClearAll = () => {
-        clearAllIdeas();
-        toast({
-            title: 'All ideas cleared',
-            description: 'Your saved ideas list has been emptied.',
-        });
-    };
-
     const handleBack = () => {
         setAppState('tool-selector');
+        loadedResultsRef.current = null;
         setVideos([]);
         setCurrentNiche('');
         setNextVideoIdea('');
@@ -343,7 +457,11 @@ function App() {
     return (
         <div className="animate-in fade-in duration-500">
             {appState === 'tool-selector' && (
-                <ToolSelector onSelectTool={setAppState} />
+                <ToolSelector
+                    onSelectTool={setAppState}
+                    onOpenWatchlists={() => setShowWatchlistDialog(true)}
+                    unreadAlertCount={unreadAlertCount}
+                />
             )}
 
             {appState === 'niche-finder' && (
@@ -366,12 +484,17 @@ function App() {
                     savedVideoIds={savedVideoIds}
                     onBack={handleBack}
                     onViewSaved={() => setShowSavedDialog(true)}
-                    savedCount={preferences.savedIdeas.length}
+                    savedCount={ideas.length}
                     filters={filters}
-                    onFilterChange={setFilters}
+                    onFilterChange={handleResultsFilterChange}
                     onLoadMore={() => handleSearch(currentNiche, true)}
+                    onRefresh={() => handleSearch(currentNiche, false, true)}
                     hasMore={!!nextPageTokenMap && Object.keys(nextPageTokenMap).length > 0}
                     isLoadingMore={isMoreLoading}
+                    historyVersion={historyVersion}
+                    onAddToWatchlist={handleAddToWatchlist}
+                    onOpenWatchlists={() => setShowWatchlistDialog(true)}
+                    unreadAlertCount={unreadAlertCount}
                 />
             )}
 
@@ -380,27 +503,58 @@ function App() {
             )}
 
             {appState === 'channel-finder' && (
-                <ChannelFinder />
+                <ChannelFinder
+                    channel={route.params.channel}
+                    onChannelChange={(channel) => navigate({ view: 'channel-finder', params: channel ? { channel } : {} })}
+                />
             )}
 
             {appState === 'keyword-tool' && (
-                <KeywordResearch />
+                <KeywordResearch
+                    topic={route.params.q}
+                    onTopicChange={(q) => navigate({ view: 'keyword-tool', params: q ? { q } : {} })}
+                    onDraftTitles={(keyword) => navigate({ view: 'title-analyzer', params: { keyword } })}
+                />
             )}
 
             {appState === 'video-similarity' && (
-                <VideoSimilarity />
+                <VideoSimilarity
+                    videoId={route.params.v}
+                    onVideoChange={(v) => navigate({ view: 'video-similarity', params: v ? { v } : {} })}
+                />
             )}
 
             {appState === 'thumbnail-generator' && (
                 <ThumbnailGenerator />
             )}
 
+            {appState === 'competitor-tracker' && (
+                <CompetitorTracker
+                    refreshing={competitorsRefreshing}
+                    onRefresh={refreshCompetitors}
+                    onSaveIdea={handleSaveIdea}
+                    savedVideoIds={savedVideoIds}
+                />
+            )}
+
+            {appState === 'title-analyzer' && (
+                <TitleAnalyzer
+                    keyword={route.params.keyword}
+                    onKeywordChange={(keyword) => navigate({ view: 'title-analyzer', params: keyword ? { keyword } : {} }, { replace: true })}
+                />
+            )}
+
             <SavedIdeasDialog
                 open={showSavedDialog}
                 onOpenChange={setShowSavedDialog}
-                savedIdeas={preferences.savedIdeas}
-                onRemove={handleRemoveIdea}
-                onClearAll={handleClearAll}
+            />
+
+            <WatchlistDialog
+                open={showWatchlistDialog}
+                onOpenChange={setShowWatchlistDialog}
+                filters={filters}
+                runningId={runningId}
+                onRunNow={runNow}
             />
 
             <Toaster />
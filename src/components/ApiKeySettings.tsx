@@ -2,12 +2,18 @@ import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from './ui/dialog';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
-import { Settings, Key, CheckCircle2, Eye, EyeOff, Copy, Info, Trash2, HelpCircle, Shield, Globe, ChevronDown, ChevronUp } from 'lucide-react';
+import { Settings, Key, CheckCircle2, Eye, EyeOff, Copy, Info, Trash2, HelpCircle, Shield, Globe, ChevronDown, ChevronUp, Archive } from 'lucide-react';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { toast } from './ui/use-toast';
+import { QuotaMeter } from './QuotaMeter';
+import { BackupPanel } from './BackupPanel';
+import { DEFAULT_QUOTA_SETTINGS, resetQuotaUsage } from '@/lib/quota-ledger';
+import { QuotaBudgetMode } from '@/types/quota';
+import { AI_PROVIDERS, DEFAULT_AI_PROVIDER_SETTINGS } from '@/lib/ai-providers';
+import { AIProviderId, AIProviderConfig, AIProviderSettings } from '@/types/ai-provider';
 
 export function ApiKeySettings() {
-    const { preferences, updateApiKeys } = useLocalStorage();
+    const { preferences, updateApiKeys, updateQuotaSettings, updateAIProviderSettings } = useLocalStorage();
     const [youtubeKey, setYoutubeKey] = useState('');
     const [geminiKey, setGeminiKey] = useState('');
     const [isOpen, setIsOpen] = useState(false);
@@ -15,23 +21,42 @@ export function ApiKeySettings() {
     const [showYoutubeKey, setShowYoutubeKey] = useState(false);
     const [showGeminiKey, setShowGeminiKey] = useState(false);
     const [hasChanges, setHasChanges] = useState(false);
-    const [activeTab, setActiveTab] = useState<'youtube' | 'gemini'>('youtube');
+    const [activeTab, setActiveTab] = useState<'youtube' | 'gemini' | 'backup'>('youtube');
+    const savedAISettings: AIProviderSettings = { ...DEFAULT_AI_PROVIDER_SETTINGS, ...preferences.aiProvider };
+    const [aiSettings, setAISettings] = useState<AIProviderSettings>(savedAISettings);
+    const [showProviderKey, setShowProviderKey] = useState(false);
 
     // Load saved keys when dialog opens
     useEffect(() => {
         if (isOpen) {
             setYoutubeKey(preferences.apiKeys?.youtube || '');
             setGeminiKey(preferences.apiKeys?.gemini || '');
+            setAISettings({ ...DEFAULT_AI_PROVIDER_SETTINGS, ...preferences.aiProvider });
             setHasChanges(false);
         }
-    }, [isOpen, preferences.apiKeys?.youtube, preferences.apiKeys?.gemini]);
+    }, [isOpen, preferences.apiKeys?.youtube, preferences.apiKeys?.gemini, preferences.aiProvider]);
 
     // Track changes
     useEffect(() => {
         const ytChanged = youtubeKey !== (preferences.apiKeys?.youtube || '');
         const gmChanged = geminiKey !== (preferences.apiKeys?.gemini || '');
-        setHasChanges(ytChanged || gmChanged);
-    }, [youtubeKey, geminiKey, preferences.apiKeys]);
+        const aiChanged = JSON.stringify(aiSettings) !== JSON.stringify({ ...DEFAULT_AI_PROVIDER_SETTINGS, ...preferences.aiProvider });
+        setHasChanges(ytChanged || gmChanged || aiChanged);
+    }, [youtubeKey, geminiKey, aiSettings, preferences.apiKeys, preferences.aiProvider]);
+
+    const activeProvider = aiSettings.active;
+    const providerConfig: AIProviderConfig = aiSettings.providers[activeProvider] || {};
+
+    const setActiveProvider = (active: AIProviderId) => {
+        setAISettings(prev => ({ ...prev, active }));
+    };
+
+    const updateProviderConfig = (changes: Partial<AIProviderConfig>) => {
+        setAISettings(prev => ({
+            ...prev,
+            providers: { ...prev.providers, [prev.active]: { ...prev.providers[prev.active], ...changes } },
+        }));
+    };
 
     const handleSave = () => {
         // Validate API key formats before saving
@@ -59,10 +84,21 @@ export function ApiKeySettings() {
             return;
         }
 
+        const providerInfo = AI_PROVIDERS[aiSettings.active];
+        if (providerInfo.requiresKey && !aiSettings.providers[aiSettings.active]?.apiKey?.trim()) {
+            toast({
+                title: "API Key Required",
+                description: `Enter an API key for ${providerInfo.label} or pick another AI provider.`,
+                variant: "destructive"
+            });
+            return;
+        }
+
         updateApiKeys({
             youtube: trimmedYoutubeKey,
             gemini: trimmedGeminiKey
         });
+        updateAIProviderSettings(aiSettings);
 
         setIsOpen(false);
         toast({
@@ -79,6 +115,7 @@ export function ApiKeySettings() {
     const handleReset = () => {
         setYoutubeKey(preferences.apiKeys?.youtube || '');
         setGeminiKey(preferences.apiKeys?.gemini || '');
+        setAISettings(savedAISettings);
     };
 
     const handleRemoveKeys = () => {
@@ -100,6 +137,27 @@ export function ApiKeySettings() {
         });
     };
 
+    const quotaSettings = { ...DEFAULT_QUOTA_SETTINGS, ...preferences.quotaSettings };
+
+    const setQuotaMode = (mode: QuotaBudgetMode) => {
+        updateQuotaSettings({ ...quotaSettings, mode });
+    };
+
+    // Edited as text and committed on blur so the field can be cleared while typing
+    const [budgetInput, setBudgetInput] = useState('');
+    useEffect(() => {
+        setBudgetInput(String(quotaSettings.dailyBudget));
+    }, [quotaSettings.dailyBudget]);
+
+    const commitDailyBudget = () => {
+        const dailyBudget = parseInt(budgetInput);
+        if (dailyBudget > 0) {
+            updateQuotaSettings({ ...quotaSettings, dailyBudget });
+        } else {
+            setBudgetInput(String(quotaSettings.dailyBudget));
+        }
+    };
+
     const hasYoutubeKey = !!preferences.apiKeys?.youtube;
     const hasGeminiKey = !!preferences.apiKeys?.gemini;
 
@@ -168,8 +226,18 @@ export function ApiKeySettings() {
                             }`}
                     >
                         <Key className="h-4 w-4" />
-                        Gemini AI
-                        {hasGeminiKey && <span className="h-1.5 w-1.5 rounded-full bg-green-500" />}
+                        AI Provider
+                        {(hasGeminiKey || savedAISettings.active !== 'gemini') && <span className="h-1.5 w-1.5 rounded-full bg-green-500" />}
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('backup')}
+                        className={`flex items-center gap-2 px-4 py-2 rounded-t-lg text-sm font-medium transition-colors ${activeTab === 'backup'
+                            ? 'bg-blue-500/10 text-blue-400 border-b-2 border-blue-500'
+                            : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800/50'
+                            }`}
+                    >
+                        <Archive className="h-4 w-4" />
+                        Backup
                     </button>
                 </div>
 
@@ -228,63 +296,192 @@ export function ApiKeySettings() {
                                     </div>
                                 </div>
                             </div>
+
+                            {/* Daily quota budget */}
+                            <div className="space-y-3 rounded-lg border border-gray-800 p-3">
+                                <QuotaMeter />
+                                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+                                    <label className="flex items-center gap-2">
+                                        Daily budget
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            step={500}
+                                            value={budgetInput}
+                                            onChange={(e) => setBudgetInput(e.target.value)}
+                                            onBlur={commitDailyBudget}
+                                            onKeyDown={(e) => e.key === 'Enter' && commitDailyBudget()}
+                                            className="h-8 w-24 border-gray-700 bg-gray-800 text-right text-white"
+                                        />
+                                    </label>
+                                    <div className="flex gap-1">
+                                        {(['warn', 'block'] as const).map(mode => (
+                                            <button
+                                                key={mode}
+                                                type="button"
+                                                onClick={() => setQuotaMode(mode)}
+                                                className={`rounded-full border px-3 py-1 text-xs transition-colors ${quotaSettings.mode === mode
+                                                    ? 'border-red-500 bg-red-500/10 text-red-400'
+                                                    : 'border-gray-700 text-gray-400 hover:border-gray-600'
+                                                    }`}
+                                            >
+                                                {mode === 'warn' ? 'Warn when over' : 'Block when over'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={resetQuotaUsage}
+                                        className="text-xs text-gray-500 hover:text-gray-300"
+                                    >
+                                        Reset today's count
+                                    </button>
+                                </div>
+                                <p className="text-xs text-gray-500">
+                                    Counted in this app only; usage from other tools sharing the key isn't included. Resets at midnight Pacific time.
+                                </p>
+                            </div>
                         </div>
                     )}
 
-                    {/* Gemini Tab */}
+                    {/* AI Provider Tab */}
                     {activeTab === 'gemini' && (
                         <div className="space-y-4 animate-in fade-in slide-in-from-right-2 duration-300">
-                            <div className="flex items-center justify-between">
-                                <div className={`px-3 py-1 rounded-full text-xs font-medium flex items-center gap-1.5 ${hasGeminiKey
-                                    ? 'bg-green-500/20 text-green-400'
-                                    : 'bg-gray-700/50 text-gray-400'
-                                    }`}>
-                                    {hasGeminiKey ? (
-                                        <>
-                                            <CheckCircle2 className="h-3 w-3" />
-                                            Using Custom Key
-                                        </>
-                                    ) : (
-                                        <>
-                                            <Info className="h-3 w-3" />
-                                            Using Server Default
-                                        </>
-                                    )}
-                                </div>
+                            <div className="flex flex-wrap gap-1">
+                                {(Object.keys(AI_PROVIDERS) as AIProviderId[]).map(id => (
+                                    <button
+                                        key={id}
+                                        type="button"
+                                        onClick={() => setActiveProvider(id)}
+                                        className={`rounded-full border px-3 py-1 text-xs transition-colors ${activeProvider === id
+                                            ? 'border-indigo-500 bg-indigo-500/10 text-indigo-400'
+                                            : 'border-gray-700 text-gray-400 hover:border-gray-600'
+                                            }`}
+                                    >
+                                        {AI_PROVIDERS[id].label}
+                                    </button>
+                                ))}
                             </div>
 
-                            <div className="space-y-2">
-                                <label className="text-sm font-medium text-gray-200">
-                                    Gemini AI API Key
-                                </label>
-                                <div className="relative">
+                            {activeProvider === 'gemini' && (
+                                <>
+                                    <div className="flex items-center justify-between">
+                                        <div className={`px-3 py-1 rounded-full text-xs font-medium flex items-center gap-1.5 ${hasGeminiKey
+                                            ? 'bg-green-500/20 text-green-400'
+                                            : 'bg-gray-700/50 text-gray-400'
+                                            }`}>
+                                            {hasGeminiKey ? (
+                                                <>
+                                                    <CheckCircle2 className="h-3 w-3" />
+                                                    Using Custom Key
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <Info className="h-3 w-3" />
+                                                    Using Server Default
+                                                </>
+                                            )}
+                                        </div>
+                                    </div>
+
+                                    <div className="space-y-2">
+                                        <label className="text-sm font-medium text-gray-200">
+                                            Gemini AI API Key
+                                        </label>
+                                        <div className="relative">
+                                            <Input
+                                                type={showGeminiKey ? "text" : "password"}
+                                                placeholder="AIzaSy... (leave empty to use server default)"
+                                                value={geminiKey}
+                                                onChange={(e) => setGeminiKey(e.target.value)}
+                                                className="pr-20 border-gray-700 bg-gray-800 text-white placeholder:text-gray-500 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                                            />
+                                            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex gap-1">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setShowGeminiKey(!showGeminiKey)}
+                                                    className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors"
+                                                >
+                                                    {showGeminiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                                                </button>
+                                                {geminiKey && (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => copyToClipboard(geminiKey)}
+                                                        className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors"
+                                                    >
+                                                        <Copy className="h-4 w-4" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </div>
+                                </>
+                            )}
+
+                            {activeProvider !== 'gemini' && (
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium text-gray-200">
+                                        Server URL
+                                    </label>
                                     <Input
-                                        type={showGeminiKey ? "text" : "password"}
-                                        placeholder="AIzaSy... (leave empty to use server default)"
-                                        value={geminiKey}
-                                        onChange={(e) => setGeminiKey(e.target.value)}
-                                        className="pr-20 border-gray-700 bg-gray-800 text-white placeholder:text-gray-500 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                                        placeholder={AI_PROVIDERS[activeProvider].defaultBaseUrl}
+                                        value={providerConfig.baseUrl || ''}
+                                        onChange={(e) => updateProviderConfig({ baseUrl: e.target.value })}
+                                        className="border-gray-700 bg-gray-800 text-white placeholder:text-gray-500 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
                                     />
-                                    <div className="absolute right-2 top-1/2 -translate-y-1/2 flex gap-1">
+                                </div>
+                            )}
+
+                            {activeProvider !== 'gemini' && (
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium text-gray-200">
+                                        API Key {!AI_PROVIDERS[activeProvider].requiresKey && <span className="text-gray-500">(optional)</span>}
+                                    </label>
+                                    <div className="relative">
+                                        <Input
+                                            type={showProviderKey ? "text" : "password"}
+                                            placeholder={AI_PROVIDERS[activeProvider].requiresKey ? 'sk-...' : 'Only if your server requires one'}
+                                            value={providerConfig.apiKey || ''}
+                                            onChange={(e) => updateProviderConfig({ apiKey: e.target.value })}
+                                            className="pr-12 border-gray-700 bg-gray-800 text-white placeholder:text-gray-500 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                                        />
                                         <button
                                             type="button"
-                                            onClick={() => setShowGeminiKey(!showGeminiKey)}
-                                            className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors"
+                                            onClick={() => setShowProviderKey(!showProviderKey)}
+                                            className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors"
                                         >
-                                            {showGeminiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                                            {showProviderKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                                         </button>
-                                        {geminiKey && (
-                                            <button
-                                                type="button"
-                                                onClick={() => copyToClipboard(geminiKey)}
-                                                className="p-1.5 hover:bg-gray-700 rounded text-gray-400 hover:text-white transition-colors"
-                                            >
-                                                <Copy className="h-4 w-4" />
-                                            </button>
-                                        )}
                                     </div>
                                 </div>
+                            )}
+
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium text-gray-200">
+                                    Model
+                                </label>
+                                <Input
+                                    placeholder={AI_PROVIDERS[activeProvider].defaultModel}
+                                    value={providerConfig.model || ''}
+                                    onChange={(e) => updateProviderConfig({ model: e.target.value })}
+                                    className="border-gray-700 bg-gray-800 text-white placeholder:text-gray-500 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                                />
                             </div>
+
+                            {activeProvider !== 'gemini' && (
+                                <p className="text-xs text-gray-500">
+                                    Prompts go straight from this app to the server above, never through our backend or Google.
+                                    {activeProvider === 'local' && ' Ollama needs OLLAMA_ORIGINS set to allow this app; for llama.cpp use http://localhost:8080/v1.'}
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Backup Tab */}
+                    {activeTab === 'backup' && (
+                        <div className="animate-in fade-in slide-in-from-right-2 duration-300">
+                            <BackupPanel />
                         </div>
                     )}
 
@@ -306,6 +503,7 @@ export function ApiKeySettings() {
                                 <div className="h-px bg-gray-800 mb-3" />
                                 <p><strong>YouTube Key:</strong> Go to Google Cloud Console → APIs & Services → Create Credentials.</p>
                                 <p><strong>Gemini Key:</strong> Go to Google AI Studio → Get API Key.</p>
+                                <p><strong>Local models:</strong> Install Ollama, run <code>ollama pull llama3.1</code>, then pick Local above.</p>
                             </div>
                         )}
                     </div>
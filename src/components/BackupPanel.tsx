@@ -0,0 +1,158 @@
+import { useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Download, Upload, FileSpreadsheet, AlertTriangle } from 'lucide-react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { createBackup, parseBackup, importIdeas, ideasToCsv } from '@/lib/backup';
+import { getIdeas, getBoards } from '@/lib/idea-store';
+import { downloadFile, dateStamp } from '@/lib/file-export';
+import { toast } from './ui/use-toast';
+import { logger } from '@/lib/logger';
+
+/**
+ * Export/import of saved ideas, watchlists and settings (Settings → Backup)
+ */
+export function BackupPanel() {
+    const { preferences, importBackupPreferences } = useLocalStorage();
+    const [includeApiKeys, setIncludeApiKeys] = useState(false);
+    const [includeSettings, setIncludeSettings] = useState(true);
+    const [isWorking, setIsWorking] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleExportJson = async () => {
+        setIsWorking(true);
+        try {
+            const bundle = await createBackup(preferences, { includeApiKeys });
+            downloadFile(`viralvision-backup-${dateStamp()}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+            toast({
+                title: 'Backup exported',
+                description: `${bundle.ideas.length} ideas and ${bundle.watchlists.length} watchlists${includeApiKeys ? ', including API keys' : ''}.`,
+            });
+        } catch (error) {
+            logger.error('Backup export failed:', error);
+            toast({ title: 'Export failed', description: 'Could not read your saved data.', variant: 'destructive' });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleExportCsv = async () => {
+        setIsWorking(true);
+        try {
+            const [ideas, boards] = await Promise.all([getIdeas(), getBoards()]);
+            downloadFile(`viralvision-ideas-${dateStamp()}.csv`, ideasToCsv(ideas, boards), 'text/csv;charset=utf-8');
+        } catch (error) {
+            logger.error('CSV export failed:', error);
+            toast({ title: 'Export failed', description: 'Could not read your saved ideas.', variant: 'destructive' });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleImport = async (file: File) => {
+        setIsWorking(true);
+        try {
+            const bundle = parseBackup(await file.text());
+            const ideaSummary = await importIdeas(bundle);
+            const prefSummary = importBackupPreferences(bundle, { includeApiKeys, includeSettings });
+
+            const parts = [
+                `${ideaSummary.ideasAdded} new ideas`,
+                ideaSummary.ideasUpdated > 0 ? `${ideaSummary.ideasUpdated} updated` : null,
+                ideaSummary.boardsAdded > 0 ? `${ideaSummary.boardsAdded} boards` : null,
+                `${prefSummary.watchlistsAdded} watchlists`,
+                prefSummary.profilesAdded > 0 ? `${prefSummary.profilesAdded} scoring profiles` : null,
+                prefSummary.competitorsAdded > 0 ? `${prefSummary.competitorsAdded} competitors` : null,
+                prefSummary.settingsImported ? 'settings' : null,
+                prefSummary.apiKeysImported ? 'API keys' : null,
+            ].filter(Boolean);
+
+            toast({ title: 'Backup imported', description: `Added ${parts.join(', ')}.` });
+        } catch (error) {
+            logger.error('Backup import failed:', error);
+            toast({
+                title: 'Import failed',
+                description: error instanceof Error ? error.message : 'Could not read this file.',
+                variant: 'destructive',
+            });
+        } finally {
+            setIsWorking(false);
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-400">
+                Move your saved ideas, boards, watchlists, scoring profiles and pinned competitors to another machine or share them with a teammate.
+                Importing merges into what's here: an idea you already have is only replaced by a more recently edited copy.
+            </p>
+
+            <div className="space-y-2 rounded-lg border border-gray-800 p-3 text-sm text-gray-300">
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={includeSettings}
+                        onChange={(e) => setIncludeSettings(e.target.checked)}
+                        className="accent-blue-500"
+                    />
+                    Apply quota, AI provider and competitor feed settings when importing
+                </label>
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={includeApiKeys}
+                        onChange={(e) => setIncludeApiKeys(e.target.checked)}
+                        className="accent-red-500"
+                    />
+                    Include API keys
+                </label>
+                {includeApiKeys && (
+                    <p className="flex items-start gap-2 text-xs text-amber-400">
+                        <AlertTriangle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+                        Exported files will contain your keys in plain text, and imported keys replace the ones saved here. Only share such a file with people you'd give the keys to.
+                    </p>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                <Button
+                    variant="outline"
+                    onClick={handleExportJson}
+                    disabled={isWorking}
+                    className="border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white"
+                >
+                    <Download className="mr-2 h-4 w-4" />
+                    Export backup (JSON)
+                </Button>
+                <Button
+                    variant="outline"
+                    onClick={handleExportCsv}
+                    disabled={isWorking}
+                    className="border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white"
+                >
+                    <FileSpreadsheet className="mr-2 h-4 w-4" />
+                    Export ideas (CSV)
+                </Button>
+                <Button
+                    variant="outline"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isWorking}
+                    className="border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white"
+                >
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import backup
+                </Button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImport(file);
+                    }}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,315 @@
+import { useMemo, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Network, Plus, Minus, Maximize2, ExternalLink, Loader2, Share2 } from 'lucide-react';
+import { ChannelGraph, DiscoverySettings } from '@/types/channel';
+import { expandChannelNode, getExpandBlocker } from '@/lib/channel-graph';
+import { estimateNeighborSearchCost } from '@/lib/channel-finder-api';
+import { layoutGraph, Point, LAYOUT_WIDTH, LAYOUT_HEIGHT } from '@/lib/graph-layout';
+import { toast } from './ui/use-toast';
+import { cn } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+
+interface ChannelDiscoveryMapProps {
+    graph: ChannelGraph;
+    onGraphChange: (graph: ChannelGraph) => void;
+    settings: DiscoverySettings;
+    onSettingsChange: (settings: DiscoverySettings) => void;
+}
+
+const CLUSTER_COLORS = ['#a855f7', '#f97316', '#22c55e', '#3b82f6', '#ec4899', '#eab308', '#14b8a6', '#ef4444', '#8b5cf6', '#84cc16'];
+// Above this many channels only the seed, the selection and hovered channels are labelled
+const MAX_LABELLED_NODES = 30;
+const DEPTH_OPTIONS = [1, 2, 3, 4];
+
+const formatNumber = (num: number) =>
+    new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(num);
+
+const clusterColor = (cluster: number) => CLUSTER_COLORS[cluster % CLUSTER_COLORS.length];
+
+const nodeRadius = (subscribers: number) => 5 + Math.log10(Math.max(subscribers, 10)) * 1.6;
+
+export function ChannelDiscoveryMap({ graph, onGraphChange, settings, onSettingsChange }: ChannelDiscoveryMapProps) {
+    const [selectedId, setSelectedId] = useState(graph.seedId);
+    const [hoveredId, setHoveredId] = useState<string | null>(null);
+    const [highlightCluster, setHighlightCluster] = useState<number | null>(null);
+    const [expandingId, setExpandingId] = useState<string | null>(null);
+    const [view, setView] = useState({ scale: 1, x: 0, y: 0 });
+    const dragRef = useRef<{ startX: number; startY: number; viewX: number; viewY: number } | null>(null);
+    // Positions from the previous layout, so expanding doesn't reshuffle the map
+    const positionsRef = useRef<Record<string, Point>>({});
+
+    const positions = useMemo(() => {
+        const ids = Object.keys(graph.nodes);
+        const previous = positionsRef.current;
+        // New channels start next to a channel that's already placed
+        const anchors: Record<string, string> = {};
+        graph.edges.forEach(edge => {
+            if (!previous[edge.target] && previous[edge.source]) anchors[edge.target] = edge.source;
+            if (!previous[edge.source] && previous[edge.target]) anchors[edge.source] = edge.target;
+        });
+        const layout = layoutGraph(
+            ids,
+            graph.edges.map(edge => ({ source: edge.source, target: edge.target, weight: edge.score / 100 })),
+            previous,
+            anchors
+        );
+        positionsRef.current = layout;
+        return layout;
+    }, [graph]);
+
+    const nodes = Object.values(graph.nodes);
+    const selected = graph.nodes[selectedId];
+    const blocker = selected ? getExpandBlocker(graph, selectedId, settings) : null;
+    const showAllLabels = nodes.length <= MAX_LABELLED_NODES;
+
+    const handleExpand = async (nodeId: string) => {
+        setExpandingId(nodeId);
+        try {
+            const next = await expandChannelNode(graph, nodeId, settings);
+            const added = Object.keys(next.nodes).length - Object.keys(graph.nodes).length;
+            onGraphChange(next);
+            toast({
+                title: 'Channel expanded',
+                description: added > 0
+                    ? `Added ${added} new channels to the map.`
+                    : 'No new channels; any matches were already on the map and are now linked.',
+            });
+        } catch (error) {
+            logger.error('Channel expansion error:', error);
+            const msg = error instanceof Error ? error.message : 'Failed to expand this channel';
+            toast({
+                title: 'Error',
+                description: msg === 'QUOTA_BUDGET_EXCEEDED'
+                    ? 'Expanding would go over your daily YouTube quota budget. Raise it or switch to warnings in Settings.'
+                    : msg,
+                variant: 'destructive'
+            });
+        } finally {
+            setExpandingId(null);
+        }
+    };
+
+    const zoom = (factor: number) => setView(v => ({ ...v, scale: Math.min(4, Math.max(0.5, v.scale * factor)) }));
+
+    const isDimmed = (cluster: number) => highlightCluster !== null && highlightCluster !== cluster;
+
+    return (
+        <div className="grid gap-4 lg:grid-cols-[1fr_320px]">
+            {/* Map */}
+            <div className="relative overflow-hidden rounded-2xl border border-gray-800 bg-gray-950/60">
+                <div className="absolute right-3 top-3 z-10 flex flex-col gap-1">
+                    <Button size="icon" variant="outline" className="h-8 w-8 border-gray-700 bg-gray-900/80 text-gray-300" onClick={() => zoom(1.25)} title="Zoom in">
+                        <Plus className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="outline" className="h-8 w-8 border-gray-700 bg-gray-900/80 text-gray-300" onClick={() => zoom(0.8)} title="Zoom out">
+                        <Minus className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="outline" className="h-8 w-8 border-gray-700 bg-gray-900/80 text-gray-300" onClick={() => setView({ scale: 1, x: 0, y: 0 })} title="Reset view">
+                        <Maximize2 className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                <svg
+                    viewBox={`0 0 ${LAYOUT_WIDTH} ${LAYOUT_HEIGHT}`}
+                    className="h-[560px] w-full cursor-grab touch-none select-none active:cursor-grabbing"
+                    onPointerDown={(e) => {
+                        dragRef.current = { startX: e.clientX, startY: e.clientY, viewX: view.x, viewY: view.y };
+                    }}
+                    onPointerMove={(e) => {
+                        const drag = dragRef.current;
+                        if (!drag) return;
+                        // Convert screen pixels to viewBox units
+                        const ratio = LAYOUT_WIDTH / e.currentTarget.getBoundingClientRect().width;
+                        setView(v => ({
+                            ...v,
+                            x: drag.viewX + (e.clientX - drag.startX) * ratio,
+                            y: drag.viewY + (e.clientY - drag.startY) * ratio,
+                        }));
+                    }}
+                    onPointerUp={() => { dragRef.current = null; }}
+                    onPointerLeave={() => { dragRef.current = null; }}
+                    onWheel={(e) => zoom(e.deltaY < 0 ? 1.1 : 0.9)}
+                >
+                    <g transform={`translate(${view.x} ${view.y}) translate(${LAYOUT_WIDTH / 2} ${LAYOUT_HEIGHT / 2}) scale(${view.scale}) translate(${-LAYOUT_WIDTH / 2} ${-LAYOUT_HEIGHT / 2})`}>
+                        {graph.edges.map(edge => {
+                            const a = positions[edge.source];
+                            const b = positions[edge.target];
+                            if (!a || !b) return null;
+                            const touchesSelection = edge.source === selectedId || edge.target === selectedId;
+                            return (
+                                <line
+                                    key={`${edge.source}-${edge.target}`}
+                                    x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                                    stroke={touchesSelection ? '#e9d5ff' : '#4b5563'}
+                                    strokeOpacity={touchesSelection ? 0.9 : 0.2 + (edge.score / 100) * 0.5}
+                                    strokeWidth={touchesSelection ? 2 : 1}
+                                />
+                            );
+                        })}
+
+                        {nodes.map(node => {
+                            const p = positions[node.channel.id];
+                            if (!p) return null;
+                            const id = node.channel.id;
+                            const r = nodeRadius(node.channel.subscriberCount);
+                            const showLabel = showAllLabels || id === graph.seedId || id === selectedId || id === hoveredId;
+                            return (
+                                <g
+                                    key={id}
+                                    transform={`translate(${p.x} ${p.y})`}
+                                    className="cursor-pointer"
+                                    opacity={isDimmed(node.cluster) ? 0.2 : 1}
+                                    onPointerDown={(e) => e.stopPropagation()}
+                                    onClick={() => setSelectedId(id)}
+                                    onDoubleClick={() => !getExpandBlocker(graph, id, settings) && !expandingId && handleExpand(id)}
+                                    onMouseEnter={() => setHoveredId(id)}
+                                    onMouseLeave={() => setHoveredId(null)}
+                                >
+                                    <title>{`${node.channel.title} · ${formatNumber(node.channel.subscriberCount)} subs`}</title>
+                                    {id === selectedId && <circle r={r + 5} fill="none" stroke="#fff" strokeWidth={2} />}
+                                    <circle
+                                        r={r}
+                                        fill={clusterColor(node.cluster)}
+                                        stroke={id === graph.seedId ? '#fff' : node.expanded ? '#111827' : 'none'}
+                                        strokeWidth={id === graph.seedId ? 3 : 1.5}
+                                        strokeDasharray={node.expanded || id === graph.seedId ? undefined : '2 2'}
+                                    />
+                                    {expandingId === id && (
+                                        <circle r={r + 9} fill="none" stroke={clusterColor(node.cluster)} strokeWidth={2} strokeDasharray="4 4" className="animate-spin" />
+                                    )}
+                                    {showLabel && (
+                                        <text y={r + 14} textAnchor="middle" className="fill-gray-300 text-[11px]">
+                                            {node.channel.title.length > 22 ? `${node.channel.title.slice(0, 21)}…` : node.channel.title}
+                                        </text>
+                                    )}
+                                </g>
+                            );
+                        })}
+                    </g>
+                </svg>
+
+                <p className="absolute bottom-2 left-3 text-xs text-gray-500">
+                    Click to select · double-click to expand · drag to pan · scroll to zoom
+                </p>
+            </div>
+
+            {/* Side panel */}
+            <div className="space-y-4">
+                {/* Selected channel */}
+                {selected && (
+                    <div className="rounded-2xl border border-gray-800 bg-gray-900/50 p-4">
+                        <div className="mb-3 flex items-center gap-3">
+                            {selected.channel.thumbnailUrl && (
+                                <img src={selected.channel.thumbnailUrl} alt="" className="h-12 w-12 rounded-full" />
+                            )}
+                            <div className="min-w-0">
+                                <h4 className="truncate font-bold text-white">{selected.channel.title}</h4>
+                                <p className="text-sm text-gray-400">
+                                    {formatNumber(selected.channel.subscriberCount)} subs · {formatNumber(selected.channel.avgViews)} avg views
+                                </p>
+                            </div>
+                        </div>
+                        <p className="mb-2 text-xs text-gray-500">
+                            {selected.depth === 0 ? 'Seed channel' : `${selected.depth} hop${selected.depth > 1 ? 's' : ''} from the seed`}
+                            {' · '}{graph.clusters[selected.cluster]?.label}
+                        </p>
+                        {selected.channel.topics.length > 0 && (
+                            <div className="mb-3 flex flex-wrap gap-1">
+                                {selected.channel.topics.map(topic => (
+                                    <span key={topic} className="rounded-full border border-purple-500/20 bg-purple-500/10 px-2 py-0.5 text-xs text-purple-300">
+                                        {topic}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        <div className="flex gap-2">
+                            <Button
+                                size="sm"
+                                onClick={() => handleExpand(selectedId)}
+                                disabled={!!blocker || !!expandingId}
+                                className="flex-1 bg-purple-600 hover:bg-purple-700"
+                                title={blocker || `Find this channel's neighbors (~${estimateNeighborSearchCost()} quota units)`}
+                            >
+                                {expandingId === selectedId
+                                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    : <Share2 className="mr-2 h-4 w-4" />}
+                                Expand
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                className="border-gray-700 text-gray-300 hover:bg-gray-800"
+                                onClick={() => window.open(`https://youtube.com/${selected.channel.handle || 'channel/' + selected.channel.id}`, '_blank')}
+                            >
+                                <ExternalLink className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        {blocker && !selected.expanded && <p className="mt-2 text-xs text-amber-400">{blocker}</p>}
+                    </div>
+                )}
+
+                {/* Settings */}
+                <div className="space-y-3 rounded-2xl border border-gray-800 bg-gray-900/50 p-4">
+                    <h4 className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                        <Network className="h-4 w-4" />
+                        {Object.keys(graph.nodes).length} channels · {graph.edges.length} links
+                    </h4>
+                    <div>
+                        <p className="mb-1 text-xs text-gray-500">Max depth (hops from the seed)</p>
+                        <div className="flex gap-1">
+                            {DEPTH_OPTIONS.map(depth => (
+                                <button
+                                    key={depth}
+                                    onClick={() => onSettingsChange({ ...settings, maxDepth: depth })}
+                                    className={cn(
+                                        'flex-1 rounded-full px-3 py-1 text-xs font-medium transition-all',
+                                        settings.maxDepth === depth
+                                            ? 'bg-purple-600 text-white'
+                                            : 'border border-gray-700 bg-gray-800/50 text-gray-400 hover:text-gray-200'
+                                    )}
+                                >
+                                    {depth}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <p className="mb-1 text-xs text-gray-500">
+                            Quota budget for expanding: {graph.quotaSpent} of {settings.quotaBudget} units used
+                        </p>
+                        <Input
+                            type="number"
+                            min={0}
+                            step={100}
+                            value={settings.quotaBudget}
+                            onChange={(e) => onSettingsChange({ ...settings, quotaBudget: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className="h-8 border-gray-700 bg-gray-800 text-white"
+                        />
+                    </div>
+                </div>
+
+                {/* Clusters */}
+                <div className="rounded-2xl border border-gray-800 bg-gray-900/50 p-4">
+                    <p className="mb-2 text-xs uppercase text-gray-500">Clusters</p>
+                    <div className="space-y-1">
+                        {graph.clusters.map((cluster, index) => (
+                            <button
+                                key={index}
+                                onClick={() => setHighlightCluster(highlightCluster === index ? null : index)}
+                                className={cn(
+                                    'flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm hover:bg-gray-800',
+                                    highlightCluster === index ? 'bg-gray-800 text-white' : 'text-gray-300'
+                                )}
+                            >
+                                <span className="h-3 w-3 flex-shrink-0 rounded-full" style={{ backgroundColor: clusterColor(index) }} />
+                                <span className="flex-1 truncate">{cluster.label}</span>
+                                <span className="text-xs text-gray-500">{cluster.size}</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,265 @@
+import { ChannelReport, PostingSlot } from '@/types/channel';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Flame, Clock, Type, LineChart, Film, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ChannelReportViewProps {
+    report: ChannelReport;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TOP_OUTLIERS = 12;
+// Months shown in the growth chart
+const GROWTH_MONTHS = 36;
+
+const formatNumber = (num: number) =>
+    new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(num);
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatHour = (hour: number) => `${hour % 12 || 12}${hour < 12 ? 'am' : 'pm'}`;
+
+/**
+ * Slots with enough uploads to compare, best median views first
+ */
+function bestSlots(slots: PostingSlot[], totalUploads: number): PostingSlot[] {
+    // One lucky upload shouldn't make a slot "best"
+    const minUploads = totalUploads >= 30 ? 3 : 1;
+    return slots
+        .filter(slot => slot.uploads >= minUploads)
+        .sort((a, b) => b.medianViews - a.medianViews);
+}
+
+export function ChannelReportView({ report }: ChannelReportViewProps) {
+    const { videos, formats, titles } = report;
+    const outliers = [...videos].sort((a, b) => b.outlierMultiplier - a.outlierMultiplier).slice(0, TOP_OUTLIERS);
+    const weekdayMax = Math.max(1, ...report.weekdays.map(d => d.medianViews));
+    const bestWeekdays = bestSlots(report.weekdays, videos.length).slice(0, 3);
+    const bestHours = bestSlots(report.hours, videos.length).slice(0, 3);
+    const growth = report.growth.slice(-GROWTH_MONTHS);
+    const growthMax = Math.max(1, ...growth.map(p => p.medianViews));
+
+    const titleRows = [
+        { label: 'Avg. characters', top: titles.topDecileAvgChars, other: titles.otherAvgChars },
+        { label: 'Avg. words', top: titles.topDecileAvgWords, other: titles.otherAvgWords },
+        { label: 'Contains a number', top: percent(titles.topDecileWithNumber), other: percent(titles.otherWithNumber) },
+        { label: 'Asks a question', top: percent(titles.topDecileWithQuestion), other: percent(titles.otherWithQuestion) },
+        { label: 'Has an ALL-CAPS word', top: percent(titles.topDecileWithCaps), other: percent(titles.otherWithCaps) },
+    ];
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            {report.truncated && (
+                <p className="flex items-center gap-2 rounded-lg border border-amber-500/20 bg-amber-500/10 px-4 py-2 text-sm text-amber-300">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    This channel has more uploads than a report reads; figures cover the newest {videos.length}.
+                </p>
+            )}
+
+            {/* Summary */}
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                {[
+                    { label: 'Uploads analyzed', value: formatNumber(videos.length) },
+                    { label: 'Median views', value: formatNumber(report.medianViews) },
+                    { label: 'Shorts', value: `${formats.shorts.count} (${percent(formats.shorts.share)})` },
+                    { label: 'Long-form', value: `${formats.longForm.count} (${percent(formats.longForm.share)})` },
+                ].map(stat => (
+                    <div key={stat.label} className="rounded-xl border border-gray-800 bg-gray-900/50 p-4">
+                        <p className="text-xs uppercase text-gray-400">{stat.label}</p>
+                        <p className="text-xl font-bold text-white">{stat.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+                {/* Shorts vs long-form */}
+                <Card className="border-gray-800 bg-gray-900/50">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-lg text-white">
+                            <Film className="h-5 w-5 text-purple-400" />
+                            Shorts vs Long-form
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs uppercase text-gray-500">
+                                    <th className="pb-2 font-medium" />
+                                    <th className="pb-2 font-medium">Shorts</th>
+                                    <th className="pb-2 font-medium">Long-form</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-gray-300">
+                                <tr>
+                                    <td className="py-1 text-gray-400">Uploads</td>
+                                    <td>{formats.shorts.count}</td>
+                                    <td>{formats.longForm.count}</td>
+                                </tr>
+                                <tr>
+                                    <td className="py-1 text-gray-400">Median views</td>
+                                    <td>{formatNumber(formats.shorts.medianViews)}</td>
+                                    <td>{formatNumber(formats.longForm.medianViews)}</td>
+                                </tr>
+                                <tr>
+                                    <td className="py-1 text-gray-400">Avg. views</td>
+                                    <td>{formatNumber(formats.shorts.avgViews)}</td>
+                                    <td>{formatNumber(formats.longForm.avgViews)}</td>
+                                </tr>
+                                <tr>
+                                    <td className="py-1 text-gray-400">Total views</td>
+                                    <td>{formatNumber(formats.shorts.totalViews)}</td>
+                                    <td>{formatNumber(formats.longForm.totalViews)}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </CardContent>
+                </Card>
+
+                {/* Posting times */}
+                <Card className="border-gray-800 bg-gray-900/50">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-lg text-white">
+                            <Clock className="h-5 w-5 text-blue-400" />
+                            Best Posting Times
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="flex h-28 items-end gap-2">
+                            {report.weekdays.map(day => (
+                                <div key={day.slot} className="flex flex-1 flex-col items-center gap-1" title={`${day.uploads} uploads, median ${formatNumber(day.medianViews)} views`}>
+                                    <div
+                                        className={cn(
+                                            'w-full rounded-t',
+                                            bestWeekdays[0]?.slot === day.slot ? 'bg-blue-500' : 'bg-gray-700'
+                                        )}
+                                        style={{ height: `${Math.max(4, (day.medianViews / weekdayMax) * 96)}px` }}
+                                    />
+                                    <span className="text-xs text-gray-400">{WEEKDAYS[day.slot]}</span>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="space-y-1 text-sm text-gray-300">
+                            <p>
+                                <span className="text-gray-400">Best days: </span>
+                                {bestWeekdays.map(d => WEEKDAYS[d.slot]).join(', ') || '—'}
+                            </p>
+                            <p>
+                                <span className="text-gray-400">Best hours: </span>
+                                {bestHours.map(h => `${formatHour(h.slot)} (${formatNumber(h.medianViews)})`).join(', ') || '—'}
+                            </p>
+                            <p className="text-xs text-gray-500">Median views per upload, in your time zone.</p>
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Outliers */}
+            <Card className="border-gray-800 bg-gray-900/50">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-lg text-white">
+                        <Flame className="h-5 w-5 text-orange-400" />
+                        Biggest Outliers
+                        <span className="text-sm font-normal text-gray-400">views vs. the channel median</span>
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="grid grid-cols-1 gap-3 md:grid-cols-2 lg:grid-cols-3">
+                        {outliers.map(video => (
+                            <a
+                                key={video.id}
+                                href={`https://youtube.com/watch?v=${video.id}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex gap-3 rounded-lg bg-black/20 p-2 hover:bg-black/40"
+                            >
+                                {video.thumbnailUrl && (
+                                    <img src={video.thumbnailUrl} alt="" className="h-14 w-24 flex-shrink-0 rounded object-cover" />
+                                )}
+                                <div className="min-w-0">
+                                    <p className="line-clamp-2 text-xs text-gray-200">{video.title}</p>
+                                    <p className="mt-1 text-xs text-gray-400">
+                                        <span className="font-bold text-orange-400">{video.outlierMultiplier.toFixed(1)}x</span>
+                                        {' · '}{formatNumber(video.views)} views{video.isShort ? ' · Short' : ''}
+                                    </p>
+                                </div>
+                            </a>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Title patterns */}
+            <Card className="border-gray-800 bg-gray-900/50">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-lg text-white">
+                        <Type className="h-5 w-5 text-green-400" />
+                        What Top-10% Titles Have in Common
+                        <span className="text-sm font-normal text-gray-400">{formatNumber(titles.topDecileMinViews)}+ views</span>
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="grid gap-6 md:grid-cols-2">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs uppercase text-gray-500">
+                                <th className="pb-2 font-medium" />
+                                <th className="pb-2 font-medium">Top 10%</th>
+                                <th className="pb-2 font-medium">Others</th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-gray-300">
+                            {titleRows.map(row => (
+                                <tr key={row.label}>
+                                    <td className="py-1 text-gray-400">{row.label}</td>
+                                    <td className="font-medium text-white">{row.top}</td>
+                                    <td>{row.other}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div>
+                        <p className="mb-2 text-xs uppercase text-gray-500">Words that show up more in top titles</p>
+                        <div className="flex flex-wrap gap-2">
+                            {titles.keywords.length === 0 && <span className="text-sm text-gray-500">No clear pattern</span>}
+                            {titles.keywords.map(k => (
+                                <span
+                                    key={k.keyword}
+                                    className="rounded-full border border-green-500/20 bg-green-500/10 px-2 py-1 text-xs text-green-300"
+                                    title={`In ${k.count} top titles`}
+                                >
+                                    {k.keyword} <span className="text-green-500">{k.lift}x</span>
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Growth */}
+            <Card className="border-gray-800 bg-gray-900/50">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-lg text-white">
+                        <LineChart className="h-5 w-5 text-pink-400" />
+                        Growth Over Time
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <div className="flex h-36 items-end gap-1">
+                        {growth.map(point => (
+                            <div
+                                key={point.month}
+                                className="flex-1 rounded-t bg-pink-500/60 hover:bg-pink-400"
+                                style={{ height: `${Math.max(2, (point.medianViews / growthMax) * 100)}%` }}
+                                title={`${point.month}: ${point.uploads} uploads, median ${formatNumber(point.medianViews)} views, ${formatNumber(point.totalViews)} total`}
+                            />
+                        ))}
+                    </div>
+                    <div className="mt-2 flex justify-between text-xs text-gray-500">
+                        <span>{growth[0]?.month}</span>
+                        <span>Median views per upload by month published</span>
+                        <span>{growth[growth.length - 1]?.month}</span>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { Lightbulb, TrendingUp, BarChart3, BookOpen, Home, Bookmark, Sparkles, Loader2 } from 'lucide-react';
+import { Lightbulb, TrendingUp, BarChart3, BookOpen, Home, Bookmark, Sparkles, Loader2, History, BellPlus, RefreshCw } from 'lucide-react';
 import { useState, useEffect } from 'react';
 
 // Recharts is large; load it dynamically only when the Graph tab is viewed to keep the initial bundle small
@@ -14,6 +14,10 @@ import { generateWhyItWorksExplanation } from '@/lib/gemini-api';
 import { SearchFilters } from '@/types/filters';
 import { FilterDialog } from './FilterDialog';
 import { ApiKeySettings } from './ApiKeySettings';
+import { NicheHistory } from './NicheHistory';
+import { WatchlistButton } from './WatchlistButton';
+import { ExportResultsDialog } from './ExportResultsDialog';
+import { filterVideos, sortVideos } from '@/lib/video-filters';
 import { logger } from '@/lib/logger';
 
 interface DashboardProps {
@@ -28,8 +32,14 @@ interface DashboardProps {
     filters: SearchFilters;
     onFilterChange: (filters: SearchFilters) => void;
     onLoadMore: () => void;
+    // Re-run the search, skipping cached API responses
+    onRefresh: () => void;
     hasMore: boolean;
     isLoadingMore: boolean;
+    historyVersion: number;
+    onAddToWatchlist: () => void;
+    onOpenWatchlists: () => void;
+    unreadAlertCount: number;
 }
 
 export function Dashboard({
@@ -44,61 +54,21 @@ export function Dashboard({
     filters,
     onFilterChange,
     onLoadMore,
+    onRefresh,
     hasMore,
     isLoadingMore,
+    historyVersion,
+    onAddToWatchlist,
+    onOpenWatchlists,
+    unreadAlertCount,
 }: DashboardProps) {
     const [activeTab, setActiveTab] = useState('leaderboard');
     const [explanations, setExplanations] = useState<Record<string, string>>({});
     // Apply filters
-    const filteredVideos = videos.filter(v => {
-        // Region filter
-        if (filters.region !== 'ALL') {
-            if (!v.region || v.region !== filters.region) return false;
-        }
-
-        // Date Range filter (Client-side refinement)
-        if (filters.dateRange !== '7d') { // Default fetch is usually based on search, but we refine here
-            const now = new Date();
-            const videoDate = new Date(v.publishedAt);
-            const diffHours = (now.getTime() - videoDate.getTime()) / (1000 * 60 * 60);
-
-            if (filters.dateRange === '24h' && diffHours > 24) return false;
-            // Note: If user wants 30d but we only fetched 7d via API, we can't show more. 
-            // This client-side filter only restricts.
-        }
-
-        // Duration filter
-        if (filters.duration === 'SHORT' && v.lengthSeconds >= 60) return false;
-        if (filters.duration === 'MEDIUM' && (v.lengthSeconds < 60 || v.lengthSeconds > 300)) return false;
-        if (filters.duration === 'LONG' && v.lengthSeconds <= 300) return false;
-
-        // Channel Size filter
-        if (filters.channelSize === 'SMALL' && v.subscriberCount >= 10000) return false;
-        if (filters.channelSize === 'MEDIUM' && (v.subscriberCount < 10000 || v.subscriberCount > 500000)) return false;
-        if (filters.channelSize === 'LARGE' && v.subscriberCount <= 500000) return false;
-
-        // Min Views filter
-        const minViews = filters.minViews === 'ALL' ? 0 : parseInt(filters.minViews);
-        if (v.views < minViews) return false;
-
-        return true;
-    });
+    const filteredVideos = filterVideos(videos, filters);
 
     // Apply Sorting
-    const sortedVideos = [...filteredVideos].sort((a, b) => {
-        switch (filters.sortBy) {
-            case 'viewCount':
-                return b.views - a.views;
-            case 'date':
-                return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
-            case 'rating': // Using Likes as proxy for rating
-                return b.likes - a.likes;
-            case 'relevance':
-            default:
-                // Default to Viral Score (already sorted by rankVideos in App, but good to enforce)
-                return b.viralScore - a.viralScore;
-        }
-    });
+    const sortedVideos = sortVideos(filteredVideos, filters.sortBy);
 
     // Use sorted videos directly for display (infinite scroll style)
     // Ensure we display complete rows (multiples of 3) to keep the grid looking professional
@@ -127,7 +97,7 @@ export function Dashboard({
     useEffect(() => {
         let cancelled = false;
         const loadCharts = async () => {
-            if (activeTab !== 'graph' || recharts) return;
+            if ((activeTab !== 'graph' && activeTab !== 'history') || recharts) return;
             setIsLoadingCharts(true);
             try {
                 const mod = await import('recharts');
@@ -215,6 +185,17 @@ export function Dashboard({
                         </div>
                     </div>
                     <div className="flex items-center gap-2">
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={onRefresh}
+                            className="text-gray-400 hover:text-white hover:bg-gray-800"
+                            title="Refresh results (skips cached data)"
+                        >
+                            <RefreshCw className="h-5 w-5" />
+                        </Button>
+                        <ExportResultsDialog videos={sortedVideos} niche={niche} filters={filters} />
+                        <WatchlistButton onClick={onOpenWatchlists} unreadCount={unreadAlertCount} />
                         <ApiKeySettings />
                         <Dialog>
                             <DialogTrigger asChild>
@@ -242,6 +223,17 @@ export function Dashboard({
                             </DialogContent>
                         </Dialog>
 
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={onAddToWatchlist}
+                            className="border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white"
+                            title="Re-check this niche on a schedule and get alerts for new breakouts"
+                        >
+                            <BellPlus className="mr-2 h-4 w-4" />
+                            Watch
+                        </Button>
+
                         <Button
                             variant="outline"
                             size="sm"
@@ -249,7 +241,7 @@ export function Dashboard({
                             className="border-red-500/30 text-red-400 hover:bg-red-500/10"
                         >
                             <Bookmark className="mr-2 h-4 w-4" />
-                            Saved Ideas ({savedCount}/50)
+                            Saved Ideas ({savedCount})
                         </Button>
                     </div>
                 </div>
@@ -259,7 +251,7 @@ export function Dashboard({
                 {/* Tabs */}
                 <Tabs value={activeTab} onValueChange={setActiveTab}>
                     <div className="mb-6 flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
-                        <TabsList className="bg-gray-900/50 w-full grid grid-cols-4 md:w-auto md:grid-cols-none md:flex">
+                        <TabsList className="bg-gray-900/50 w-full grid grid-cols-5 md:w-auto md:grid-cols-none md:flex">
                             <TabsTrigger value="leaderboard" className="data-[state=active]:bg-red-500/20 data-[state=active]:text-red-400">
                                 <TrendingUp className="mr-2 h-4 w-4" />
                                 <span className="hidden md:inline">Leaderboard</span>
@@ -280,6 +272,11 @@ export function Dashboard({
                                 <span className="hidden md:inline">Strategy Feed</span>
                                 <span className="md:hidden">Feed</span>
                             </TabsTrigger>
+                            <TabsTrigger value="history" className="data-[state=active]:bg-red-500/20 data-[state=active]:text-red-400">
+                                <History className="mr-2 h-4 w-4" />
+                                <span className="hidden md:inline">Tracking</span>
+                                <span className="md:hidden">Track</span>
+                            </TabsTrigger>
                         </TabsList>
 
                         <FilterDialog
@@ -509,6 +506,11 @@ export function Dashboard({
                             </Card>
                         ))}
                     </TabsContent>
+
+                    {/* Tracking History Tab */}
+                    <TabsContent value="history" className="space-y-6">
+                        <NicheHistory niche={niche} recharts={recharts} refreshKey={historyVersion} />
+                    </TabsContent>
                 </Tabs>
             </div>
         </div>
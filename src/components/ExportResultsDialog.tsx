@@ -0,0 +1,82 @@
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { Video } from '@/types/video';
+import { SearchFilters } from '@/types/filters';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { resolveScoringProfile } from '@/lib/scoring-profiles';
+import { exportResults, ResultsExportFormat } from '@/lib/results-export';
+import { toast } from './ui/use-toast';
+import { logger } from '@/lib/logger';
+
+interface ExportResultsDialogProps {
+    // Already filtered and sorted, as shown in the leaderboard
+    videos: Video[];
+    niche: string;
+    filters: SearchFilters;
+}
+
+export function ExportResultsDialog({ videos, niche, filters }: ExportResultsDialogProps) {
+    const { preferences } = useLocalStorage();
+
+    const handleExport = (format: ResultsExportFormat) => {
+        try {
+            exportResults(videos, {
+                niche,
+                filters,
+                scoringProfileName: resolveScoringProfile(filters.scoringProfileId, preferences.scoringProfiles).name,
+            }, format);
+        } catch (error) {
+            logger.error('Results export failed:', error);
+            toast({ title: 'Export failed', description: 'Could not create the file.', variant: 'destructive' });
+        }
+    };
+
+    return (
+        <Dialog>
+            <DialogTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-gray-400 hover:text-white hover:bg-gray-800"
+                    title="Export results"
+                    disabled={videos.length === 0}
+                >
+                    <Download className="h-5 w-5" />
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="border-gray-800 bg-gray-900 sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2 text-xl text-white">
+                        <Download className="h-5 w-5 text-red-500" />
+                        Export Results
+                    </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 py-2">
+                    <p className="text-sm text-gray-400">
+                        Exports the {videos.length} videos matching your current filters, in the current sort order,
+                        with every metric and score. The file starts with the niche, filters and fetch time.
+                    </p>
+                    <div className="grid grid-cols-2 gap-3">
+                        <Button
+                            variant="outline"
+                            onClick={() => handleExport('csv')}
+                            className="border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white"
+                        >
+                            <FileText className="mr-2 h-4 w-4" />
+                            CSV
+                        </Button>
+                        <Button
+                            variant="outline"
+                            onClick={() => handleExport('xlsx')}
+                            className="border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white"
+                        >
+                            <FileSpreadsheet className="mr-2 h-4 w-4" />
+                            Excel (XLSX)
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
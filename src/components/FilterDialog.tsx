@@ -1,8 +1,12 @@
 import { Button } from './ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { SearchFilters, RegionCode, DurationType, DateRange, SortBy, ChannelSize, MinViews } from '@/types/filters';
-import { SlidersHorizontal, MapPin, Clock, Calendar } from 'lucide-react';
+import { SearchFilters, RegionCode, DurationType, DateRange, SortBy, ChannelSize, MinViews, MinOutlier } from '@/types/filters';
+import { SlidersHorizontal, MapPin, Clock, Calendar, Gauge, Pencil, Flame } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useState } from 'react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { getAllProfiles } from '@/lib/scoring-profiles';
+import { ScoringProfilesDialog } from './ScoringProfilesDialog';
 
 interface FilterDialogProps {
     filters: SearchFilters;
@@ -11,12 +15,18 @@ interface FilterDialogProps {
 }
 
 export function FilterDialog({ filters, onFilterChange, trigger }: FilterDialogProps) {
+    const { preferences } = useLocalStorage();
+    const [showProfiles, setShowProfiles] = useState(false);
+    const scoringProfiles = getAllProfiles(preferences.scoringProfiles);
+
     const handleRegionChange = (region: RegionCode) => onFilterChange({ ...filters, region });
     const handleDurationChange = (duration: DurationType) => onFilterChange({ ...filters, duration });
     const handleDateRangeChange = (dateRange: DateRange) => onFilterChange({ ...filters, dateRange });
     const handleSortChange = (sortBy: SortBy) => onFilterChange({ ...filters, sortBy });
     const handleChannelSizeChange = (channelSize: ChannelSize) => onFilterChange({ ...filters, channelSize });
     const handleMinViewsChange = (minViews: MinViews) => onFilterChange({ ...filters, minViews });
+    const handleMinOutlierChange = (minOutlier: MinOutlier) => onFilterChange({ ...filters, minOutlier });
+    const handleScoringProfileChange = (scoringProfileId: string) => onFilterChange({ ...filters, scoringProfileId });
 
     const FilterSection = ({ title, icon: Icon, children }: { title: string; icon: any; children: React.ReactNode }) => (
         <div className="space-y-3">
@@ -60,12 +70,33 @@ export function FilterDialog({ filters, onFilterChange, trigger }: FilterDialogP
                 </DialogHeader>
 
                 <div className="space-y-6 py-4">
+                    {/* Scoring Profile */}
+                    <FilterSection title="Scoring Profile" icon={Gauge}>
+                        {scoringProfiles.map(profile => (
+                            <FilterPill
+                                key={profile.id}
+                                active={filters.scoringProfileId === profile.id}
+                                onClick={() => handleScoringProfileChange(profile.id)}
+                            >
+                                {profile.name}
+                            </FilterPill>
+                        ))}
+                        <button
+                            onClick={() => setShowProfiles(true)}
+                            className="flex items-center gap-1 rounded-full px-3 py-1.5 text-sm text-gray-400 hover:text-white"
+                        >
+                            <Pencil className="h-3 w-3" />
+                            Edit
+                        </button>
+                    </FilterSection>
+
                     {/* Sort Order */}
                     <FilterSection title="Sort By" icon={SlidersHorizontal}>
                         <FilterPill active={filters.sortBy === 'viewCount'} onClick={() => handleSortChange('viewCount')}>Most Viewed</FilterPill>
                         <FilterPill active={filters.sortBy === 'relevance'} onClick={() => handleSortChange('relevance')}>Relevance</FilterPill>
                         <FilterPill active={filters.sortBy === 'date'} onClick={() => handleSortChange('date')}>Newest</FilterPill>
                         <FilterPill active={filters.sortBy === 'rating'} onClick={() => handleSortChange('rating')}>Highest Rated</FilterPill>
+                        <FilterPill active={filters.sortBy === 'outlier'} onClick={() => handleSortChange('outlier')}>Biggest Outliers</FilterPill>
                     </FilterSection>
 
                     {/* Region Filter */}
@@ -94,6 +125,14 @@ export function FilterDialog({ filters, onFilterChange, trigger }: FilterDialogP
                         <FilterPill active={filters.minViews === '100000'} onClick={() => handleMinViewsChange('100000')}>100k+</FilterPill>
                     </FilterSection>
 
+                    {/* Channel-relative outliers */}
+                    <FilterSection title="Views vs. Channel Median" icon={Flame}>
+                        <FilterPill active={filters.minOutlier === 'ALL'} onClick={() => handleMinOutlierChange('ALL')}>Any</FilterPill>
+                        <FilterPill active={filters.minOutlier === '2'} onClick={() => handleMinOutlierChange('2')}>2x+</FilterPill>
+                        <FilterPill active={filters.minOutlier === '5'} onClick={() => handleMinOutlierChange('5')}>5x+</FilterPill>
+                        <FilterPill active={filters.minOutlier === '10'} onClick={() => handleMinOutlierChange('10')}>10x+</FilterPill>
+                    </FilterSection>
+
                     {/* Duration Filter */}
                     <FilterSection title="Video Type" icon={Clock}>
                         <FilterPill active={filters.duration === 'ALL'} onClick={() => handleDurationChange('ALL')}>All</FilterPill>
@@ -111,6 +150,13 @@ export function FilterDialog({ filters, onFilterChange, trigger }: FilterDialogP
                     </FilterSection>
                 </div>
             </DialogContent>
+
+            <ScoringProfilesDialog
+                open={showProfiles}
+                onOpenChange={setShowProfiles}
+                activeProfileId={filters.scoringProfileId}
+                onSelectProfile={handleScoringProfileChange}
+            />
         </Dialog>
     );
 }
@@ -5,6 +5,9 @@ import { Card, CardContent, CardHeader } from './ui/card';
 import { Search } from 'lucide-react';
 import { SearchFilters } from '@/types/filters';
 import { ApiKeySettings } from './ApiKeySettings';
+import { FilterDialog } from './FilterDialog';
+import { QuotaMeter } from './QuotaMeter';
+import { estimateTrendingSearchCost } from '@/lib/youtube-api';
 
 interface LandingPageProps {
     onSearch: (niche: string) => void;
@@ -15,7 +18,7 @@ interface LandingPageProps {
     onNavigateToAnalyzer?: () => void;
 }
 
-export function LandingPage({ onSearch, onChannelAnalysis, isLoading, onNavigateToAnalyzer }: LandingPageProps) {
+export function LandingPage({ onSearch, onChannelAnalysis, isLoading, filters, onFilterChange, onNavigateToAnalyzer }: LandingPageProps) {
     const [nicheInput, setNicheInput] = useState('');
     const [urlInput, setUrlInput] = useState('');
 
@@ -89,7 +92,9 @@ export function LandingPage({ onSearch, onChannelAnalysis, isLoading, onNavigate
                                     className="flex-1 border-gray-700 bg-gray-800 text-white placeholder:text-gray-500"
                                     disabled={isLoading}
                                 />
+                                <FilterDialog filters={filters} onFilterChange={onFilterChange} />
                             </div>
+                            <QuotaMeter cost={estimateTrendingSearchCost(filters)} />
                         </div>
 
                         {/* Divider */}
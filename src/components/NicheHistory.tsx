@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { TrackedVideo, SnapshotPoint } from '@/types/tracking';
+import { getNicheHistory, clearNicheHistory } from '@/lib/snapshot-store';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { TrendingUp, TrendingDown, Minus, Loader2, Trash2 } from 'lucide-react';
+import { logger } from '@/lib/logger';
+import { cn } from '@/lib/utils';
+
+type RechartsModule = typeof import('recharts');
+
+interface NicheHistoryProps {
+    niche: string;
+    recharts: RechartsModule | null;
+    // Changes whenever a new snapshot was recorded so the history reloads
+    refreshKey: number;
+}
+
+interface TrendSummary {
+    video: TrackedVideo;
+    viewsGained: number;
+    velocity: number; // views/hour over the latest interval
+    previousVelocity: number | null; // views/hour over the interval before that
+}
+
+function viewsPerHour(from: SnapshotPoint, to: SnapshotPoint): number {
+    const hours = (new Date(to.fetchedAt).getTime() - new Date(from.fetchedAt).getTime()) / (1000 * 60 * 60);
+    if (hours <= 0) return 0;
+    return Math.max(to.views - from.views, 0) / hours;
+}
+
+function summarize(video: TrackedVideo): TrendSummary {
+    const { points } = video;
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    return {
+        video,
+        viewsGained: last.views - first.views,
+        velocity: points.length >= 2 ? viewsPerHour(points[points.length - 2], last) : 0,
+        previousVelocity: points.length >= 3 ? viewsPerHour(points[points.length - 3], points[points.length - 2]) : null,
+    };
+}
+
+const formatNumber = (num: number) => {
+    if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+    if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
+    return Math.round(num).toString();
+};
+
+export function NicheHistory({ niche, recharts, refreshKey }: NicheHistoryProps) {
+    const [tracked, setTracked] = useState<TrendSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+
+        getNicheHistory(niche)
+            .then(history => {
+                if (cancelled) return;
+                // Videos with more snapshots and faster current growth first
+                const summaries = history
+                    .map(summarize)
+                    .sort((a, b) => {
+                        const aHasTrend = a.video.points.length > 1 ? 1 : 0;
+                        const bHasTrend = b.video.points.length > 1 ? 1 : 0;
+                        return bHasTrend - aHasTrend || b.velocity - a.velocity;
+                    });
+                setTracked(summaries);
+                setSelectedId(prev => prev && summaries.some(s => s.video.videoId === prev) ? prev : summaries[0]?.video.videoId ?? null);
+            })
+            .catch(error => logger.error('Failed to load niche history:', error))
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [niche, refreshKey]);
+
+    const handleClear = async () => {
+        try {
+            await clearNicheHistory(niche);
+            setTracked([]);
+            setSelectedId(null);
+        } catch (error) {
+            logger.error('Failed to clear niche history:', error);
+        }
+    };
+
+    const selected = tracked.find(s => s.video.videoId === selectedId) || null;
+    const chartData = selected?.video.points.map(point => ({
+        time: new Date(point.fetchedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit' }),
+        views: point.views,
+        viralScore: Math.round(point.viralScore),
+    })) || [];
+
+    if (isLoading) {
+        return (
+            <div className="flex h-64 items-center justify-center">
+                <Loader2 className="mr-2 h-6 w-6 animate-spin text-gray-300" />
+                <span className="text-gray-300">Loading history...</span>
+            </div>
+        );
+    }
+
+    if (tracked.length === 0) {
+        return (
+            <Card className="border-white/10 bg-gray-900/50 p-12 text-center">
+                <p className="text-gray-400">No history for this niche yet. Snapshots are recorded every time you run a search.</p>
+            </Card>
+        );
+    }
+
+    const multiSnapshotCount = tracked.filter(s => s.video.points.length > 1).length;
+
+    return (
+        <div className="space-y-6">
+            <Card className="border-blue-500/30 bg-blue-950/20">
+                <CardContent className="flex flex-col gap-3 p-4 text-sm text-blue-200 md:flex-row md:items-center md:justify-between">
+                    <p>
+                        <strong>{tracked.length}</strong> videos tracked for "{niche}", <strong>{multiSnapshotCount}</strong> with more than one snapshot.
+                        Re-run this niche daily to see which videos are accelerating.
+                    </p>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleClear}
+                        className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+                    >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Clear History
+                    </Button>
+                </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+                {/* Tracked video list */}
+                <div className="max-h-[480px] space-y-2 overflow-y-auto pr-1">
+                    {tracked.map(({ video, viewsGained, velocity, previousVelocity }) => {
+                        const trend = previousVelocity === null ? 'flat'
+                            : velocity > previousVelocity * 1.1 ? 'up'
+                                : velocity < previousVelocity * 0.9 ? 'down'
+                                    : 'flat';
+                        const TrendIcon = trend === 'up' ? TrendingUp : trend === 'down' ? TrendingDown : Minus;
+
+                        return (
+                            <button
+                                key={video.videoId}
+                                onClick={() => setSelectedId(video.videoId)}
+                                className={cn(
+                                    'w-full rounded-lg border p-3 text-left transition-colors',
+                                    selectedId === video.videoId
+                                        ? 'border-red-500/50 bg-red-500/10'
+                                        : 'border-gray-800 bg-gray-900/50 hover:border-gray-700'
+                                )}
+                            >
+                                <p className="line-clamp-2 text-sm font-medium text-white">{video.title}</p>
+                                <div className="mt-2 flex items-center justify-between text-xs text-gray-400">
+                                    <span>{video.points.length} snapshot{video.points.length === 1 ? '' : 's'}</span>
+                                    <span className="flex items-center gap-1">
+                                        <TrendIcon className={cn(
+                                            'h-3 w-3',
+                                            trend === 'up' ? 'text-green-400' : trend === 'down' ? 'text-red-400' : 'text-gray-500'
+                                        )} />
+                                        {video.points.length > 1 ? `+${formatNumber(viewsGained)} · ${formatNumber(velocity)}/h` : 'First seen'}
+                                    </span>
+                                </div>
+                            </button>
+                        );
+                    })}
+                </div>
+
+                {/* Chart for the selected video */}
+                <Card className="border-white/10 bg-gray-900/50 lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle className="line-clamp-1 text-white">{selected?.video.title}</CardTitle>
+                        <p className="text-sm text-gray-400">
+                            Views and viral score at each snapshot · {selected?.video.channelName}
+                        </p>
+                    </CardHeader>
+                    <CardContent>
+                        {!recharts && (
+                            <div className="flex h-80 items-center justify-center">
+                                <Loader2 className="mr-2 h-6 w-6 animate-spin text-gray-300" />
+                                <span className="text-gray-300">Loading charts...</span>
+                            </div>
+                        )}
+
+                        {recharts && selected && selected.video.points.length < 2 && (
+                            <div className="flex h-80 items-center justify-center">
+                                <p className="text-gray-400">Only one snapshot so far. Run this niche again later to chart its trend.</p>
+                            </div>
+                        )}
+
+                        {recharts && selected && selected.video.points.length >= 2 && (
+                            <recharts.ResponsiveContainer width="100%" height={320}>
+                                <recharts.LineChart data={chartData} margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
+                                    <recharts.CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                                    <recharts.XAxis dataKey="time" stroke="#9ca3af" />
+                                    <recharts.YAxis
+                                        yAxisId="views"
+                                        stroke="#f87171"
+                                        tickFormatter={(value: number) => formatNumber(value)}
+                                        width={60}
+                                    />
+                                    <recharts.YAxis
+                                        yAxisId="score"
+                                        orientation="right"
+                                        domain={[0, 100]}
+                                        stroke="#fbbf24"
+                                        width={40}
+                                    />
+                                    <recharts.Tooltip
+                                        contentStyle={{ backgroundColor: '#111827', border: '1px solid rgba(255,255,255,0.1)' }}
+                                        labelStyle={{ color: '#fff' }}
+                                    />
+                                    <recharts.Legend />
+                                    <recharts.Line yAxisId="views" type="monotone" dataKey="views" name="Views" stroke="#f87171" strokeWidth={2} dot />
+                                    <recharts.Line yAxisId="score" type="monotone" dataKey="viralScore" name="Viral Score" stroke="#fbbf24" strokeWidth={2} dot />
+                                </recharts.LineChart>
+                            </recharts.ResponsiveContainer>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
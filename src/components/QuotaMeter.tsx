@@ -0,0 +1,54 @@
+import { Gauge } from 'lucide-react';
+import { useQuotaUsage } from '@/hooks/useQuotaUsage';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { DEFAULT_QUOTA_SETTINGS } from '@/lib/quota-ledger';
+import { cn } from '@/lib/utils';
+
+interface QuotaMeterProps {
+    // Estimated units of the action about to run, shown as a preview on the bar
+    cost?: number;
+    actionLabel?: string;
+    className?: string;
+}
+
+export function QuotaMeter({ cost, actionLabel = 'This search', className }: QuotaMeterProps) {
+    const usage = useQuotaUsage();
+    const { preferences } = useLocalStorage();
+    const { dailyBudget, mode } = { ...DEFAULT_QUOTA_SETTINGS, ...preferences.quotaSettings };
+
+    const usedPercent = Math.min((usage.units / dailyBudget) * 100, 100);
+    const costPercent = cost ? Math.min((cost / dailyBudget) * 100, 100 - usedPercent) : 0;
+    const wouldExceed = !!cost && usage.units + cost > dailyBudget;
+
+    return (
+        <div className={cn('space-y-1.5 text-left text-xs', className)}>
+            <div className="flex items-center justify-between gap-2 text-gray-400">
+                <span className="flex items-center gap-1.5">
+                    <Gauge className="h-3.5 w-3.5" />
+                    YouTube quota today: {usage.units.toLocaleString()} / {dailyBudget.toLocaleString()} units
+                </span>
+                {cost !== undefined && (
+                    <span className={cn(wouldExceed ? (mode === 'block' ? 'text-red-400' : 'text-yellow-400') : 'text-gray-500')}>
+                        {actionLabel} will cost ~{cost.toLocaleString()}
+                    </span>
+                )}
+            </div>
+            <div className="flex h-1.5 w-full overflow-hidden rounded-full bg-gray-800">
+                <div
+                    className={cn('h-full', usedPercent >= 90 ? 'bg-red-500' : usedPercent >= 70 ? 'bg-yellow-500' : 'bg-green-500')}
+                    style={{ width: `${usedPercent}%` }}
+                />
+                {costPercent > 0 && (
+                    <div className="h-full bg-gray-500/60" style={{ width: `${costPercent}%` }} />
+                )}
+            </div>
+            {wouldExceed && (
+                <p className={mode === 'block' ? 'text-red-400' : 'text-yellow-400'}>
+                    {mode === 'block'
+                        ? 'Over your daily budget: this action will be blocked. Raise the budget in Settings.'
+                        : 'This will go over your daily budget.'}
+                </p>
+            )}
+        </div>
+    );
+}
@@ -1,74 +1,375 @@
-import { SavedIdea } from '@/types/video';
+import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
 import { Button } from './ui/button';
-import { VideoCard } from './VideoCard';
-import { Trash2 } from 'lucide-react';
+import { Input } from './ui/input';
+import { Trash2, Plus, Search, X, ExternalLink, Folder, Pencil } from 'lucide-react';
+import { useIdeas } from '@/hooks/useIdeas';
+import {
+    IDEA_STATUSES,
+    queryIdeas,
+    updateIdea,
+    removeIdea,
+    clearIdeas,
+    createBoard,
+    renameBoard,
+    deleteBoard,
+    normalizeTag,
+} from '@/lib/idea-store';
+import { Idea, IdeaBoard, IdeaSort, IdeaStatus } from '@/types/ideas';
+import { toast } from './ui/use-toast';
+import { cn } from '@/lib/utils';
 
 interface SavedIdeasDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
-    savedIdeas: SavedIdea[];
-    onRemove: (videoId: string) => void;
-    onClearAll: () => void;
 }
 
-export function SavedIdeasDialog({
-    open,
-    onOpenChange,
-    savedIdeas,
-    onRemove,
-    onClearAll,
-}: SavedIdeasDialogProps) {
+const SORT_OPTIONS: { id: IdeaSort; label: string }[] = [
+    { id: 'saved', label: 'Newest' },
+    { id: 'updated', label: 'Recently edited' },
+    { id: 'viralScore', label: 'Viral score' },
+    { id: 'views', label: 'Views' },
+];
+
+const STATUS_COLORS: Record<IdeaStatus, string> = {
+    idea: 'border-gray-600 text-gray-300',
+    scripted: 'border-blue-500/50 text-blue-300',
+    filmed: 'border-amber-500/50 text-amber-300',
+    published: 'border-green-500/50 text-green-300',
+};
+
+const pillClass = (active: boolean) => cn(
+    'rounded-full border px-3 py-1 text-xs transition-colors',
+    active ? 'border-red-500 bg-red-500/10 text-red-400' : 'border-gray-700 text-gray-400 hover:border-gray-600'
+);
+
+const reportError = (error: unknown) => {
+    toast({
+        title: 'Could not update ideas',
+        description: error instanceof Error ? error.message : 'Storage is unavailable.',
+        variant: 'destructive',
+    });
+};
+
+interface IdeaRowProps {
+    idea: Idea;
+    boards: IdeaBoard[];
+    onFilterTag: (tag: string) => void;
+}
+
+function IdeaRow({ idea, boards, onFilterTag }: IdeaRowProps) {
+    const [note, setNote] = useState(idea.note);
+    const [tagInput, setTagInput] = useState('');
+
+    // Pick up edits made elsewhere
+    useEffect(() => setNote(idea.note), [idea.note]);
+
+    const commitNote = () => {
+        if (note !== idea.note) updateIdea(idea.id, { note }).catch(reportError);
+    };
+
+    const addTag = () => {
+        const tag = normalizeTag(tagInput);
+        if (!tag) return;
+        updateIdea(idea.id, { tags: [...idea.tags, tag] }).catch(reportError);
+        setTagInput('');
+    };
+
+    return (
+        <div className="flex flex-col gap-3 rounded-lg border border-gray-800 bg-gray-900/60 p-3 sm:flex-row">
+            <a
+                href={`https://youtube.com/watch?v=${idea.video.id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="relative block w-full flex-shrink-0 overflow-hidden rounded sm:w-40"
+            >
+                <img
+                    src={`https://i.ytimg.com/vi/${idea.video.id}/mqdefault.jpg`}
+                    alt={idea.video.title}
+                    className="aspect-video w-full object-cover"
+                    loading="lazy"
+                />
+                <span className="absolute bottom-1 right-1 rounded bg-black/80 px-1.5 text-[10px] font-bold text-white">
+                    {Math.round(idea.video.viralScore)}
+                </span>
+            </a>
+
+            <div className="min-w-0 flex-1 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                        <p className="line-clamp-2 text-sm font-medium text-white">{idea.video.title}</p>
+                        <p className="text-xs text-gray-500">
+                            {idea.video.channelName} · {idea.video.views.toLocaleString()} views · saved {new Date(idea.savedAt).toLocaleDateString()}
+                        </p>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-1">
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-gray-500 hover:text-white"
+                            title="Open on YouTube"
+                            onClick={() => window.open(`https://youtube.com/watch?v=${idea.video.id}`, '_blank')}
+                        >
+                            <ExternalLink className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-gray-500 hover:text-red-400"
+                            title="Remove idea"
+                            onClick={() => removeIdea(idea.id).catch(reportError)}
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+
+                {/* Pipeline status */}
+                <div className="flex flex-wrap gap-1">
+                    {IDEA_STATUSES.map(status => (
+                        <button
+                            key={status.id}
+                            type="button"
+                            onClick={() => updateIdea(idea.id, { status: status.id }).catch(reportError)}
+                            className={cn(
+                                'rounded-full border px-2 py-0.5 text-[11px] transition-colors',
+                                idea.status === status.id
+                                    ? cn(STATUS_COLORS[status.id], 'bg-gray-800')
+                                    : 'border-gray-800 text-gray-500 hover:border-gray-600'
+                            )}
+                        >
+                            {status.label}
+                        </button>
+                    ))}
+                    {boards.length > 0 && (
+                        <select
+                            value={idea.boardId || ''}
+                            onChange={(e) => updateIdea(idea.id, { boardId: e.target.value || null }).catch(reportError)}
+                            className="ml-auto rounded border border-gray-700 bg-gray-800 px-2 py-0.5 text-[11px] text-gray-300"
+                            title="Board"
+                        >
+                            <option value="">No board</option>
+                            {boards.map(board => (
+                                <option key={board.id} value={board.id}>{board.name}</option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+
+                {/* Tags */}
+                <div className="flex flex-wrap items-center gap-1">
+                    {idea.tags.map(tag => (
+                        <span key={tag} className="flex items-center gap-1 rounded bg-gray-800 px-2 py-0.5 text-[11px] text-gray-300">
+                            <button type="button" onClick={() => onFilterTag(tag)} className="hover:text-white">
+                                #{tag}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => updateIdea(idea.id, { tags: idea.tags.filter(t => t !== tag) }).catch(reportError)}
+                                className="text-gray-500 hover:text-red-400"
+                                title="Remove tag"
+                            >
+                                <X className="h-3 w-3" />
+                            </button>
+                        </span>
+                    ))}
+                    <input
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addTag()}
+                        onBlur={addTag}
+                        placeholder="+ tag"
+                        className="w-20 bg-transparent text-[11px] text-gray-300 placeholder:text-gray-600 focus:outline-none"
+                    />
+                </div>
+
+                <textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    onBlur={commitNote}
+                    placeholder="Notes: hook, angle, script outline..."
+                    rows={2}
+                    className="w-full resize-y rounded border border-gray-800 bg-gray-950/60 px-2 py-1 text-xs text-gray-300 placeholder:text-gray-600 focus:border-gray-600 focus:outline-none"
+                />
+            </div>
+        </div>
+    );
+}
+
+export function SavedIdeasDialog({ open, onOpenChange }: SavedIdeasDialogProps) {
+    const { ideas, boards } = useIdeas();
+    const [search, setSearch] = useState('');
+    const [boardFilter, setBoardFilter] = useState<string | null | 'all'>('all');
+    const [statusFilter, setStatusFilter] = useState<IdeaStatus | 'all'>('all');
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
+    const [sort, setSort] = useState<IdeaSort>('saved');
+    const [newBoardName, setNewBoardName] = useState('');
+
+    const visibleIdeas = queryIdeas(ideas, {
+        search,
+        boardId: boardFilter,
+        status: statusFilter,
+        tag: tagFilter,
+        sort,
+    });
+
+    const handleCreateBoard = async () => {
+        if (!newBoardName.trim()) return;
+        try {
+            const board = await createBoard(newBoardName);
+            setNewBoardName('');
+            setBoardFilter(board.id);
+        } catch (error) {
+            reportError(error);
+        }
+    };
+
+    const handleRenameBoard = (board: IdeaBoard) => {
+        const name = window.prompt('Rename board', board.name);
+        if (name) renameBoard(board.id, name).catch(reportError);
+    };
+
+    const handleDeleteBoard = (board: IdeaBoard) => {
+        if (!window.confirm(`Delete the board "${board.name}"? Its ideas will be kept as unsorted.`)) return;
+        if (boardFilter === board.id) setBoardFilter('all');
+        deleteBoard(board.id).catch(reportError);
+    };
+
+    const handleClearAll = () => {
+        if (!window.confirm(`Delete all ${ideas.length} saved ideas? This can't be undone.`)) return;
+        clearIdeas().catch(reportError);
+    };
+
+    const countOnBoard = (boardId: string | null) => ideas.filter(idea => idea.boardId === boardId).length;
+
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
-            <DialogContent className="max-h-[80vh] max-w-4xl overflow-y-auto bg-gray-900 text-white">
+            <DialogContent className="max-h-[85vh] max-w-5xl overflow-y-auto bg-gray-900 text-white">
                 <DialogHeader>
-                    <DialogTitle className="text-2xl">Saved Ideas ({savedIdeas.length}/50)</DialogTitle>
+                    <DialogTitle className="text-2xl">Saved Ideas ({ideas.length})</DialogTitle>
                     <DialogDescription className="text-gray-400">
-                        Your saved video ideas for inspiration. These are stored locally in your browser.
+                        Your content pipeline: sort ideas onto boards, tag them, take notes and track them from idea to published. Stored on this device.
                     </DialogDescription>
                 </DialogHeader>
 
-                <div className="space-y-4">
-                    {savedIdeas.length === 0 ? (
-                        <div className="py-12 text-center text-gray-400">
-                            <p>No saved ideas yet.</p>
-                            <p className="mt-2 text-sm">Start exploring trending videos and click "Save" on any card.</p>
-                        </div>
-                    ) : (
-                        <>
-                            <div className="flex justify-end">
-                                <Button
-                                    variant="destructive"
-                                    size="sm"
-                                    onClick={onClearAll}
-                                    className="bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                {ideas.length === 0 && boards.length === 0 ? (
+                    <div className="py-12 text-center text-gray-400">
+                        <p>No saved ideas yet.</p>
+                        <p className="mt-2 text-sm">Start exploring trending videos and click "Save" on any card.</p>
+                    </div>
+                ) : (
+                    <div className="flex flex-col gap-4 md:flex-row">
+                        {/* Boards */}
+                        <div className="space-y-1 md:w-48 md:flex-shrink-0">
+                            <button
+                                type="button"
+                                onClick={() => setBoardFilter('all')}
+                                className={cn('flex w-full justify-between rounded px-2 py-1.5 text-left text-sm', boardFilter === 'all' ? 'bg-gray-800 text-white' : 'text-gray-400 hover:bg-gray-800/50')}
+                            >
+                                All ideas <span className="text-gray-500">{ideas.length}</span>
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setBoardFilter(null)}
+                                className={cn('flex w-full justify-between rounded px-2 py-1.5 text-left text-sm', boardFilter === null ? 'bg-gray-800 text-white' : 'text-gray-400 hover:bg-gray-800/50')}
+                            >
+                                Unsorted <span className="text-gray-500">{countOnBoard(null)}</span>
+                            </button>
+                            {boards.map(board => (
+                                <div
+                                    key={board.id}
+                                    className={cn('group flex items-center gap-1 rounded px-2 py-1.5 text-sm', boardFilter === board.id ? 'bg-gray-800 text-white' : 'text-gray-400 hover:bg-gray-800/50')}
                                 >
-                                    <Trash2 className="mr-2 h-4 w-4" />
-                                    Clear All
+                                    <button type="button" onClick={() => setBoardFilter(board.id)} className="flex min-w-0 flex-1 items-center gap-1.5 text-left">
+                                        <Folder className="h-3.5 w-3.5 flex-shrink-0" />
+                                        <span className="truncate">{board.name}</span>
+                                    </button>
+                                    <span className="text-gray-500 group-hover:hidden">{countOnBoard(board.id)}</span>
+                                    <button type="button" onClick={() => handleRenameBoard(board)} className="hidden text-gray-500 hover:text-white group-hover:block" title="Rename board">
+                                        <Pencil className="h-3 w-3" />
+                                    </button>
+                                    <button type="button" onClick={() => handleDeleteBoard(board)} className="hidden text-gray-500 hover:text-red-400 group-hover:block" title="Delete board">
+                                        <Trash2 className="h-3 w-3" />
+                                    </button>
+                                </div>
+                            ))}
+                            <div className="flex gap-1 pt-2">
+                                <Input
+                                    value={newBoardName}
+                                    onChange={(e) => setNewBoardName(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleCreateBoard()}
+                                    placeholder="New board"
+                                    className="h-8 border-gray-700 bg-gray-800 text-xs text-white"
+                                />
+                                <Button size="icon" variant="ghost" className="h-8 w-8 flex-shrink-0 text-gray-400 hover:text-white" onClick={handleCreateBoard} title="Create board">
+                                    <Plus className="h-4 w-4" />
                                 </Button>
                             </div>
+                        </div>
+
+                        {/* Ideas */}
+                        <div className="min-w-0 flex-1 space-y-3">
+                            <div className="relative">
+                                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500" />
+                                <Input
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    placeholder="Search titles, channels, notes and tags"
+                                    className="border-gray-700 bg-gray-800 pl-9 text-white"
+                                />
+                            </div>
 
-                            <div className="grid gap-4 sm:grid-cols-2">
-                                {savedIdeas.map((idea) => (
-                                    <div key={idea.video.id} className="relative">
-                                        <VideoCard
-                                            video={idea.video}
-                                            isSaved={true}
-                                            onSave={() => onRemove(idea.video.id)}
-                                        />
-                                        <div className="mt-2 text-xs text-gray-500">
-                                            Saved {new Date(idea.savedAt).toLocaleDateString()}
-                                        </div>
-                                    </div>
+                            <div className="flex flex-wrap items-center gap-1">
+                                <button type="button" onClick={() => setStatusFilter('all')} className={pillClass(statusFilter === 'all')}>
+                                    Any status
+                                </button>
+                                {IDEA_STATUSES.map(status => (
+                                    <button key={status.id} type="button" onClick={() => setStatusFilter(status.id)} className={pillClass(statusFilter === status.id)}>
+                                        {status.label}
+                                    </button>
                                 ))}
+                                {tagFilter && (
+                                    <button type="button" onClick={() => setTagFilter(null)} className={cn(pillClass(true), 'flex items-center gap-1')}>
+                                        #{tagFilter} <X className="h-3 w-3" />
+                                    </button>
+                                )}
                             </div>
-                        </>
-                    )}
-                </div>
+
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <div className="flex flex-wrap items-center gap-1 text-xs text-gray-500">
+                                    Sort:
+                                    {SORT_OPTIONS.map(option => (
+                                        <button key={option.id} type="button" onClick={() => setSort(option.id)} className={pillClass(sort === option.id)}>
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {ideas.length > 0 && (
+                                    <Button
+                                        variant="destructive"
+                                        size="sm"
+                                        onClick={handleClearAll}
+                                        className="bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                                    >
+                                        <Trash2 className="mr-2 h-4 w-4" />
+                                        Clear All
+                                    </Button>
+                                )}
+                            </div>
+
+                            {visibleIdeas.length === 0 ? (
+                                <p className="py-8 text-center text-sm text-gray-500">No ideas match these filters.</p>
+                            ) : (
+                                <div className="space-y-3">
+                                    {visibleIdeas.map(idea => (
+                                        <IdeaRow key={idea.id} idea={idea} boards={boards} onFilterTag={setTagFilter} />
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
             </DialogContent>
         </Dialog>
     );
 }
- 
- 
@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Plus, Trash2, RotateCcw, Save, Check } from 'lucide-react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { getAllProfiles, isBuiltInProfile, duplicateProfile, FACTOR_LABELS, BUILT_IN_PROFILES } from '@/lib/scoring-profiles';
+import { ScoringProfile, ScoreFactorKey, FactorWeights } from '@/types/scoring';
+import { toast } from './ui/use-toast';
+import { cn } from '@/lib/utils';
+
+interface ScoringProfilesDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    activeProfileId: string;
+    onSelectProfile: (profileId: string) => void;
+}
+
+const FACTOR_KEYS = Object.keys(FACTOR_LABELS) as ScoreFactorKey[];
+
+// Defined outside the dialog so inputs keep focus across re-renders
+function NumberField({ label, value, onChange, step = 1, suffix }: { label: string; value: number; onChange: (value: number) => void; step?: number; suffix?: string }) {
+    return (
+        <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+            <span>{label}</span>
+            <span className="flex items-center gap-1">
+                <Input
+                    type="number"
+                    step={step}
+                    min={0}
+                    value={value}
+                    onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+                    className="h-8 w-24 border-gray-700 bg-gray-800 text-right text-white"
+                />
+                {suffix && <span className="w-6 text-xs text-gray-500">{suffix}</span>}
+            </span>
+        </label>
+    );
+}
+
+export function ScoringProfilesDialog({ open, onOpenChange, activeProfileId, onSelectProfile }: ScoringProfilesDialogProps) {
+    const { preferences, saveScoringProfile, deleteScoringProfile } = useLocalStorage();
+    const profiles = getAllProfiles(preferences.scoringProfiles);
+
+    const [editingId, setEditingId] = useState(activeProfileId);
+    const [draft, setDraft] = useState<ScoringProfile | null>(null);
+
+    // Start from the active profile each time the dialog opens
+    useEffect(() => {
+        if (open) setEditingId(activeProfileId);
+    }, [open, activeProfileId]);
+
+    const editingKey = JSON.stringify(profiles.find(p => p.id === editingId) || null);
+    useEffect(() => {
+        const profile = JSON.parse(editingKey) as ScoringProfile | null;
+        setDraft(profile ? structuredClone(profile) : null);
+    }, [editingKey]);
+
+    const isEdited = !!preferences.scoringProfiles?.some(p => p.id === editingId);
+    const hasChanges = !!draft && JSON.stringify(draft) !== editingKey;
+
+    const updateWeight = (format: 'longForm' | 'shorts', key: ScoreFactorKey, percent: number) => {
+        if (!draft) return;
+        const weights: FactorWeights = { ...draft[format], [key]: Math.max(percent, 0) / 100 };
+        setDraft({ ...draft, [format]: weights });
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        if (!draft.name.trim()) {
+            toast({ title: 'Name required', description: 'Give this profile a name.', variant: 'destructive' });
+            return;
+        }
+        saveScoringProfile({ ...draft, name: draft.name.trim() });
+        toast({ title: 'Profile saved', description: `"${draft.name.trim()}" will be used for new scores.` });
+    };
+
+    const handleNew = () => {
+        const base = draft || BUILT_IN_PROFILES[0];
+        const copy = duplicateProfile(base);
+        saveScoringProfile(copy);
+        setEditingId(copy.id);
+    };
+
+    const handleDelete = () => {
+        deleteScoringProfile(editingId);
+        if (isBuiltInProfile(editingId)) {
+            toast({ title: 'Profile reset', description: 'Default settings restored.' });
+        } else {
+            toast({ title: 'Profile deleted' });
+            if (activeProfileId === editingId) onSelectProfile(BUILT_IN_PROFILES[0].id);
+            setEditingId(BUILT_IN_PROFILES[0].id);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-h-[90vh] max-w-4xl overflow-y-auto border-gray-800 bg-gray-900 text-white">
+                <DialogHeader>
+                    <DialogTitle className="text-2xl">Scoring Profiles</DialogTitle>
+                    <DialogDescription className="text-gray-400">
+                        Choose how the viral score weighs each signal. Weights are relative and normalized to 100%.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-6 md:grid-cols-3">
+                    {/* Profile list */}
+                    <div className="space-y-2">
+                        {profiles.map(profile => (
+                            <button
+                                key={profile.id}
+                                onClick={() => setEditingId(profile.id)}
+                                className={cn(
+                                    'w-full rounded-lg border p-3 text-left transition-colors',
+                                    editingId === profile.id
+                                        ? 'border-red-500/50 bg-red-500/10'
+                                        : 'border-gray-800 bg-gray-900/50 hover:border-gray-700'
+                                )}
+                            >
+                                <div className="flex items-center justify-between">
+                                    <span className="font-medium text-white">{profile.name}</span>
+                                    {activeProfileId === profile.id && <Check className="h-4 w-4 text-green-400" />}
+                                </div>
+                                <p className="mt-1 line-clamp-2 text-xs text-gray-400">{profile.description}</p>
+                            </button>
+                        ))}
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleNew}
+                            className="w-full border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white"
+                        >
+                            <Plus className="mr-2 h-4 w-4" />
+                            New from selected
+                        </Button>
+                    </div>
+
+                    {/* Editor */}
+                    {draft && (
+                        <div className="space-y-5 md:col-span-2">
+                            <div className="space-y-2">
+                                <Input
+                                    value={draft.name}
+                                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    className="border-gray-700 bg-gray-800 font-semibold text-white"
+                                />
+                                <Input
+                                    value={draft.description}
+                                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                                    placeholder="What is this profile for?"
+                                    className="border-gray-700 bg-gray-800 text-sm text-gray-300"
+                                />
+                            </div>
+
+                            <div className="grid gap-4 sm:grid-cols-2">
+                                {(['longForm', 'shorts'] as const).map(format => (
+                                    <div key={format} className="space-y-2 rounded-lg border border-gray-800 p-3">
+                                        <h4 className="text-sm font-medium text-gray-400">
+                                            {format === 'longForm' ? 'Long-form weights' : 'Shorts weights'}
+                                        </h4>
+                                        {FACTOR_KEYS.map(key => (
+                                            <NumberField
+                                                key={key}
+                                                label={FACTOR_LABELS[key]}
+                                                value={Math.round(draft[format][key] * 100)}
+                                                onChange={(value) => updateWeight(format, key, value)}
+                                                suffix="%"
+                                            />
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+
+                            <div className="grid gap-4 sm:grid-cols-2">
+                                <div className="space-y-2 rounded-lg border border-gray-800 p-3">
+                                    <h4 className="text-sm font-medium text-gray-400">Thresholds</h4>
+                                    <NumberField
+                                        label="Shorts max length"
+                                        value={draft.thresholds.shortsMaxSeconds}
+                                        onChange={(value) => setDraft({ ...draft, thresholds: { ...draft.thresholds, shortsMaxSeconds: value } })}
+                                        suffix="s"
+                                    />
+                                    <NumberField
+                                        label="Outlier: views ≥ subs ×"
+                                        value={draft.thresholds.outlierViewSubRatio}
+                                        step={0.5}
+                                        onChange={(value) => setDraft({ ...draft, thresholds: { ...draft.thresholds, outlierViewSubRatio: value } })}
+                                    />
+                                </div>
+                                <div className="space-y-2 rounded-lg border border-gray-800 p-3">
+                                    <h4 className="text-sm font-medium text-gray-400">Large channel dampener</h4>
+                                    <NumberField
+                                        label="Above subscribers"
+                                        value={draft.dampeners.largeChannelSubs}
+                                        step={10000}
+                                        onChange={(value) => setDraft({ ...draft, dampeners: { ...draft.dampeners, largeChannelSubs: value } })}
+                                    />
+                                    <NumberField
+                                        label="With views/subs below"
+                                        value={draft.dampeners.largeChannelMinRatio}
+                                        step={0.1}
+                                        onChange={(value) => setDraft({ ...draft, dampeners: { ...draft.dampeners, largeChannelMinRatio: value } })}
+                                    />
+                                    <NumberField
+                                        label="Multiply score by"
+                                        value={draft.dampeners.largeChannelFactor}
+                                        step={0.1}
+                                        onChange={(value) => setDraft({ ...draft, dampeners: { ...draft.dampeners, largeChannelFactor: Math.min(value, 1) } })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="flex flex-wrap gap-2 border-t border-gray-800 pt-4">
+                                {(!isBuiltInProfile(editingId) || isEdited) && (
+                                    <Button
+                                        variant="outline"
+                                        onClick={handleDelete}
+                                        className="border-red-500/30 text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                                    >
+                                        {isBuiltInProfile(editingId) ? <RotateCcw className="mr-2 h-4 w-4" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                                        {isBuiltInProfile(editingId) ? 'Reset to Default' : 'Delete'}
+                                    </Button>
+                                )}
+                                <div className="flex-1" />
+                                <Button
+                                    variant="outline"
+                                    onClick={() => onSelectProfile(editingId)}
+                                    disabled={activeProfileId === editingId}
+                                    className="border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white"
+                                >
+                                    Use for Searches
+                                </Button>
+                                <Button
+                                    onClick={handleSave}
+                                    disabled={!hasChanges}
+                                    className="bg-gradient-to-r from-red-500 to-orange-500 text-white hover:from-red-600 hover:to-orange-600"
+                                >
+                                    <Save className="mr-2 h-4 w-4" />
+                                    Save Profile
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Download } from 'lucide-react';
+import { toast } from './ui/use-toast';
+import { renderThumbnailMockup, canvasToPng, ThumbnailMockupSpec } from '@/lib/thumbnail-mockup';
+import { downloadFile, slugify } from '@/lib/file-export';
+import { logger } from '@/lib/logger';
+
+interface ThumbnailMockupProps {
+    name: string;
+    concept: ThumbnailMockupSpec;
+    // Face or product cut-out shared by every concept; drawn opposite the text
+    cutout: HTMLImageElement | null;
+}
+
+export function ThumbnailMockup({ name, concept, cutout }: ThumbnailMockupProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    // Overlay text can be tweaked before downloading
+    const [text, setText] = useState(concept.textOverlay);
+
+    useEffect(() => {
+        setText(concept.textOverlay);
+    }, [concept.textOverlay]);
+
+    useEffect(() => {
+        const draw = () => {
+            if (canvasRef.current) renderThumbnailMockup(canvasRef.current, { ...concept, textOverlay: text }, cutout);
+        };
+        draw();
+        // Draw again once web fonts are in, or the first pass may use a fallback font
+        document.fonts?.ready.then(draw);
+    }, [concept, text, cutout]);
+
+    const handleDownload = async () => {
+        if (!canvasRef.current) return;
+        try {
+            const png = await canvasToPng(canvasRef.current);
+            downloadFile(`${slugify(name)}-thumbnail.png`, png, 'image/png');
+            toast({ title: 'Downloaded!', description: '1280×720 PNG ready to upload' });
+        } catch (error) {
+            logger.error('Mockup export failed:', error);
+            toast({ title: 'Error', description: 'Could not export the mockup', variant: 'destructive' });
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <canvas
+                ref={canvasRef}
+                className="aspect-video w-full rounded-lg border border-gray-800"
+            />
+            <div className="flex gap-2">
+                <Input
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    className="h-8 bg-gray-800 border-gray-700 text-white text-xs"
+                    title="Text on the thumbnail"
+                />
+                <Button
+                    size="sm"
+                    onClick={handleDownload}
+                    className="h-8 shrink-0 bg-cyan-600 hover:bg-cyan-700"
+                >
+                    <Download className="mr-2 h-3 w-3" />
+                    PNG
+                </Button>
+            </div>
+        </div>
+    );
+}
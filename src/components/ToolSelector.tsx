@@ -1,11 +1,15 @@
-import { Film, Search, Users, Hash, Video, Image, Download } from 'lucide-react';
+import { Film, Search, Users, Hash, Video, Image, Download, Radar, Type } from 'lucide-react';
 import { Card, CardContent } from './ui/card';
 import { ApiKeySettings } from './ApiKeySettings';
+import { WatchlistButton } from './WatchlistButton';
 import { Button } from './ui/button';
 import { toast } from './ui/use-toast';
+import { ToolId } from '@/types/route';
 
 interface ToolSelectorProps {
-    onSelectTool: (tool: 'niche-finder' | 'video-analyzer' | 'channel-finder' | 'keyword-tool' | 'video-similarity' | 'thumbnail-generator') => void;
+    onSelectTool: (tool: ToolId) => void;
+    onOpenWatchlists: () => void;
+    unreadAlertCount: number;
 }
 
 const tools = [
@@ -56,10 +60,26 @@ const tools = [
         icon: Image,
         color: 'from-cyan-500 to-blue-500',
         badge: 'NEW'
+    },
+    {
+        id: 'competitor-tracker' as const,
+        title: 'Competitor Tracker',
+        description: "Pin competitor channels and get one feed of their new uploads, flagged when one beats the channel's usual",
+        icon: Radar,
+        color: 'from-rose-500 to-red-600',
+        badge: 'NEW'
+    },
+    {
+        id: 'title-analyzer' as const,
+        title: 'Title Analyzer',
+        description: "Score title candidates side by side on length, keyword placement, hooks and the niche's top titles",
+        icon: Type,
+        color: 'from-sky-500 to-indigo-600',
+        badge: 'NEW'
     }
 ];
 
-export function ToolSelector({ onSelectTool }: ToolSelectorProps) {
+export function ToolSelector({ onSelectTool, onOpenWatchlists, unreadAlertCount }: ToolSelectorProps) {
     const handleDownload = () => {
         // Trigger download of the installer located in public/ViralVision-Setup.exe
         const link = document.createElement('a');
@@ -87,6 +107,7 @@ export function ToolSelector({ onSelectTool }: ToolSelectorProps) {
                     <Download className="mr-2 h-4 w-4" />
                     Download App
                 </Button>
+                <WatchlistButton onClick={onOpenWatchlists} unreadCount={unreadAlertCount} />
                 <ApiKeySettings />
             </div>
 
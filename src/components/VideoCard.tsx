@@ -2,9 +2,10 @@ import { useState } from 'react';
 import { Video } from '@/types/video';
 import { Card, CardContent, CardFooter } from './ui/card';
 import { Button } from './ui/button';
-import { Trophy, ExternalLink, Bookmark, Download } from 'lucide-react';
+import { Trophy, ExternalLink, Bookmark, Download, TrendingUp, TrendingDown, ChevronDown, ChevronUp } from 'lucide-react';
 import { toast } from './ui/use-toast';
 import { logger } from '@/lib/logger';
+import { getViewVelocity } from '@/lib/viral-score';
 
 interface VideoCardProps {
     video: Video;
@@ -35,9 +36,13 @@ export function VideoCard({ video, onSave, isSaved }: VideoCardProps) {
         return `${minutes}:${secs.toString().padStart(2, '0')}`;
     };
 
+    const velocity = getViewVelocity(video);
+    const isMeasured = velocity.source === 'snapshot';
+
     const thumbnailUrl = `https://i.ytimg.com/vi/${video.id}/mqdefault.jpg`;
     const youtubeUrl = `https://www.youtube.com/watch?v=${video.id}`;
     const [isDownloading, setIsDownloading] = useState(false);
+    const [showBreakdown, setShowBreakdown] = useState(false);
 
     return (
         <Card className="group relative overflow-hidden border-white/10 bg-gradient-to-br from-gray-900/50 to-gray-800/30 backdrop-blur-sm transition-all hover:border-red-500/50 hover:shadow-lg hover:shadow-red-500/20">
@@ -74,7 +79,17 @@ export function VideoCard({ video, onSave, isSaved }: VideoCardProps) {
                         <p>{formatNumber(video.subscriberCount)} subs</p>
                     </div>
                     <div className="text-right">
-                        <p className="font-medium text-gray-300">{formatNumber(video.views)} views</p>
+                        <p className="font-medium text-gray-300">
+                            {formatNumber(video.views)} views
+                            {video.outlierMultiplier !== undefined && (
+                                <span
+                                    className={video.outlierMultiplier >= 2 ? 'ml-1 font-bold text-orange-400' : 'ml-1 text-gray-500'}
+                                    title={`${video.outlierMultiplier}x the channel's median of ${formatNumber(video.channelMedianViews || 0)} views`}
+                                >
+                                    · {video.outlierMultiplier >= 10 ? video.outlierMultiplier.toFixed(0) : video.outlierMultiplier.toFixed(1)}x
+                                </span>
+                            )}
+                        </p>
                         <p>{formatTimeAgo(video.publishedAt)}</p>
                     </div>
                 </div>
@@ -83,7 +98,18 @@ export function VideoCard({ video, onSave, isSaved }: VideoCardProps) {
                 <div className="space-y-2">
                     {/* Viral Score */}
                     <div className="flex items-center justify-between">
-                        <span className="text-xs text-gray-400">Viral Score</span>
+                        {video.scoreBreakdown ? (
+                            <button
+                                onClick={() => setShowBreakdown(!showBreakdown)}
+                                className="flex items-center gap-1 text-xs text-gray-400 hover:text-white"
+                                title="Why this score?"
+                            >
+                                Viral Score
+                                {showBreakdown ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                            </button>
+                        ) : (
+                            <span className="text-xs text-gray-400">Viral Score</span>
+                        )}
                         <span className="text-sm font-bold text-red-400">
                             {video.viralScore.toFixed(0)}/100
                         </span>
@@ -97,8 +123,30 @@ export function VideoCard({ video, onSave, isSaved }: VideoCardProps) {
                         />
                     </div>
 
-                    {/* AVD & Engagement */}
-                    <div className="grid grid-cols-2 gap-2 text-xs">
+                    {/* Score Breakdown */}
+                    {showBreakdown && video.scoreBreakdown && (
+                        <div className="space-y-1 rounded bg-gray-800/50 p-2 text-xs">
+                            <p className="text-gray-500">
+                                {video.scoreBreakdown.format === 'long' ? 'Long-form' : 'Shorts'} weights · factor score × weight
+                            </p>
+                            {video.scoreBreakdown.factors.filter(f => f.weight > 0).map(factor => (
+                                <div key={factor.key} className="flex items-center justify-between text-gray-300">
+                                    <span>{factor.label}</span>
+                                    <span className="font-mono text-gray-400">
+                                        {factor.score.toFixed(0)} × {(factor.weight * 100).toFixed(0)}% = <span className="text-white">{factor.contribution.toFixed(1)}</span>
+                                    </span>
+                                </div>
+                            ))}
+                            {video.scoreBreakdown.dampener < 1 && (
+                                <p className="text-yellow-400">
+                                    Large channel with few views per sub: score × {video.scoreBreakdown.dampener}
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* AVD, Engagement & Velocity */}
+                    <div className="grid grid-cols-3 gap-2 text-xs">
                         <div className="rounded bg-gray-800/50 p-2">
                             <p className="text-gray-500">AVD Tier</p>
                             <p className={`font-semibold ${video.estimatedAVDTier === 'High' ? 'text-green-400' :
@@ -114,6 +162,17 @@ export function VideoCard({ video, onSave, isSaved }: VideoCardProps) {
                                 {(video.engagementRate * 100).toFixed(1)}%
                             </p>
                         </div>
+                        <div
+                            className="rounded bg-gray-800/50 p-2"
+                            title={isMeasured ? 'Measured between your last two searches' : 'Lifetime average (search again later to measure)'}
+                        >
+                            <p className="text-gray-500">{isMeasured ? 'Velocity' : 'Avg/hour'}</p>
+                            <p className={`flex items-center gap-1 font-semibold ${isMeasured ? 'text-purple-400' : 'text-gray-400'}`}>
+                                {formatNumber(Math.round(velocity.viewsPerHour))}/h
+                                {velocity.acceleration !== null && velocity.acceleration > 0 && <TrendingUp className="h-3 w-3 text-green-400" />}
+                                {velocity.acceleration !== null && velocity.acceleration < 0 && <TrendingDown className="h-3 w-3 text-red-400" />}
+                            </p>
+                        </div>
                     </div>
                 </div>
             </CardContent>
@@ -0,0 +1,27 @@
+import { Bell } from 'lucide-react';
+import { Button } from './ui/button';
+
+interface WatchlistButtonProps {
+    onClick: () => void;
+    unreadCount: number;
+}
+
+export function WatchlistButton({ onClick, unreadCount }: WatchlistButtonProps) {
+    return (
+        <Button
+            variant="ghost"
+            size="icon"
+            onClick={onClick}
+            className="text-gray-400 hover:text-white hover:bg-gray-800 relative"
+            title="Watchlists"
+        >
+            <Bell className="h-5 w-5" />
+            {/* Unread watchlist alerts */}
+            {unreadCount > 0 && (
+                <span className="absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full border-2 border-gray-900 bg-red-500 px-0.5 text-[10px] font-bold text-white">
+                    {unreadCount > 9 ? '9+' : unreadCount}
+                </span>
+            )}
+        </Button>
+    );
+}
@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Plus, Trash2, Play, Pause, RefreshCw, Loader2, Bell, BellRing, AlertCircle } from 'lucide-react';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { createWatchlistEntry, getNextRunTime, WATCHLIST_INTERVAL_OPTIONS } from '@/lib/watchlist';
+import { getAllProfiles } from '@/lib/scoring-profiles';
+import { SearchFilters } from '@/types/filters';
+import { WatchlistEntry } from '@/types/watchlist';
+import { toast } from './ui/use-toast';
+import { cn } from '@/lib/utils';
+
+interface WatchlistDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    // Filters applied to niches added from this dialog
+    filters: SearchFilters;
+    runningId: string | null;
+    onRunNow: (id: string) => void;
+}
+
+const formatRelative = (time: number) => {
+    const minutes = Math.round((time - Date.now()) / (1000 * 60));
+    const abs = Math.abs(minutes);
+    const label = abs < 60 ? `${abs}m` : abs < 48 * 60 ? `${Math.round(abs / 60)}h` : `${Math.round(abs / (60 * 24))}d`;
+    return minutes >= 0 ? `in ${label}` : `${label} ago`;
+};
+
+export function WatchlistDialog({ open, onOpenChange, filters, runningId, onRunNow }: WatchlistDialogProps) {
+    const {
+        preferences,
+        addWatchlist,
+        updateWatchlist,
+        removeWatchlist,
+        markWatchlistAlertsRead,
+        clearWatchlistAlerts,
+    } = useLocalStorage();
+    const [newNiche, setNewNiche] = useState('');
+
+    const watchlists = preferences.watchlists || [];
+    const alerts = preferences.watchlistAlerts || [];
+    const profiles = getAllProfiles(preferences.scoringProfiles);
+
+    const handleAdd = () => {
+        if (!newNiche.trim()) return;
+        const result = addWatchlist(createWatchlistEntry(newNiche, filters));
+        if (result.success) {
+            setNewNiche('');
+        } else {
+            toast({ title: 'Already watching', description: result.message });
+        }
+    };
+
+    const describeFilters = (entry: WatchlistEntry) => {
+        const profileName = profiles.find(p => p.id === entry.filters.scoringProfileId)?.name || 'Balanced';
+        const parts = [
+            entry.filters.dateRange,
+            entry.filters.region === 'ALL' ? 'All regions' : entry.filters.region,
+            entry.filters.duration !== 'ALL' ? entry.filters.duration.toLowerCase() : null,
+            entry.filters.channelSize !== 'ALL' ? `${entry.filters.channelSize.toLowerCase()} channels` : null,
+            profileName,
+        ];
+        return parts.filter(Boolean).join(' · ');
+    };
+
+    const openAlert = (alertId: string, videoId: string) => {
+        markWatchlistAlertsRead([alertId]);
+        window.open(`https://www.youtube.com/watch?v=${videoId}`, '_blank');
+    };
+
+    const unreadCount = alerts.filter(a => !a.read).length;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-h-[90vh] max-w-4xl overflow-y-auto border-gray-800 bg-gray-900 text-white">
+                <DialogHeader>
+                    <DialogTitle className="text-2xl">Watchlists</DialogTitle>
+                    <DialogDescription className="text-gray-400">
+                        Niches are re-searched on a schedule while ViralVision is open. The first run records a baseline;
+                        later runs alert you when a new video crosses your thresholds. Each run uses the same API quota as a search.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-6 md:grid-cols-5">
+                    {/* Watched niches */}
+                    <div className="space-y-3 md:col-span-3">
+                        <div className="flex gap-2">
+                            <Input
+                                value={newNiche}
+                                onChange={(e) => setNewNiche(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                                placeholder="Add a niche, e.g. budget travel"
+                                className="border-gray-700 bg-gray-800 text-white"
+                            />
+                            <Button
+                                onClick={handleAdd}
+                                disabled={!newNiche.trim()}
+                                className="bg-gradient-to-r from-red-500 to-orange-500 text-white hover:from-red-600 hover:to-orange-600"
+                            >
+                                <Plus className="mr-2 h-4 w-4" />
+                                Watch
+                            </Button>
+                        </div>
+
+                        {watchlists.length === 0 && (
+                            <p className="rounded-lg border border-gray-800 p-6 text-center text-sm text-gray-400">
+                                No niches watched yet. Add one above or use "Watch" on a results page.
+                            </p>
+                        )}
+
+                        {watchlists.map(entry => {
+                            const isRunning = runningId === entry.id;
+                            return (
+                                <div
+                                    key={entry.id}
+                                    className={cn(
+                                        'space-y-3 rounded-lg border p-3',
+                                        entry.enabled ? 'border-gray-800 bg-gray-900/50' : 'border-gray-800/50 opacity-60'
+                                    )}
+                                >
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div>
+                                            <p className="font-medium capitalize text-white">{entry.niche}</p>
+                                            <p className="text-xs text-gray-500">{describeFilters(entry)}</p>
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => onRunNow(entry.id)}
+                                                disabled={!!runningId}
+                                                title="Run now"
+                                                className="h-8 w-8 text-gray-400 hover:text-white"
+                                            >
+                                                {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => updateWatchlist(entry.id, { enabled: !entry.enabled })}
+                                                title={entry.enabled ? 'Pause' : 'Resume'}
+                                                className="h-8 w-8 text-gray-400 hover:text-white"
+                                            >
+                                                {entry.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => removeWatchlist(entry.id)}
+                                                title="Remove"
+                                                className="h-8 w-8 text-gray-400 hover:text-red-400"
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    </div>
+
+                                    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-400">
+                                        <span className="flex items-center gap-1">
+                                            Every
+                                            {WATCHLIST_INTERVAL_OPTIONS.map(hours => (
+                                                <button
+                                                    key={hours}
+                                                    onClick={() => updateWatchlist(entry.id, { intervalHours: hours })}
+                                                    className={cn(
+                                                        'rounded-full border px-2 py-0.5 transition-colors',
+                                                        entry.intervalHours === hours
+                                                            ? 'border-red-500 bg-red-500/10 text-red-400'
+                                                            : 'border-gray-700 hover:border-gray-600'
+                                                    )}
+                                                >
+                                                    {hours}h
+                                                </button>
+                                            ))}
+                                        </span>
+                                        <label className="flex items-center gap-1">
+                                            Score ≥
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                max={100}
+                                                value={entry.alertMinViralScore}
+                                                onChange={(e) => updateWatchlist(entry.id, {
+                                                    alertMinViralScore: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100)
+                                                })}
+                                                className="h-7 w-16 border-gray-700 bg-gray-800 text-right text-white"
+                                            />
+                                        </label>
+                                        <label className="flex cursor-pointer items-center gap-1">
+                                            <input
+                                                type="checkbox"
+                                                checked={entry.alertOnOutliers}
+                                                onChange={(e) => updateWatchlist(entry.id, { alertOnOutliers: e.target.checked })}
+                                                className="accent-red-500"
+                                            />
+                                            Any outlier
+                                        </label>
+                                    </div>
+
+                                    <p className="text-xs text-gray-500">
+                                        {entry.lastRunAt ? `Last run ${formatRelative(new Date(entry.lastRunAt).getTime())}` : 'Not run yet'}
+                                        {entry.enabled && ` · next ${getNextRunTime(entry) <= Date.now() ? 'soon' : formatRelative(getNextRunTime(entry))}`}
+                                    </p>
+                                    {entry.lastError && (
+                                        <p className="flex items-center gap-1 text-xs text-red-400">
+                                            <AlertCircle className="h-3 w-3" />
+                                            Last attempt failed: {entry.lastError}
+                                        </p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Alerts */}
+                    <div className="space-y-3 md:col-span-2">
+                        <div className="flex items-center justify-between">
+                            <h4 className="flex items-center gap-2 text-sm font-medium text-gray-400">
+                                <BellRing className="h-4 w-4" />
+                                Alerts {unreadCount > 0 && <span className="text-red-400">({unreadCount} new)</span>}
+                            </h4>
+                            {alerts.length > 0 && (
+                                <div className="flex gap-1">
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => markWatchlistAlertsRead()}
+                                        disabled={unreadCount === 0}
+                                        className="h-7 text-xs text-gray-400 hover:text-white"
+                                    >
+                                        Mark read
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={clearWatchlistAlerts}
+                                        className="h-7 text-xs text-gray-400 hover:text-red-400"
+                                    >
+                                        Clear
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+
+                        {alerts.length === 0 && (
+                            <p className="rounded-lg border border-gray-800 p-6 text-center text-sm text-gray-400">
+                                <Bell className="mx-auto mb-2 h-5 w-5 text-gray-600" />
+                                No alerts yet.
+                            </p>
+                        )}
+
+                        <div className="max-h-[480px] space-y-2 overflow-y-auto pr-1">
+                            {alerts.map(alert => (
+                                <button
+                                    key={alert.id}
+                                    onClick={() => openAlert(alert.id, alert.videoId)}
+                                    className={cn(
+                                        'w-full rounded-lg border p-3 text-left transition-colors',
+                                        alert.read
+                                            ? 'border-gray-800 bg-gray-900/50 hover:border-gray-700'
+                                            : 'border-red-500/40 bg-red-500/10 hover:border-red-500/60'
+                                    )}
+                                >
+                                    <p className="line-clamp-2 text-sm font-medium text-white">{alert.title}</p>
+                                    <div className="mt-1 flex items-center justify-between text-xs text-gray-400">
+                                        <span className="truncate">{alert.channelName} · {alert.niche}</span>
+                                        <span className="shrink-0 pl-2">
+                                            {alert.isOutlier && <span className="mr-1 text-orange-400">Outlier</span>}
+                                            {Math.round(alert.viralScore)}
+                                        </span>
+                                    </div>
+                                    <p className="mt-1 text-xs text-gray-500">{formatRelative(new Date(alert.createdAt).getTime())}</p>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
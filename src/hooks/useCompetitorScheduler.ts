@@ -0,0 +1,101 @@
+import { useState, useRef } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import { useDueCheck, describeScheduledError, notifyScheduledResult } from './useDueCheck';
+import {
+    refreshCompetitorFeed,
+    isFeedRefreshDue,
+    isOutperforming,
+    estimateCompetitorFeedCost,
+    DEFAULT_COMPETITOR_FEED_SETTINGS,
+} from '@/lib/competitor-feed';
+import { checkQuotaBudget } from '@/lib/quota-ledger';
+import { resolveScoringProfile } from '@/lib/scoring-profiles';
+import { CompetitorUpload } from '@/types/competitor';
+import { toast } from '@/components/ui/use-toast';
+import { logger } from '@/lib/logger';
+
+// How often to check whether the feed is due while the app is open
+const CHECK_INTERVAL_MS = 60 * 1000;
+// Let the app finish loading (and watchlists start) before the first check
+const INITIAL_CHECK_DELAY_MS = 15 * 1000;
+
+function notifyOutperformers(uploads: CompetitorUpload[]) {
+    const title = uploads.length === 1
+        ? `${uploads[0].video.channelName} has an upload outperforming its usual`
+        : `${uploads.length} competitor uploads are outperforming their channels`;
+    const body = uploads.slice(0, 3)
+        .map(u => `${u.video.title} (${(u.video.outlierMultiplier ?? 0).toFixed(1)}x)`)
+        .join('\n');
+
+    notifyScheduledResult(title, body);
+}
+
+/**
+ * Refreshes the competitor upload feed on its schedule while the app is open,
+ * and on demand from the Competitors page.
+ */
+export function useCompetitorScheduler() {
+    const { preferences, updateCompetitorDetails, updateCompetitorFeedSettings } = useLocalStorage();
+    const [refreshing, setRefreshing] = useState(false);
+    const isRunningRef = useRef(false);
+
+    const competitors = preferences.competitors || [];
+    const settings = { ...DEFAULT_COMPETITOR_FEED_SETTINGS, ...preferences.competitorFeed };
+
+    const refresh = async (manual: boolean) => {
+        if (isRunningRef.current || competitors.length === 0) return;
+
+        // Background refreshes never go over the daily budget, even when it only warns
+        if (!manual && checkQuotaBudget(estimateCompetitorFeedCost(competitors.length)).wouldExceed) {
+            logger.warn('Skipping scheduled competitor refresh: daily quota budget reached');
+            return;
+        }
+
+        isRunningRef.current = true;
+        setRefreshing(true);
+        try {
+            const profile = resolveScoringProfile(settings.scoringProfileId, preferences.scoringProfiles);
+            const { channels, newUploads } = await refreshCompetitorFeed(competitors, profile);
+            updateCompetitorDetails(channels);
+
+            const now = new Date().toISOString();
+            updateCompetitorFeedSettings({ lastCheckedAt: now, lastRunAt: now, lastError: undefined });
+
+            const outperforming = newUploads.filter(upload => isOutperforming(upload, settings));
+            if (outperforming.length > 0) {
+                notifyOutperformers(outperforming);
+            } else if (manual) {
+                toast({
+                    title: 'Competitors checked',
+                    description: newUploads.length > 0
+                        ? `${newUploads.length} new uploads, none outperforming their channel yet.`
+                        : 'No new uploads since the last refresh.',
+                });
+            }
+        } catch (error) {
+            logger.error('Competitor refresh failed:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            updateCompetitorFeedSettings({ lastCheckedAt: new Date().toISOString(), lastError: errorMessage });
+
+            if (manual) {
+                toast({
+                    title: 'Refresh failed',
+                    description: describeScheduledError(errorMessage, 'feed'),
+                    variant: 'destructive',
+                });
+            }
+        } finally {
+            isRunningRef.current = false;
+            setRefreshing(false);
+        }
+    };
+
+    useDueCheck(() => {
+        if (isFeedRefreshDue(settings, competitors.length)) refresh(false);
+    }, INITIAL_CHECK_DELAY_MS, CHECK_INTERVAL_MS);
+
+    return {
+        refreshing,
+        refreshNow: () => refresh(true),
+    };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+import { toast } from '@/components/ui/use-toast';
+import { logger } from '@/lib/logger';
+
+// Errors that stop every other scheduled request too, so a batch should not continue
+const QUOTA_STOP_ERRORS = ['QUOTA_EXCEEDED', 'RATE_LIMIT', 'QUOTA_BUDGET_EXCEEDED'];
+
+export function isQuotaStopError(errorMessage: string): boolean {
+    return QUOTA_STOP_ERRORS.includes(errorMessage);
+}
+
+/**
+ * Toast text for a failed scheduled job. `job` names it in the retry hint ("watchlist", "feed").
+ */
+export function describeScheduledError(errorMessage: string, job: string): string {
+    switch (errorMessage) {
+        case 'QUOTA_BUDGET_EXCEEDED':
+            return 'This would go over your daily YouTube quota budget.';
+        case 'QUOTA_EXCEEDED':
+            return `The API quota is used up. The ${job} will try again at its next interval.`;
+        case 'RATE_LIMIT':
+            return `Too many requests right now. The ${job} will try again at its next interval.`;
+        default:
+            return errorMessage;
+    }
+}
+
+/**
+ * Long-lived toast plus a desktop notification in the packaged app
+ */
+export function notifyScheduledResult(title: string, body: string) {
+    toast({ title, description: body, duration: 10000 });
+
+    window.electronAPI?.notify(title, body)
+        .catch(error => logger.warn('Desktop notification failed:', error));
+}
+
+/**
+ * Calls `checkDue` after `initialDelayMs`, then every `intervalMs` while mounted.
+ * The timers always call the latest `checkDue`, so it sees current preferences.
+ */
+export function useDueCheck(checkDue: () => void, initialDelayMs: number, intervalMs: number) {
+    const checkDueRef = useRef(checkDue);
+    checkDueRef.current = checkDue;
+
+    useEffect(() => {
+        const initial = setTimeout(() => checkDueRef.current(), initialDelayMs);
+        const interval = setInterval(() => checkDueRef.current(), intervalMs);
+        return () => {
+            clearTimeout(initial);
+            clearInterval(interval);
+        };
+    }, [initialDelayMs, intervalMs]);
+}
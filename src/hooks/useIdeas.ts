@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import { getIdeas, getBoards, importLegacyIdeas, IDEAS_CHANGED_EVENT } from '@/lib/idea-store';
+import { Idea, IdeaBoard } from '@/types/ideas';
+import { logger } from '@/lib/logger';
+
+/**
+ * Saved ideas and boards, refreshed whenever any part of the app changes them.
+ * Also moves ideas from the old localStorage list into the ideas store.
+ */
+export function useIdeas() {
+    const { preferences, clearLegacyIdeas } = useLocalStorage();
+    const [ideas, setIdeas] = useState<Idea[]>([]);
+    const [boards, setBoards] = useState<IdeaBoard[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                const [loadedIdeas, loadedBoards] = await Promise.all([getIdeas(), getBoards()]);
+                if (cancelled) return;
+                setIdeas(loadedIdeas);
+                setBoards(loadedBoards.sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+            } catch (error) {
+                logger.error('Failed to load saved ideas:', error);
+            } finally {
+                if (!cancelled) setIsLoaded(true);
+            }
+        };
+
+        load();
+        window.addEventListener(IDEAS_CHANGED_EVENT, load);
+        return () => {
+            cancelled = true;
+            window.removeEventListener(IDEAS_CHANGED_EVENT, load);
+        };
+    }, []);
+
+    // Only clear the old list once it's safely in the store
+    const legacyCount = preferences.savedIdeas.length;
+    useEffect(() => {
+        if (legacyCount === 0) return;
+        importLegacyIdeas(preferences.savedIdeas)
+            .then(() => clearLegacyIdeas())
+            .catch(error => logger.error('Failed to import saved ideas:', error));
+    }, [legacyCount]);
+
+    return { ideas, boards, isLoaded };
+}
@@ -1,9 +1,20 @@
 import { useState, useEffect } from 'react';
-import { SavedIdea, UserPreferences } from '@/types/video';
+import { UserPreferences } from '@/types/video';
+import { ScoringProfile } from '@/types/scoring';
+import { WatchlistEntry, WatchlistAlert } from '@/types/watchlist';
+import { CompetitorChannel, CompetitorFeedSettings } from '@/types/competitor';
+import { QuotaSettings } from '@/types/quota';
+import { AIProviderSettings } from '@/types/ai-provider';
+import { BackupBundle, BackupOptions } from '@/types/backup';
+import { mergeBackupPreferences } from '@/lib/backup';
+import { DEFAULT_COMPETITOR_FEED_SETTINGS, MAX_COMPETITORS } from '@/lib/competitor-feed';
 import { logger } from '@/lib/logger';
 
-const MAX_SAVED_IDEAS = 50;
+const MAX_WATCHLIST_ALERTS = 100;
 const STORAGE_KEY = 'viralvision_preferences';
+// Fired on this window after every write so other hook instances stay in sync
+// (the native 'storage' event only reaches other tabs)
+const PREFERENCES_CHANGED_EVENT = 'viralvision:preferences-changed';
 
 /**
  * Hook for managing user preferences in LocalStorage
@@ -63,7 +74,11 @@ export function useLocalStorage() {
         };
 
         window.addEventListener('storage', handleStorageChange);
-        return () => window.removeEventListener('storage', handleStorageChange);
+        window.addEventListener(PREFERENCES_CHANGED_EVENT, handleStorageChange);
+        return () => {
+            window.removeEventListener('storage', handleStorageChange);
+            window.removeEventListener(PREFERENCES_CHANGED_EVENT, handleStorageChange);
+        };
     }, []);
 
     // Safe read-modify-write operation
@@ -79,8 +94,9 @@ export function useLocalStorage() {
             // 3. Write back
             localStorage.setItem(STORAGE_KEY, JSON.stringify(newValue));
 
-            // 4. Update local state
+            // 4. Update local state and notify other instances
             setPreferences(newValue);
+            window.dispatchEvent(new Event(PREFERENCES_CHANGED_EVENT));
             return 'SUCCESS';
         } catch (error) {
             logger.error('Failed to save preferences to LocalStorage:', error);
@@ -95,59 +111,177 @@ export function useLocalStorage() {
         modifyPreferences(prev => ({ ...prev, lastNiche: niche }));
     };
 
-    const saveIdea = (newIdea: SavedIdea): { success: boolean; message?: string } => {
-        let result: { success: boolean; message?: string } = { success: false };
+    // Called once the old list has been moved to the ideas store (see useIdeas)
+    const clearLegacyIdeas = () => {
+        modifyPreferences(prev => ({ ...prev, savedIdeas: [] }));
+    };
+
+    const updateApiKeys = (keys: { youtube?: string; gemini?: string }) => {
+        modifyPreferences(prev => ({
+            ...prev,
+            apiKeys: {
+                ...prev.apiKeys,
+                ...keys
+            }
+        }));
+    };
+
+    const updateQuotaSettings = (settings: QuotaSettings) => {
+        modifyPreferences(prev => ({ ...prev, quotaSettings: settings }));
+    };
+
+    const updateAIProviderSettings = (settings: AIProviderSettings) => {
+        modifyPreferences(prev => ({ ...prev, aiProvider: settings }));
+    };
 
+    const saveScoringProfile = (profile: ScoringProfile) => {
         modifyPreferences(prev => {
-            let savedIdeas = [...prev.savedIdeas];
+            const others = (prev.scoringProfiles || []).filter(p => p.id !== profile.id);
+            return { ...prev, scoringProfiles: [...others, profile] };
+        });
+    };
 
-            if (savedIdeas.some(idea => idea.video.id === newIdea.video.id)) {
-                result = { success: false, message: 'This video is already saved' };
+    // For built-in profiles this removes saved edits, restoring the defaults
+    const deleteScoringProfile = (profileId: string) => {
+        modifyPreferences(prev => ({
+            ...prev,
+            scoringProfiles: (prev.scoringProfiles || []).filter(p => p.id !== profileId)
+        }));
+    };
+
+    const addWatchlist = (entry: WatchlistEntry): { success: boolean; message?: string } => {
+        let result: { success: boolean; message?: string } = { success: true };
+
+        modifyPreferences(prev => {
+            const watchlists = prev.watchlists || [];
+            if (watchlists.some(w => w.niche.toLowerCase() === entry.niche.toLowerCase())) {
+                result = { success: false, message: `"${entry.niche}" is already on your watchlist` };
                 return prev;
             }
+            return { ...prev, watchlists: [...watchlists, entry] };
+        });
 
-            if (savedIdeas.length >= MAX_SAVED_IDEAS) {
-                savedIdeas.shift();
-                result = { success: true, message: `Oldest idea removed (max ${MAX_SAVED_IDEAS})` };
-            } else {
-                result = { success: true };
-            }
+        return result;
+    };
+
+    const updateWatchlist = (id: string, changes: Partial<WatchlistEntry>) => {
+        modifyPreferences(prev => ({
+            ...prev,
+            watchlists: (prev.watchlists || []).map(w => w.id === id ? { ...w, ...changes } : w)
+        }));
+    };
+
+    // Also drops the alerts this watchlist raised
+    const removeWatchlist = (id: string) => {
+        modifyPreferences(prev => ({
+            ...prev,
+            watchlists: (prev.watchlists || []).filter(w => w.id !== id),
+            watchlistAlerts: (prev.watchlistAlerts || []).filter(a => a.watchlistId !== id)
+        }));
+    };
+
+    // Newest first; an alert for the same watchlist and video is only kept once
+    const addWatchlistAlerts = (alerts: WatchlistAlert[]) => {
+        modifyPreferences(prev => {
+            const existingIds = new Set((prev.watchlistAlerts || []).map(a => a.id));
+            const fresh = alerts.filter(a => !existingIds.has(a.id));
+            return {
+                ...prev,
+                watchlistAlerts: [...fresh, ...(prev.watchlistAlerts || [])].slice(0, MAX_WATCHLIST_ALERTS)
+            };
+        });
+    };
+
+    const markWatchlistAlertsRead = (alertIds?: string[]) => {
+        modifyPreferences(prev => ({
+            ...prev,
+            watchlistAlerts: (prev.watchlistAlerts || []).map(a =>
+                !alertIds || alertIds.includes(a.id) ? { ...a, read: true } : a
+            )
+        }));
+    };
 
-            savedIdeas.push(newIdea);
-            return { ...prev, savedIdeas };
+    const clearWatchlistAlerts = () => {
+        modifyPreferences(prev => ({ ...prev, watchlistAlerts: [] }));
+    };
+
+    const addCompetitor = (channel: CompetitorChannel): { success: boolean; message?: string } => {
+        let result: { success: boolean; message?: string } = { success: true };
+
+        modifyPreferences(prev => {
+            const competitors = prev.competitors || [];
+            if (competitors.some(c => c.channelId === channel.channelId)) {
+                result = { success: false, message: `${channel.channelName} is already pinned` };
+                return prev;
+            }
+            if (competitors.length >= MAX_COMPETITORS) {
+                result = { success: false, message: `You can pin up to ${MAX_COMPETITORS} channels` };
+                return prev;
+            }
+            return { ...prev, competitors: [...competitors, channel] };
         });
 
         return result;
     };
 
-    const removeIdea = (videoId: string) => {
+    // Fresh names and thumbnails; channels unpinned in the meantime stay removed
+    const updateCompetitorDetails = (updated: CompetitorChannel[]) => {
         modifyPreferences(prev => ({
             ...prev,
-            savedIdeas: prev.savedIdeas.filter(idea => idea.video.id !== videoId)
+            competitors: (prev.competitors || []).map(c => updated.find(u => u.channelId === c.channelId) || c)
         }));
     };
 
-    const clearAllIdeas = () => {
-        modifyPreferences(prev => ({ ...prev, savedIdeas: [] }));
+    const removeCompetitor = (channelId: string) => {
+        modifyPreferences(prev => ({
+            ...prev,
+            competitors: (prev.competitors || []).filter(c => c.channelId !== channelId)
+        }));
     };
 
-    const updateApiKeys = (keys: { youtube?: string; gemini?: string }) => {
+    const updateCompetitorFeedSettings = (changes: Partial<CompetitorFeedSettings>) => {
         modifyPreferences(prev => ({
             ...prev,
-            apiKeys: {
-                ...prev.apiKeys,
-                ...keys
-            }
+            competitorFeed: { ...DEFAULT_COMPETITOR_FEED_SETTINGS, ...prev.competitorFeed, ...changes }
         }));
     };
 
+    // Merges watchlists, scoring profiles, competitors and (if asked) settings from a backup
+    const importBackupPreferences = (
+        bundle: BackupBundle,
+        options: BackupOptions & { includeSettings?: boolean }
+    ) => {
+        let summary = { watchlistsAdded: 0, profilesAdded: 0, competitorsAdded: 0, settingsImported: false, apiKeysImported: false };
+
+        modifyPreferences(prev => {
+            const merged = mergeBackupPreferences(prev, bundle, options);
+            summary = merged.summary;
+            return merged.preferences;
+        });
+
+        return summary;
+    };
+
     return {
         preferences,
         updateLastNiche,
-        saveIdea,
-        removeIdea,
-        clearAllIdeas,
+        clearLegacyIdeas,
         updateApiKeys,
+        updateQuotaSettings,
+        updateAIProviderSettings,
+        saveScoringProfile,
+        deleteScoringProfile,
+        addWatchlist,
+        updateWatchlist,
+        removeWatchlist,
+        addWatchlistAlerts,
+        markWatchlistAlertsRead,
+        clearWatchlistAlerts,
+        addCompetitor,
+        updateCompetitorDetails,
+        removeCompetitor,
+        updateCompetitorFeedSettings,
+        importBackupPreferences,
     };
 }
 
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { getQuotaUsage, QUOTA_CHANGED_EVENT } from '@/lib/quota-ledger';
+import { QuotaUsage } from '@/types/quota';
+
+// Re-read periodically so the meter resets when the Pacific-time day rolls over
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Today's YouTube API quota usage, updated as requests are recorded
+ */
+export function useQuotaUsage(): QuotaUsage {
+    const [usage, setUsage] = useState<QuotaUsage>(getQuotaUsage);
+
+    useEffect(() => {
+        const refresh = () => setUsage(getQuotaUsage());
+
+        window.addEventListener(QUOTA_CHANGED_EVENT, refresh);
+        window.addEventListener('storage', refresh);
+        const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+        return () => {
+            window.removeEventListener(QUOTA_CHANGED_EVENT, refresh);
+            window.removeEventListener('storage', refresh);
+            clearInterval(interval);
+        };
+    }, []);
+
+    return usage;
+}
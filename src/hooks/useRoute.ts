@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { getCurrentRoute, ROUTE_CHANGED_EVENT } from '@/lib/router';
+import { AppRoute } from '@/types/route';
+
+/**
+ * The current route, updated on navigation and browser back/forward
+ */
+export function useRoute(): AppRoute {
+    const [route, setRoute] = useState<AppRoute>(getCurrentRoute);
+
+    useEffect(() => {
+        const handleChange = () => setRoute(getCurrentRoute());
+        window.addEventListener('hashchange', handleChange);
+        window.addEventListener(ROUTE_CHANGED_EVENT, handleChange);
+        return () => {
+            window.removeEventListener('hashchange', handleChange);
+            window.removeEventListener(ROUTE_CHANGED_EVENT, handleChange);
+        };
+    }, []);
+
+    return route;
+}
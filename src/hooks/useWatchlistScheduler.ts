@@ -0,0 +1,111 @@
+import { useState, useRef } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import { useDueCheck, describeScheduledError, isQuotaStopError, notifyScheduledResult } from './useDueCheck';
+import { runWatchlist, isWatchlistDue } from '@/lib/watchlist';
+import { estimateTrendingSearchCost } from '@/lib/youtube-api';
+import { checkQuotaBudget } from '@/lib/quota-ledger';
+import { resolveScoringProfile } from '@/lib/scoring-profiles';
+import { WatchlistEntry, WatchlistAlert } from '@/types/watchlist';
+import { toast } from '@/components/ui/use-toast';
+import { logger } from '@/lib/logger';
+
+// How often to look for due watchlists while the app is open
+const CHECK_INTERVAL_MS = 60 * 1000;
+// Let the app finish loading before the first check
+const INITIAL_CHECK_DELAY_MS = 5 * 1000;
+
+function notifyAlerts(niche: string, alerts: WatchlistAlert[]) {
+    const title = alerts.length === 1
+        ? `New breakout in "${niche}"`
+        : `${alerts.length} new breakouts in "${niche}"`;
+    const body = alerts.slice(0, 3).map(a => `${a.title} (${Math.round(a.viralScore)})`).join('\n');
+
+    notifyScheduledResult(title, body);
+}
+
+/**
+ * Runs due watchlists in the background while the app is open.
+ * Entries run one at a time so scheduled searches never compete for API quota.
+ */
+export function useWatchlistScheduler() {
+    const { preferences, updateWatchlist, addWatchlistAlerts } = useLocalStorage();
+    const [runningId, setRunningId] = useState<string | null>(null);
+    const isRunningRef = useRef(false);
+
+    const runEntries = async (entries: WatchlistEntry[], manual: boolean) => {
+        if (isRunningRef.current) {
+            if (manual) {
+                toast({ title: 'Watchlist busy', description: 'Another watchlist is running. Try again in a moment.' });
+            }
+            return;
+        }
+        isRunningRef.current = true;
+
+        try {
+            for (const entry of entries) {
+                // Everything about an entry is read inside the try, so one broken entry is recorded
+                // as failed instead of rejecting the whole run
+                try {
+                    // Background runs never go over the daily budget, even when it only warns
+                    if (!manual && checkQuotaBudget(estimateTrendingSearchCost(entry.filters)).wouldExceed) {
+                        logger.warn('Skipping scheduled watchlist runs: daily quota budget reached');
+                        break;
+                    }
+
+                    setRunningId(entry.id);
+                    const profile = resolveScoringProfile(entry.filters.scoringProfileId, preferences.scoringProfiles);
+                    const { update, alerts } = await runWatchlist(entry, profile);
+                    updateWatchlist(entry.id, update);
+
+                    if (alerts.length > 0) {
+                        addWatchlistAlerts(alerts);
+                        notifyAlerts(entry.niche, alerts);
+                    } else if (manual) {
+                        toast({
+                            title: 'Watchlist checked',
+                            description: entry.lastRunAt
+                                ? `No new breakouts in "${entry.niche}".`
+                                : `Baseline recorded for "${entry.niche}". Future runs will alert on new breakouts.`,
+                        });
+                    }
+                } catch (error) {
+                    logger.error(`Watchlist run failed for "${entry.niche}":`, error);
+                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                    updateWatchlist(entry.id, { lastCheckedAt: new Date().toISOString(), lastError: errorMessage });
+
+                    if (manual) {
+                        toast({
+                            title: 'Watchlist run failed',
+                            description: describeScheduledError(errorMessage, 'watchlist'),
+                            variant: 'destructive',
+                        });
+                    }
+
+                    // The remaining entries would hit the same limit
+                    if (isQuotaStopError(errorMessage)) break;
+                }
+            }
+        } finally {
+            isRunningRef.current = false;
+            setRunningId(null);
+        }
+    };
+
+    useDueCheck(() => {
+        const due = (preferences.watchlists || []).filter(entry => isWatchlistDue(entry));
+        if (due.length > 0) runEntries(due, false);
+    }, INITIAL_CHECK_DELAY_MS, CHECK_INTERVAL_MS);
+
+    const runNow = (id: string) => {
+        const entry = preferences.watchlists?.find(w => w.id === id);
+        if (entry) runEntries([entry], true);
+    };
+
+    const unreadAlertCount = (preferences.watchlistAlerts || []).filter(a => !a.read).length;
+
+    return {
+        runningId,
+        runNow,
+        unreadAlertCount,
+    };
+}
@@ -0,0 +1,174 @@
+/**
+ * Runs prompts against the AI backend chosen in settings.
+ * Gemini goes through the backend proxy like before. OpenAI-compatible and local
+ * servers (Ollama, llama.cpp) are called directly from the app, so prompts for
+ * those never pass through our server or Google.
+ */
+
+import { getBackendUrl, getAuthHeaders } from './api-config';
+import { fetchWithTimeout } from './fetch-utils';
+import { logger } from './logger';
+import type { AIProviderId, AIProviderConfig, AIProviderSettings, AIGenerateOptions } from '@/types/ai-provider';
+
+interface AIProviderInfo {
+    label: string;
+    defaultModel: string;
+    defaultBaseUrl?: string;
+    // Whether requests fail without a key
+    requiresKey: boolean;
+}
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProviderInfo> = {
+    gemini: { label: 'Gemini', defaultModel: 'gemini-2.0-flash', requiresKey: false }, // Falls back to the server key
+    openai: { label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini', defaultBaseUrl: 'https://api.openai.com/v1', requiresKey: true },
+    local: { label: 'Local (Ollama / llama.cpp)', defaultModel: 'llama3.1', defaultBaseUrl: 'http://localhost:11434/v1', requiresKey: false },
+};
+
+export const DEFAULT_AI_PROVIDER_SETTINGS: AIProviderSettings = {
+    active: 'gemini',
+    providers: {},
+};
+
+const PREFERENCES_KEY = 'viralvision_preferences';
+// Local models can take a while on modest hardware
+const LOCAL_TIMEOUT_MS = 120000;
+const REMOTE_TIMEOUT_MS = 60000;
+
+/**
+ * Provider settings saved with the user preferences (see useLocalStorage)
+ */
+export function getAIProviderSettings(): AIProviderSettings {
+    try {
+        const stored = localStorage.getItem(PREFERENCES_KEY);
+        const saved = stored ? JSON.parse(stored).aiProvider : undefined;
+        return { ...DEFAULT_AI_PROVIDER_SETTINGS, ...saved };
+    } catch {
+        return DEFAULT_AI_PROVIDER_SETTINGS;
+    }
+}
+
+interface GeminiResponse {
+    // Shortcut some proxies return instead of the raw Gemini payload
+    text?: string;
+    candidates?: Array<{
+        content?: {
+            parts?: Array<{
+                text?: string;
+            }>;
+        };
+    }>;
+}
+
+/**
+ * Text of a /api/gemini/generate response, whichever shape it came in
+ */
+export function extractResponseText(data: GeminiResponse): string {
+    if (typeof data.text === 'string') return data.text.trim();
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    return parts.map(part => part.text || '').join('').trim();
+}
+
+// Error body from the Gemini proxy (a plain message) or a chat completions server (an object)
+interface ProviderErrorBody {
+    error?: string | {
+        message?: string;
+    };
+}
+
+/**
+ * Message of a failed response, or its status text when the body has none
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+    const errorData: ProviderErrorBody = await response.json()
+        .then(body => (body && typeof body === 'object' ? body : {}))
+        .catch(() => ({}));
+    const message = typeof errorData.error === 'string' ? errorData.error : errorData.error?.message;
+    return message || response.statusText;
+}
+
+async function generateWithGemini(prompt: string, config: AIProviderConfig, options: AIGenerateOptions): Promise<string> {
+    const response = await fetchWithTimeout(`${getBackendUrl()}/api/gemini/generate`, {
+        method: 'POST',
+        headers: getAuthHeaders(), // Includes Content-Type and custom keys
+        body: JSON.stringify({ prompt, enableSearch: options.enableSearch, model: config.model || undefined }),
+        timeout: REMOTE_TIMEOUT_MS,
+    });
+
+    if (!response.ok) {
+        if (response.status === 429) {
+            throw new Error('RATE_LIMIT');
+        }
+        throw new Error(`Gemini API error (${response.status}): ${await readErrorMessage(response)}`);
+    }
+
+    return extractResponseText(await response.json());
+}
+
+interface ChatCompletionResponse {
+    choices?: Array<{
+        message?: {
+            content?: string;
+        };
+    }>;
+}
+
+/**
+ * POST {baseUrl}/chat/completions, spoken by OpenAI, Ollama, llama.cpp and most other servers
+ */
+async function generateWithChatCompletions(
+    providerId: 'openai' | 'local',
+    prompt: string,
+    config: AIProviderConfig
+): Promise<string> {
+    const info = AI_PROVIDERS[providerId];
+    const apiKey = config.apiKey?.trim();
+    if (info.requiresKey && !apiKey) {
+        throw new Error(`${info.label} API key is not set`);
+    }
+
+    const baseUrl = (config.baseUrl?.trim() || info.defaultBaseUrl || '').replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetchWithTimeout(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+            model: config.model?.trim() || info.defaultModel,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0.7,
+        }),
+        timeout: providerId === 'local' ? LOCAL_TIMEOUT_MS : REMOTE_TIMEOUT_MS,
+    });
+
+    if (!response.ok) {
+        if (response.status === 429) {
+            throw new Error('RATE_LIMIT');
+        }
+        throw new Error(`${info.label} error (${response.status}): ${await readErrorMessage(response)}`);
+    }
+
+    const data: ChatCompletionResponse = await response.json();
+    return (data.choices?.[0]?.message?.content || '').trim();
+}
+
+/**
+ * Run a prompt on the active provider and return the reply text.
+ * Throws RATE_LIMIT on 429s and an error when the reply is empty.
+ */
+export async function generateText(prompt: string, options: AIGenerateOptions = {}): Promise<string> {
+    const { active, providers } = getAIProviderSettings();
+    const config = providers[active] || {};
+
+    try {
+        const text = active === 'gemini'
+            ? await generateWithGemini(prompt, config, options)
+            : await generateWithChatCompletions(active, prompt, config);
+
+        if (!text) throw new Error(`${AI_PROVIDERS[active].label} returned an empty response`);
+        return text;
+    } catch (error) {
+        logger.error(`${AI_PROVIDERS[active].label} request failed:`, error);
+        throw error;
+    }
+}
@@ -0,0 +1,172 @@
+/**
+ * Structured JSON output from the AI model.
+ * Describe the expected shape with the `s` builders; generateStructured appends the
+ * shape to the prompt, validates the reply and asks once more with the validation
+ * errors when the reply doesn't match.
+ */
+
+import { generateText } from './ai-providers';
+import { logger } from './logger';
+
+export interface Schema<T> {
+    /** JSON-like outline of the shape, shown to the model */
+    describe(indent?: string): string;
+    /** Problems with `value`, each prefixed with its path (empty when valid) */
+    validate(value: unknown, path?: string): string[];
+    /** Type-only marker used by Infer */
+    readonly _type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+const typeName = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+export const s = {
+    string(): Schema<string> {
+        return {
+            describe: () => '"string"',
+            validate: (value, path = '$') =>
+                typeof value === 'string' ? [] : [`${path}: expected a string, got ${typeName(value)}`],
+        };
+    },
+
+    number(range: { min?: number; max?: number } = {}): Schema<number> {
+        const { min, max } = range;
+        return {
+            describe: () => (min !== undefined && max !== undefined ? `number (${min}-${max})` : 'number'),
+            validate: (value, path = '$') => {
+                if (typeof value !== 'number' || Number.isNaN(value)) {
+                    return [`${path}: expected a number, got ${typeName(value)}`];
+                }
+                if (min !== undefined && value < min) return [`${path}: must be at least ${min}`];
+                if (max !== undefined && value > max) return [`${path}: must be at most ${max}`];
+                return [];
+            },
+        };
+    },
+
+    oneOf<T extends string>(options: readonly T[]): Schema<T> {
+        return {
+            describe: () => options.map(o => `"${o}"`).join(' | '),
+            validate: (value, path = '$') =>
+                options.includes(value as T)
+                    ? []
+                    : [`${path}: expected one of ${options.map(o => `"${o}"`).join(', ')}, got ${JSON.stringify(value)}`],
+        };
+    },
+
+    array<T>(item: Schema<T>, length: { min?: number; max?: number } = {}): Schema<T[]> {
+        const { min, max } = length;
+        return {
+            describe: (indent = '') => `[\n${indent}  ${item.describe(indent + '  ')}\n${indent}]`,
+            validate: (value, path = '$') => {
+                if (!Array.isArray(value)) return [`${path}: expected an array, got ${typeName(value)}`];
+                const errors: string[] = [];
+                if (min !== undefined && value.length < min) errors.push(`${path}: needs at least ${min} items, got ${value.length}`);
+                if (max !== undefined && value.length > max) errors.push(`${path}: allows at most ${max} items, got ${value.length}`);
+                value.forEach((entry, i) => errors.push(...item.validate(entry, `${path}[${i}]`)));
+                return errors;
+            },
+        };
+    },
+
+    object<S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+        return {
+            describe: (indent = '') => {
+                const fields = Object.entries(shape)
+                    .map(([key, field]) => `${indent}  "${key}": ${field.describe(indent + '  ')}`)
+                    .join(',\n');
+                return `{\n${fields}\n${indent}}`;
+            },
+            validate: (value, path = '$') => {
+                if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                    return [`${path}: expected an object, got ${typeName(value)}`];
+                }
+                const record = value as Record<string, unknown>;
+                return Object.entries(shape).flatMap(([key, field]) =>
+                    key in record ? field.validate(record[key], `${path}.${key}`) : [`${path}.${key}: missing`]
+                );
+            },
+        };
+    },
+};
+
+export type StructuredResult<T> =
+    | { ok: true; data: T }
+    | {
+        ok: false;
+        // 'request': the model couldn't be reached; 'invalid': it never returned matching JSON
+        reason: 'request' | 'invalid';
+        message: string;
+        issues: string[];
+    };
+
+/**
+ * Pull the JSON value out of a model reply, ignoring code fences and any text around it
+ */
+export function parseJsonReply(text: string): unknown {
+    const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+    const start = cleaned.search(/[[{]/);
+    const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+    if (start === -1 || end < start) throw new Error('No JSON found in the reply');
+    return JSON.parse(cleaned.slice(start, end + 1));
+}
+
+function buildPrompt(prompt: string, schema: Schema<unknown>): string {
+    return `${prompt}
+
+Respond with ONLY valid JSON matching this shape (no markdown, no backticks, no commentary):
+${schema.describe()}`;
+}
+
+/**
+ * Ask the model for JSON matching `schema`. Retries once, feeding back what was wrong.
+ * Never throws: failures come back as `{ ok: false }` so callers can pick their fallback.
+ */
+export async function generateStructured<T>(
+    prompt: string,
+    schema: Schema<T>,
+    options: { retries?: number; enableSearch?: boolean } = {}
+): Promise<StructuredResult<T>> {
+    const { retries = 1, enableSearch = false } = options;
+    const basePrompt = buildPrompt(prompt, schema);
+    let currentPrompt = basePrompt;
+    let issues: string[] = [];
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+        let reply: string;
+        try {
+            reply = await generateText(currentPrompt, { enableSearch });
+        } catch (error) {
+            return {
+                ok: false,
+                reason: 'request',
+                message: error instanceof Error ? error.message : 'AI request failed',
+                issues: [],
+            };
+        }
+
+        try {
+            const value = parseJsonReply(reply);
+            issues = schema.validate(value);
+            if (issues.length === 0) return { ok: true, data: value as T };
+        } catch (error) {
+            issues = [`Reply was not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`];
+        }
+
+        logger.warn(`AI reply failed validation (attempt ${attempt + 1}):`, issues);
+        currentPrompt = `${basePrompt}
+
+Your previous reply was rejected:
+${issues.slice(0, 10).map(issue => `- ${issue}`).join('\n')}
+
+Previous reply:
+${reply.slice(0, 2000)}
+
+Return corrected JSON only.`;
+    }
+
+    return { ok: false, reason: 'invalid', message: 'AI reply did not match the expected format', issues };
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { migrateBackup } from './backup';
+import { DEFAULT_FILTERS } from '@/types/filters';
+
+describe('migrateBackup', () => {
+    it('fills missing watchlist fields and drops entries without a niche', () => {
+        const bundle = migrateBackup({
+            app: 'viralvision',
+            version: 2,
+            ideas: [],
+            watchlists: [
+                { id: 'watch-1', niche: 'budget travel', enabled: true, lastRunAt: '2026-01-01T00:00:00Z', seenVideoIds: ['abc'] },
+                { enabled: true },
+                'not a watchlist',
+            ],
+        });
+
+        expect(bundle.watchlists).toHaveLength(1);
+        expect(bundle.watchlists[0]).toMatchObject({
+            id: 'watch-1',
+            niche: 'budget travel',
+            filters: DEFAULT_FILTERS,
+            intervalHours: 24,
+            enabled: true,
+            seenVideoIds: [],
+        });
+        expect(bundle.watchlists[0].lastRunAt).toBeUndefined();
+    });
+});
@@ -0,0 +1,302 @@
+/**
+ * Export and import of saved ideas, watchlists, pinned competitors and settings.
+ * Bundles carry a version number; older bundles are migrated on import.
+ *
+ *   v1: the raw `viralvision_preferences` object (ideas in `savedIdeas`, max 50)
+ *   v2: ideas workspace (ideas + boards from the ideas store)
+ */
+
+import { UserPreferences, SavedIdea } from '@/types/video';
+import { Idea, IdeaBoard } from '@/types/ideas';
+import { WatchlistEntry } from '@/types/watchlist';
+import { ScoringProfile } from '@/types/scoring';
+import { QuotaSettings } from '@/types/quota';
+import { SearchFilters, DEFAULT_FILTERS } from '@/types/filters';
+import { BackupBundle, BackupOptions, ImportSummary } from '@/types/backup';
+import { AIProviderId, AIProviderSettings } from '@/types/ai-provider';
+import { CompetitorChannel, CompetitorFeedSettings } from '@/types/competitor';
+import { getIdeas, getBoards, putIdeas, putBoards, fromLegacyIdea, IDEA_STATUSES } from './idea-store';
+import { MAX_COMPETITORS } from './competitor-feed';
+import { createWatchlistEntry } from './watchlist';
+import { toCsv } from './file-export';
+
+export const BACKUP_VERSION = 2;
+
+/**
+ * AI provider settings with each provider's key taken from `keysFrom`
+ * (or dropped when there is none)
+ */
+function withProviderKeys(settings: AIProviderSettings, keysFrom?: AIProviderSettings): AIProviderSettings {
+    const providers: AIProviderSettings['providers'] = {};
+    (Object.keys(settings.providers || {}) as AIProviderId[]).forEach(id => {
+        const { apiKey: _apiKey, ...rest } = settings.providers[id] || {};
+        const apiKey = keysFrom?.providers[id]?.apiKey;
+        providers[id] = apiKey ? { ...rest, apiKey } : rest;
+    });
+    return { ...settings, providers };
+}
+
+// Run times, errors and already-seen results belong to this machine; the first run
+// on another machine records a fresh baseline instead of alerting on everything
+function withoutRunHistory(entry: WatchlistEntry): WatchlistEntry {
+    const { lastCheckedAt: _lastCheckedAt, lastRunAt: _lastRunAt, lastError: _lastError, ...rest } = entry;
+    return { ...rest, seenVideoIds: [] };
+}
+
+// Refresh times and errors belong to this machine's feed
+function withoutFeedHistory(settings: CompetitorFeedSettings): CompetitorFeedSettings {
+    const { lastCheckedAt: _lastCheckedAt, lastRunAt: _lastRunAt, lastError: _lastError, ...rest } = settings;
+    return rest;
+}
+
+export async function createBackup(preferences: UserPreferences, options: BackupOptions = {}): Promise<BackupBundle> {
+    const [ideas, boards] = await Promise.all([getIdeas(), getBoards()]);
+
+    const bundle: BackupBundle = {
+        app: 'viralvision',
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        ideas,
+        boards,
+        watchlists: (preferences.watchlists || []).map(withoutRunHistory),
+        scoringProfiles: preferences.scoringProfiles || [],
+        competitors: preferences.competitors || [],
+        competitorFeed: preferences.competitorFeed && withoutFeedHistory(preferences.competitorFeed),
+        quotaSettings: preferences.quotaSettings,
+        aiProvider: preferences.aiProvider && (options.includeApiKeys ? preferences.aiProvider : withProviderKeys(preferences.aiProvider)),
+    };
+
+    if (options.includeApiKeys && preferences.apiKeys) {
+        bundle.apiKeys = preferences.apiKeys;
+    }
+    return bundle;
+}
+
+/**
+ * One row per idea, for spreadsheets
+ */
+export function ideasToCsv(ideas: Idea[], boards: IdeaBoard[]): string {
+    const boardNames = new Map(boards.map(board => [board.id, board.name]));
+    const statusLabels = new Map(IDEA_STATUSES.map(status => [status.id, status.label]));
+
+    return toCsv(
+        ['Video ID', 'Title', 'Channel', 'URL', 'Views', 'Viral Score', 'Status', 'Board', 'Tags', 'Note', 'Published', 'Saved'],
+        ideas.map(idea => [
+            idea.id,
+            idea.video.title,
+            idea.video.channelName,
+            `https://youtube.com/watch?v=${idea.id}`,
+            idea.video.views,
+            Math.round(idea.video.viralScore),
+            statusLabels.get(idea.status) || idea.status,
+            idea.boardId ? boardNames.get(idea.boardId) || '' : '',
+            idea.tags.join('; '),
+            idea.note,
+            idea.video.publishedAt,
+            idea.savedAt,
+        ])
+    );
+}
+
+// Fields of a parsed file, with anything of the wrong shape treated as missing
+const arrayField = <T>(value: unknown): T[] => (Array.isArray(value) ? value as T[] : []);
+const objectField = <T>(value: unknown): T | undefined =>
+    value && typeof value === 'object' && !Array.isArray(value) ? value as T : undefined;
+
+/**
+ * A watchlist from a parsed file with every required field present, or null without a niche.
+ * Missing or mistyped fields take a new entry's defaults; run history is never carried over.
+ */
+function toWatchlistEntry(value: unknown, index: number): WatchlistEntry | null {
+    const entry = objectField<Record<string, unknown>>(value);
+    if (!entry || typeof entry.niche !== 'string' || !entry.niche.trim()) return null;
+
+    const base = createWatchlistEntry(entry.niche, { ...DEFAULT_FILTERS, ...objectField<Partial<SearchFilters>>(entry.filters) });
+    return {
+        ...base,
+        // Entries read in the same millisecond would otherwise share a generated id
+        id: typeof entry.id === 'string' && entry.id ? entry.id : `${base.id}-${index}`,
+        intervalHours: typeof entry.intervalHours === 'number' && entry.intervalHours > 0 ? entry.intervalHours : base.intervalHours,
+        enabled: typeof entry.enabled === 'boolean' ? entry.enabled : base.enabled,
+        alertMinViralScore: typeof entry.alertMinViralScore === 'number' ? entry.alertMinViralScore : base.alertMinViralScore,
+        alertOnOutliers: typeof entry.alertOnOutliers === 'boolean' ? entry.alertOnOutliers : base.alertOnOutliers,
+        createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : base.createdAt,
+    };
+}
+
+/**
+ * Bring a parsed bundle of any known version up to the current version
+ */
+export function migrateBackup(raw: unknown): BackupBundle {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('This file is not a ViralVision backup');
+    }
+    const data = raw as Record<string, unknown>;
+    // v1 bundles are a plain preferences object without a version
+    const version = typeof data.version === 'number' ? data.version : 1;
+
+    // Stored the same way in every version
+    const common = {
+        app: 'viralvision' as const,
+        version: BACKUP_VERSION,
+        exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : new Date().toISOString(),
+        watchlists: arrayField<unknown>(data.watchlists)
+            .map(toWatchlistEntry)
+            .filter((entry): entry is WatchlistEntry => entry !== null),
+        scoringProfiles: arrayField<ScoringProfile>(data.scoringProfiles),
+        quotaSettings: objectField<QuotaSettings>(data.quotaSettings),
+        aiProvider: objectField<AIProviderSettings>(data.aiProvider),
+        apiKeys: objectField<BackupBundle['apiKeys']>(data.apiKeys),
+    };
+
+    if (version > BACKUP_VERSION) {
+        throw new Error('This backup was made by a newer version of ViralVision. Update the app and try again.');
+    }
+
+    if (version === 1) {
+        if (!Array.isArray(data.savedIdeas) && !Array.isArray(data.watchlists) && !Array.isArray(data.scoringProfiles)) {
+            throw new Error('This file is not a ViralVision backup');
+        }
+        return {
+            ...common,
+            ideas: arrayField<SavedIdea>(data.savedIdeas)
+                .filter(saved => saved?.video?.id)
+                .map(fromLegacyIdea),
+            boards: [],
+            competitors: [],
+        };
+    }
+
+    if (data.app !== 'viralvision' || !Array.isArray(data.ideas)) {
+        throw new Error('This file is not a ViralVision backup');
+    }
+    return {
+        ...common,
+        ideas: arrayField<Idea>(data.ideas),
+        boards: arrayField<IdeaBoard>(data.boards),
+        // Bundles exported before competitor tracking have none
+        competitors: arrayField<CompetitorChannel>(data.competitors),
+        competitorFeed: objectField<CompetitorFeedSettings>(data.competitorFeed),
+    };
+}
+
+export function parseBackup(text: string): BackupBundle {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('This file is not valid JSON');
+    }
+    return migrateBackup(raw);
+}
+
+/**
+ * Merge a bundle's ideas and boards into the ideas store. An idea already saved
+ * here (same video id) is only replaced when the imported copy was edited later.
+ */
+export async function importIdeas(bundle: BackupBundle): Promise<Pick<ImportSummary, 'ideasAdded' | 'ideasUpdated' | 'boardsAdded'>> {
+    const [existingIdeas, existingBoards] = await Promise.all([getIdeas(), getBoards()]);
+    const ideasById = new Map(existingIdeas.map(idea => [idea.id, idea]));
+    const boardIds = new Set(existingBoards.map(board => board.id));
+
+    const newBoards = bundle.boards.filter(board => board.id && !boardIds.has(board.id));
+    const knownBoardIds = new Set([...boardIds, ...newBoards.map(board => board.id)]);
+
+    let ideasAdded = 0;
+    let ideasUpdated = 0;
+    const toWrite: Idea[] = [];
+
+    // Dedupe within the bundle too, keeping the latest edit
+    const incoming = new Map<string, Idea>();
+    bundle.ideas.forEach(idea => {
+        if (!idea?.id || !idea.video) return;
+        const previous = incoming.get(idea.id);
+        if (!previous || idea.updatedAt > previous.updatedAt) incoming.set(idea.id, idea);
+    });
+
+    incoming.forEach(idea => {
+        const normalized: Idea = {
+            ...idea,
+            boardId: idea.boardId && knownBoardIds.has(idea.boardId) ? idea.boardId : null,
+            tags: idea.tags || [],
+            note: idea.note || '',
+            status: idea.status || 'idea',
+        };
+        const existing = ideasById.get(idea.id);
+        if (!existing) {
+            ideasAdded++;
+            toWrite.push(normalized);
+        } else if (normalized.updatedAt > existing.updatedAt) {
+            ideasUpdated++;
+            toWrite.push(normalized);
+        }
+    });
+
+    if (newBoards.length > 0) await putBoards(newBoards);
+    if (toWrite.length > 0) await putIdeas(toWrite);
+
+    return { ideasAdded, ideasUpdated, boardsAdded: newBoards.length };
+}
+
+/**
+ * Preferences after merging a bundle: new watchlists (by niche), scoring profiles (by id)
+ * and competitors (by channel, up to the limit) are added, existing ones are kept.
+ * Settings, including the competitor feed's, and keys are only taken when asked.
+ */
+export function mergeBackupPreferences(
+    prev: UserPreferences,
+    bundle: BackupBundle,
+    options: BackupOptions & { includeSettings?: boolean } = {}
+): { preferences: UserPreferences; summary: Pick<ImportSummary, 'watchlistsAdded' | 'profilesAdded' | 'competitorsAdded' | 'settingsImported' | 'apiKeysImported'> } {
+    const watchlists = prev.watchlists || [];
+    const niches = new Set(watchlists.map(w => w.niche.toLowerCase()));
+    const newWatchlists = bundle.watchlists.filter(w => !niches.has(w.niche.toLowerCase()));
+
+    const profiles = prev.scoringProfiles || [];
+    const profileIds = new Set(profiles.map(p => p.id));
+    const newProfiles = bundle.scoringProfiles.filter(p => p?.id && !profileIds.has(p.id));
+
+    const competitors = prev.competitors || [];
+    const channelIds = new Set(competitors.map(c => c.channelId));
+    const newCompetitors = bundle.competitors
+        .filter(c => c?.channelId && !channelIds.has(c.channelId))
+        .slice(0, Math.max(0, MAX_COMPETITORS - competitors.length));
+
+    const next: UserPreferences = {
+        ...prev,
+        watchlists: [...watchlists, ...newWatchlists],
+        scoringProfiles: [...profiles, ...newProfiles],
+        competitors: [...competitors, ...newCompetitors],
+    };
+
+    const settingsImported = !!options.includeSettings && !!(bundle.quotaSettings || bundle.aiProvider || bundle.competitorFeed);
+    if (options.includeSettings) {
+        if (bundle.quotaSettings) next.quotaSettings = bundle.quotaSettings;
+        if (bundle.competitorFeed) {
+            // Keep this machine's refresh history so the schedule carries on
+            next.competitorFeed = { ...prev.competitorFeed, ...withoutFeedHistory(bundle.competitorFeed) };
+        }
+        if (bundle.aiProvider) {
+            // Keep this machine's provider keys unless imported keys were asked for
+            next.aiProvider = options.includeApiKeys
+                ? bundle.aiProvider
+                : withProviderKeys(bundle.aiProvider, prev.aiProvider);
+        }
+    }
+
+    const apiKeysImported = !!options.includeApiKeys && !!bundle.apiKeys;
+    if (apiKeysImported) {
+        next.apiKeys = { ...prev.apiKeys, ...bundle.apiKeys };
+    }
+
+    return {
+        preferences: next,
+        summary: {
+            watchlistsAdded: newWatchlists.length,
+            profilesAdded: newProfiles.length,
+            competitorsAdded: newCompetitors.length,
+            settingsImported,
+            apiKeysImported,
+        },
+    };
+}
@@ -0,0 +1,131 @@
+/**
+ * Per-channel "typical views": the median views of a channel's recent uploads.
+ * A video's outlier multiplier is its views divided by this, which works for channels
+ * with inactive subscribers or Shorts-heavy channels where views/subscribers misleads.
+ *
+ * Baselines are stored on this device and reused for a day, so repeat searches
+ * only pay for channels they haven't seen yet.
+ */
+
+import { ChannelBaseline } from '@/types/channel';
+import { getCollection } from './local-db';
+import { getPlaylistItems, getVideos, YouTubeRequestOptions, MAX_IDS_PER_REQUEST } from './youtube-client';
+import { QUOTA_COSTS } from './quota-ledger';
+import { logger } from './logger';
+import { median } from './utils';
+
+// Recent uploads the median is taken over
+const BASELINE_UPLOADS = 15;
+// Uploads younger than this are still gathering views and would drag the median down
+const MIN_UPLOAD_AGE_MS = 2 * 24 * 60 * 60 * 1000;
+const BASELINE_TTL_MS = 24 * 60 * 60 * 1000;
+// Playlist requests in flight at once
+const MAX_CONCURRENT_CHANNELS = 5;
+// Channels fetched per call; the rest keep no baseline until a later call reaches them,
+// so one search can't flood the proxy with a playlist request per result channel
+export const MAX_NEW_BASELINES_PER_CALL = 25;
+
+const baselines = () => getCollection<ChannelBaseline>('channel-baselines', item => item.channelId);
+
+/**
+ * Quota units to build baselines for `channelCount` channels none of which are stored yet
+ */
+export function estimateBaselineCost(channelCount: number): number {
+    const fetched = Math.min(channelCount, MAX_NEW_BASELINES_PER_CALL);
+    return fetched * QUOTA_COSTS.playlistItems +
+        Math.ceil((fetched * BASELINE_UPLOADS) / MAX_IDS_PER_REQUEST) * QUOTA_COSTS.videos;
+}
+
+async function loadStoredBaselines(channelIds: string[]): Promise<Map<string, ChannelBaseline>> {
+    const collection = baselines();
+    const stored = await Promise.all(channelIds.map(id => collection.get(id)));
+    const now = Date.now();
+    const result = new Map<string, ChannelBaseline>();
+    stored.forEach(baseline => {
+        if (baseline && now - new Date(baseline.fetchedAt).getTime() < BASELINE_TTL_MS) {
+            result.set(baseline.channelId, baseline);
+        }
+    });
+    return result;
+}
+
+/**
+ * Recent upload ids (old enough to count) for each channel
+ */
+async function fetchRecentUploadIds(
+    channels: { channelId: string; uploadsPlaylistId: string }[],
+    options: YouTubeRequestOptions
+): Promise<Map<string, string[]>> {
+    const uploads = new Map<string, string[]>();
+    let next = 0;
+
+    const worker = async () => {
+        while (next < channels.length) {
+            const { channelId, uploadsPlaylistId } = channels[next++];
+            try {
+                const page = await getPlaylistItems(uploadsPlaylistId, {
+                    part: 'contentDetails',
+                    maxResults: BASELINE_UPLOADS + 5, // A few spare for uploads too new to count
+                }, options);
+                const cutoff = Date.now() - MIN_UPLOAD_AGE_MS;
+                const ids = (page.items || [])
+                    .filter(item => !item.contentDetails?.videoPublishedAt || new Date(item.contentDetails.videoPublishedAt).getTime() < cutoff)
+                    .map(item => item.contentDetails?.videoId)
+                    .filter((id): id is string => !!id)
+                    .slice(0, BASELINE_UPLOADS);
+                uploads.set(channelId, ids);
+            } catch (error) {
+                if (error instanceof Error && ['QUOTA_EXCEEDED', 'RATE_LIMIT'].includes(error.message)) throw error;
+                // A channel with hidden or missing uploads just goes without a baseline
+                logger.warn(`Could not read uploads for channel ${channelId}:`, error);
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_CHANNELS, channels.length) }, worker));
+    return uploads;
+}
+
+/**
+ * Baselines for the given channels, from storage when fresh and fetched otherwise.
+ * Pass channels most important first: only the first MAX_NEW_BASELINES_PER_CALL
+ * missing ones are fetched. Channels whose baseline isn't built are missing from the result.
+ */
+export async function getChannelBaselines(
+    channels: { channelId: string; uploadsPlaylistId?: string }[],
+    options: YouTubeRequestOptions = {}
+): Promise<Map<string, ChannelBaseline>> {
+    const unique = Array.from(new Map(channels.map(c => [c.channelId, c])).values());
+    const result = options.bypassCache
+        ? new Map<string, ChannelBaseline>()
+        : await loadStoredBaselines(unique.map(c => c.channelId)).catch(error => {
+            logger.warn('Could not load stored channel baselines:', error);
+            return new Map<string, ChannelBaseline>();
+        });
+
+    const missing = unique.filter((c): c is { channelId: string; uploadsPlaylistId: string } =>
+        !result.has(c.channelId) && !!c.uploadsPlaylistId
+    ).slice(0, MAX_NEW_BASELINES_PER_CALL);
+    if (missing.length === 0) return result;
+
+    const uploadIds = await fetchRecentUploadIds(missing, options);
+    const videos = await getVideos(Array.from(uploadIds.values()).flat(), 'statistics', options);
+    const viewsById = new Map(videos.map(v => [v.id, parseInt(v.statistics.viewCount || '0')]));
+
+    const fetchedAt = new Date().toISOString();
+    const fresh: ChannelBaseline[] = [];
+    uploadIds.forEach((ids, channelId) => {
+        const views = ids.map(id => viewsById.get(id)).filter((v): v is number => v !== undefined);
+        if (views.length === 0) return;
+        const baseline = { channelId, medianViews: median(views), sampleSize: views.length, fetchedAt };
+        fresh.push(baseline);
+        result.set(channelId, baseline);
+    });
+
+    if (fresh.length > 0) {
+        await baselines().putMany(fresh).catch(error => {
+            logger.warn('Could not store channel baselines:', error);
+        });
+    }
+    return result;
+}
@@ -1,5 +1,16 @@
 import { SimilarChannel, ChannelAnalysis } from '@/types/channel';
-import { getBackendUrl, getAuthHeaders } from './api-config';
+import { assertQuotaBudget, QUOTA_COSTS } from './quota-ledger';
+import { getChannels, getChannelByHandle, searchChannels, getPlaylistItems, getVideos } from './youtube-client';
+import { generateStructured, s } from './ai-schema';
+import { buildTfIdfVectors, cosineSimilarity, sharedTerms, topTerms } from './text-similarity';
+import type { YouTubeChannelItem, YouTubePlaylistItem, YouTubeVideoItem } from '@/types/youtube-api';
+
+// Similar channels whose uploads are fetched and scored
+const MAX_SIMILAR_CHANNELS = 12;
+// Share of the similarity score that comes from content (the rest from channel stats)
+const CONTENT_WEIGHT = 0.6;
+// TF-IDF cosine at or above this counts as a full content match; short texts rarely go higher
+const FULL_CONTENT_MATCH = 0.5;
 
 export function extractChannelId(url: string): string | null {
     const channelMatch = url.match(/youtube\.com\/channel\/([^/?]+)/);
@@ -14,167 +25,192 @@ export function extractChannelId(url: string): string | null {
     return null;
 }
 
-async function fetchWithRetry(url: string, options: RequestInit, retries = 3): Promise<Response> {
-    for (let i = 0; i < retries; i++) {
-        try {
-            const response = await fetch(url, options);
-            if (response.ok || response.status === 404) return response;
-            if (i < retries - 1) await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
-        } catch (error) {
-            if (i === retries - 1) throw error;
-        }
-    }
-    throw new Error('Max retries exceeded');
+export function getPlaylistVideoIds(items: YouTubePlaylistItem[]): string[] {
+    return items.map(item => item.contentDetails?.videoId || item.snippet.resourceId.videoId);
 }
 
-export async function analyzeChannel(channelIdOrHandle: string): Promise<ChannelAnalysis> {
-    const backendUrl = getBackendUrl();
-    // Headers cast to avoid TS error
-    const headers = getAuthHeaders() as Record<string, string>;
-
-    // Step 1: Resolve channel ID
-    let targetId = channelIdOrHandle;
-    if (channelIdOrHandle.startsWith('@') || !channelIdOrHandle.startsWith('UC')) {
-        const handle = channelIdOrHandle.replace('@', '');
-        const searchRes = await fetchWithRetry(
-            `${backendUrl}/api/youtube/channels?part=snippet,statistics,contentDetails&forHandle=${handle}`,
-            { headers }
-        );
+/**
+ * Channel ID (UC...) for an ID, @handle or channel name
+ */
+export async function resolveChannelId(channelIdOrHandle: string): Promise<string> {
+    if (channelIdOrHandle.startsWith('UC')) return channelIdOrHandle;
 
-        if (!searchRes.ok) {
-            // Try search as fallback
-            const searchRes2 = await fetchWithRetry(
-                `${backendUrl}/api/youtube/search?part=snippet&q=${encodeURIComponent(channelIdOrHandle)}&type=channel&maxResults=1`,
-                { headers }
-            );
-            const searchData = await searchRes2.json();
-            if (!searchData.items?.length) throw new Error('Channel not found');
-            targetId = searchData.items[0].id.channelId;
-        } else {
-            const data = await searchRes.json();
-            if (!data.items?.length) throw new Error('Channel not found');
-            targetId = data.items[0].id;
-        }
-    }
+    const channel = await getChannelByHandle(channelIdOrHandle, 'snippet');
+    if (channel) return channel.id;
 
-    // Step 2: Get full channel details
-    const channelRes = await fetchWithRetry(
-        `${backendUrl}/api/youtube/channels?part=snippet,statistics,contentDetails,brandingSettings&id=${targetId}`,
-        { headers }
-    );
-    const channelData = await channelRes.json();
-    if (!channelData.items?.length) throw new Error('Channel details not found');
+    // Try search as fallback
+    const searchData = await searchChannels({ q: channelIdOrHandle, maxResults: 1 });
+    if (!searchData.items?.length) throw new Error('Channel not found');
+    return searchData.items[0].id.channelId;
+}
 
-    const targetChannel = channelData.items[0];
+// Cost of searching for similar channels and reading each one's uploads
+const SIMILAR_SEARCH_COST = QUOTA_COSTS.search + QUOTA_COSTS.channels +
+    MAX_SIMILAR_CHANNELS * (QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos);
+
+/**
+ * Typical quota units for analyzeChannel: resolve the channel, read its uploads,
+ * search for similar channels, then read uploads for each of them
+ */
+export function estimateChannelAnalysisCost(): number {
+    const targetCost = QUOTA_COSTS.channels * 2 + QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos;
+    return targetCost + SIMILAR_SEARCH_COST;
+}
 
-    // Step 3: Get recent videos for target channel
-    const uploadsPlaylistId = targetChannel.contentDetails.relatedPlaylists.uploads;
-    const playlistRes = await fetchWithRetry(
-        `${backendUrl}/api/youtube/playlistItems?part=snippet,contentDetails&playlistId=${uploadsPlaylistId}&maxResults=20`,
-        { headers }
-    );
-    const playlistData = await playlistRes.json();
-    const recentVideoIds = playlistData.items?.map((item: any) => item.contentDetails.videoId).join(',') || '';
-
-    // Step 4: Get video statistics for target channel
-    let targetVideos: any[] = [];
-    if (recentVideoIds) {
-        const videoStatsRes = await fetchWithRetry(
-            `${backendUrl}/api/youtube/videos?part=statistics,contentDetails&id=${recentVideoIds}`,
-            { headers }
-        );
-        const videoStatsData = await videoStatsRes.json();
-        targetVideos = videoStatsData.items || [];
-    }
+/**
+ * Typical quota units for findChannelNeighbors (less when the channel was just fetched)
+ */
+export function estimateNeighborSearchCost(): number {
+    return QUOTA_COSTS.channels + QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos + SIMILAR_SEARCH_COST;
+}
 
-    // Calculate target channel metrics
-    const targetMetrics = await calculateDetailedMetrics(
-        targetChannel,
-        playlistData.items || [],
-        targetVideos
-    );
+// A channel with its recent uploads, as compared for similarity
+interface ChannelSource {
+    channel: YouTubeChannelItem;
+    items: YouTubePlaylistItem[];
+    metrics: SimilarChannel;
+}
 
-    // Step 5: Extract keywords using AI
-    const keywords = await extractKeywordsWithAI(targetChannel, playlistData.items || []);
+async function loadChannelSource(
+    channelId: string,
+    options: { uploads: number; channelPart: string; videoPart: string }
+): Promise<ChannelSource | null> {
+    const [channel] = await getChannels([channelId], options.channelPart);
+    if (!channel) return null;
 
-    // Step 6: Find similar channels
-    const searchQuery = keywords.slice(0, 3).join(' ');
-    const similarSearchRes = await fetchWithRetry(
-        `${backendUrl}/api/youtube/search?part=snippet&q=${encodeURIComponent(searchQuery)}&type=channel&maxResults=20`,
-        { headers }
-    );
-    const similarSearchData = await similarSearchRes.json();
+    const uploadsId = channel.contentDetails?.relatedPlaylists.uploads;
+    const items = uploadsId
+        ? (await getPlaylistItems(uploadsId, { maxResults: options.uploads })).items || []
+        : [];
+    const videos = await getVideos(getPlaylistVideoIds(items), options.videoPart);
 
-    const similarIds = similarSearchData.items
-        ?.map((item: any) => item.id.channelId)
-        .filter((id: string) => id !== targetId)
-        .slice(0, 12)
-        .join(',');
+    return { channel, items, metrics: await calculateDetailedMetrics(channel, items, videos) };
+}
 
-    if (!similarIds) {
-        return { targetChannel: targetMetrics, similarChannels: [], keywords };
+/**
+ * Search `query` for channels and rank them against `target` by content and stats.
+ * Also returns the target's most distinctive topics within that set of channels.
+ */
+async function findSimilarChannels(
+    target: ChannelSource,
+    query: string
+): Promise<{ channels: SimilarChannel[]; targetTopics: string[] }> {
+    const targetDocument = channelDocument(target.channel, target.items);
+    const similarSearchData = await searchChannels({ q: query, maxResults: 20 });
+
+    const similarIds = (similarSearchData.items || [])
+        .map(item => item.id.channelId)
+        .filter(id => id !== target.channel.id)
+        .slice(0, MAX_SIMILAR_CHANNELS);
+
+    if (similarIds.length === 0) {
+        return { channels: [], targetTopics: topTerms(buildTfIdfVectors([targetDocument])[0]) };
     }
 
-    // Step 7: Get detailed stats for similar channels
-    const similarChannelsRes = await fetchWithRetry(
-        `${backendUrl}/api/youtube/channels?part=snippet,statistics,contentDetails&id=${similarIds}`,
-        { headers }
-    );
-    const similarChannelsData = await similarChannelsRes.json();
+    // Get detailed stats for similar channels
+    const similarChannelItems = await getChannels(similarIds, 'snippet,statistics,contentDetails');
 
     // Process each similar channel
     const similarChannels = await Promise.all(
-        (similarChannelsData.items || []).map(async (channel: any) => {
-            const uploadsId = channel.contentDetails.relatedPlaylists.uploads;
-            const vRes = await fetchWithRetry(
-                `${backendUrl}/api/youtube/playlistItems?part=snippet,contentDetails&playlistId=${uploadsId}&maxResults=10`,
-                { headers }
-            );
-            const vData = await vRes.json();
-
-            const videoIds = vData.items?.map((item: any) => item.contentDetails.videoId).join(',') || '';
-            let videos: any[] = [];
-
-            if (videoIds) {
-                const vStatsRes = await fetchWithRetry(
-                    `${backendUrl}/api/youtube/videos?part=statistics&id=${videoIds}`,
-                    { headers }
-                );
-                const vStatsData = await vStatsRes.json();
-                videos = vStatsData.items || [];
-            }
-
-            return calculateDetailedMetrics(channel, vData.items || [], videos);
+        similarChannelItems.map(async channel => {
+            const uploadsId = channel.contentDetails?.relatedPlaylists.uploads;
+            const items = uploadsId
+                ? (await getPlaylistItems(uploadsId, { maxResults: 10 })).items || []
+                : [];
+            const videos = await getVideos(getPlaylistVideoIds(items), 'statistics');
+
+            return {
+                metrics: await calculateDetailedMetrics(channel, items, videos),
+                document: channelDocument(channel, items),
+            };
         })
     );
 
-    // Calculate similarity scores
-    const scoredChannels = similarChannels.map(channel => ({
-        ...channel,
-        similarityScore: calculateSimilarityScore(targetMetrics, channel)
-    }));
+    // Content similarity: TF-IDF over each channel's description and recent titles
+    const [targetVector, ...candidateVectors] = buildTfIdfVectors([
+        targetDocument,
+        ...similarChannels.map(c => c.document),
+    ]);
+
+    // Blend content and stat similarity
+    const scoredChannels = similarChannels.map(({ metrics }, i) => {
+        const contentScore = Math.round(Math.min(1, cosineSimilarity(targetVector, candidateVectors[i]) / FULL_CONTENT_MATCH) * 100);
+        const statScore = calculateSimilarityScore(target.metrics, metrics);
+        return {
+            ...metrics,
+            topics: sharedTerms(targetVector, candidateVectors[i]),
+            contentScore,
+            statScore,
+            similarityScore: Math.round(contentScore * CONTENT_WEIGHT + statScore * (1 - CONTENT_WEIGHT)),
+        };
+    });
 
     // Sort by similarity score
     scoredChannels.sort((a, b) => b.similarityScore - a.similarityScore);
 
+    return { channels: scoredChannels, targetTopics: topTerms(targetVector) };
+}
+
+export async function analyzeChannel(channelIdOrHandle: string): Promise<ChannelAnalysis> {
+    // Throws QUOTA_BUDGET_EXCEEDED when the daily budget is set to block
+    assertQuotaBudget(estimateChannelAnalysisCost());
+
+    // Step 1: Resolve channel ID
+    const targetId = await resolveChannelId(channelIdOrHandle);
+
+    // Steps 2-4: Channel details, recent uploads and their statistics
+    const target = await loadChannelSource(targetId, {
+        uploads: 20,
+        channelPart: 'snippet,statistics,contentDetails,brandingSettings',
+        videoPart: 'statistics,contentDetails',
+    });
+    if (!target) throw new Error('Channel details not found');
+
+    // Step 5: Extract keywords using AI
+    const keywords = await extractKeywordsWithAI(target.channel, target.items);
+
+    // Steps 6-7: Find and rank similar channels
+    const { channels, targetTopics } = await findSimilarChannels(target, keywords.slice(0, 3).join(' '));
+
     return {
-        targetChannel: targetMetrics,
-        similarChannels: scoredChannels,
+        targetChannel: { ...target.metrics, topics: targetTopics },
+        similarChannels: channels,
         keywords
     };
 }
 
-async function calculateDetailedMetrics(
-    channelRaw: any,
-    playlistItems: any[],
-    videoStats: any[]
+/**
+ * Similar channels for an already-known channel, searched by its own most frequent
+ * topics instead of AI keywords. Used to expand the discovery graph.
+ */
+export async function findChannelNeighbors(channelId: string): Promise<{ channel: SimilarChannel; neighbors: SimilarChannel[] }> {
+    assertQuotaBudget(estimateNeighborSearchCost());
+
+    const source = await loadChannelSource(channelId, {
+        uploads: 10,
+        channelPart: 'snippet,statistics,contentDetails',
+        videoPart: 'statistics',
+    });
+    if (!source) throw new Error('Channel details not found');
+
+    const query = topTerms(buildTfIdfVectors([channelDocument(source.channel, source.items)])[0], 3).join(' ')
+        || source.metrics.title;
+    const { channels, targetTopics } = await findSimilarChannels(source, query);
+
+    return { channel: { ...source.metrics, topics: targetTopics }, neighbors: channels };
+}
+
+export async function calculateDetailedMetrics(
+    channelRaw: YouTubeChannelItem,
+    playlistItems: YouTubePlaylistItem[],
+    videoStats: Pick<YouTubeVideoItem, 'id' | 'statistics'>[]
 ): Promise<SimilarChannel> {
     // Calculate upload frequency
     let uploadFrequency = 'Unknown';
     if (playlistItems.length >= 2) {
         const dates = playlistItems
-            .map((item: any) => new Date(item.contentDetails.videoPublishedAt || item.snippet.publishedAt).getTime())
-            .sort((a: number, b: number) => b - a);
+            .map(item => new Date(item.contentDetails?.videoPublishedAt || item.snippet.publishedAt).getTime())
+            .sort((a, b) => b - a);
 
         let totalDiff = 0;
         for (let i = 0; i < dates.length - 1; i++) {
@@ -191,7 +227,7 @@ async function calculateDetailedMetrics(
     }
 
     // Calculate average views
-    const totalViews = videoStats.reduce((sum: number, video: any) => {
+    const totalViews = videoStats.reduce((sum, video) => {
         return sum + parseInt(video.statistics.viewCount || '0');
     }, 0);
     const avgViews = videoStats.length > 0 ? Math.round(totalViews / videoStats.length) : 0;
@@ -199,21 +235,21 @@ async function calculateDetailedMetrics(
     // Find top video
     let topVideo = null;
     if (playlistItems.length > 0 && videoStats.length > 0) {
-        const topVideoData = videoStats.reduce((max: any, video: any) => {
+        const topVideoData = videoStats.reduce((max, video) => {
             const views = parseInt(video.statistics.viewCount || '0');
             return views > parseInt(max.statistics.viewCount || '0') ? video : max;
         });
 
         const topVideoItem = playlistItems.find(
-            (item: any) => item.contentDetails.videoId === topVideoData.id
+            item => getPlaylistVideoIds([item])[0] === topVideoData.id
         );
 
         if (topVideoItem) {
             topVideo = {
                 id: topVideoData.id,
                 title: topVideoItem.snippet.title,
-                publishedAt: new Date(topVideoItem.contentDetails.videoPublishedAt || topVideoItem.snippet.publishedAt).toISOString(),
-                thumbnailUrl: topVideoItem.snippet.thumbnails.medium?.url || topVideoItem.snippet.thumbnails.default?.url,
+                publishedAt: new Date(topVideoItem.contentDetails?.videoPublishedAt || topVideoItem.snippet.publishedAt).toISOString(),
+                thumbnailUrl: topVideoItem.snippet.thumbnails?.medium?.url || topVideoItem.snippet.thumbnails?.default?.url || '',
                 views: parseInt(topVideoData.statistics.viewCount || '0')
             };
         }
@@ -221,61 +257,65 @@ async function calculateDetailedMetrics(
 
     return {
         id: channelRaw.id,
-        title: channelRaw.snippet.title,
-        handle: channelRaw.snippet.customUrl || '',
-        subscriberCount: parseInt(channelRaw.statistics.subscriberCount) || 0,
-        videoCount: parseInt(channelRaw.statistics.videoCount) || 0,
-        thumbnailUrl: channelRaw.snippet.thumbnails.medium?.url || channelRaw.snippet.thumbnails.default?.url,
-        description: channelRaw.snippet.description || '',
+        title: channelRaw.snippet?.title || '',
+        handle: channelRaw.snippet?.customUrl || '',
+        subscriberCount: parseInt(channelRaw.statistics?.subscriberCount || '0') || 0,
+        videoCount: parseInt(channelRaw.statistics?.videoCount || '0') || 0,
+        thumbnailUrl: channelRaw.snippet?.thumbnails?.medium?.url || channelRaw.snippet?.thumbnails?.default?.url || '',
+        description: channelRaw.snippet?.description || '',
         topics: [],
         avgViews,
         uploadFrequency,
         topVideo,
+        contentScore: 0,
+        statScore: 0,
         similarityScore: 0
     };
 }
 
-async function extractKeywordsWithAI(channel: any, videos: any[]): Promise<string[]> {
-    const backendUrl = getBackendUrl();
-    const headers = getAuthHeaders() as Record<string, string>;
+/**
+ * Text compared for content similarity: description plus one recent title per line
+ */
+function channelDocument(channel: YouTubeChannelItem, items: YouTubePlaylistItem[]): string {
+    return [channel.snippet?.description || '', ...items.map(item => item.snippet.title)].join('\n');
+}
 
-    const videoTitles = videos.slice(0, 10).map((v: any) => v.snippet.title).join('\n- ');
+const channelKeywordsSchema = s.object({
+    keywords: s.array(s.string(), { min: 1 }),
+});
+
+async function extractKeywordsWithAI(channel: YouTubeChannelItem, videos: YouTubePlaylistItem[]): Promise<string[]> {
+    const videoTitles = videos.slice(0, 10).map(v => v.snippet.title).join('\n- ');
     const prompt = `Extract 5-7 core topic keywords from this YouTube channel:
 
-Channel: ${channel.snippet.title}
-Description: ${channel.snippet.description?.slice(0, 200) || 'N/A'}
+Channel: ${channel.snippet?.title || 'Unknown'}
+Description: ${channel.snippet?.description?.slice(0, 200) || 'N/A'}
 
 Recent videos:
 - ${videoTitles}
 
-Respond with ONLY a comma-separated list of keywords (no explanations, no formatting).
-Example: minecraft, survival, hardcore, challenge, gaming`;
+Example keywords: minecraft, survival, hardcore, challenge, gaming`;
 
-    try {
-        const response = await fetch(`${backendUrl}/api/gemini/generate`, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({ prompt })
-        });
+    const result = await generateStructured(prompt, channelKeywordsSchema);
+    if (result.ok) {
+        return result.data.keywords.map(k => k.trim()).filter(Boolean).slice(0, 7);
+    }
 
-        if (!response.ok) throw new Error('AI extraction failed');
-
-        const data = await response.json();
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-        return text.split(',').map((k: string) => k.trim()).filter(Boolean).slice(0, 7);
-    } catch (error) {
-        console.error('Keyword extraction failed:', error);
-        // Fallback: basic extraction
-        const words = new Set<string>();
-        videos.forEach((v: any) => {
-            v.snippet.title.toLowerCase().split(/\W+/).forEach((word: string) => {
-                if (word.length > 3) words.add(word);
-            });
+    console.error('Keyword extraction failed:', result.message, result.issues);
+    // Fallback: basic extraction
+    const words = new Set<string>();
+    videos.forEach(v => {
+        v.snippet.title.toLowerCase().split(/\W+/).forEach(word => {
+            if (word.length > 3) words.add(word);
         });
-        return Array.from(words).slice(0, 5);
-    }
+    });
+    return Array.from(words).slice(0, 5);
 }
 
+/**
+ * How alike two channels' numbers are (0-100): subscribers, upload frequency,
+ * average views and video count
+ */
 function calculateSimilarityScore(target: SimilarChannel, candidate: SimilarChannel): number {
     let score = 0;
 
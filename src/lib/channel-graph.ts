@@ -0,0 +1,177 @@
+/**
+ * Discovery graph for Channel Finder: starts from an analyzed channel and its
+ * similar channels, then grows as the user expands channels to find their neighbors.
+ * Graph updates return a new graph so it can live in React state.
+ */
+
+import {
+    ChannelAnalysis,
+    ChannelGraph,
+    ChannelGraphEdge,
+    ChannelCluster,
+    DiscoverySettings,
+    SimilarChannel,
+} from '@/types/channel';
+import { findChannelNeighbors, estimateNeighborSearchCost } from './channel-finder-api';
+import { getQuotaUsage } from './quota-ledger';
+
+export const DEFAULT_DISCOVERY_SETTINGS: DiscoverySettings = {
+    maxDepth: 3,
+    quotaBudget: 1500,
+};
+
+// Matches weaker than this don't add a channel or an edge
+const MIN_EDGE_SCORE = 35;
+const MAX_CLUSTER_ROUNDS = 20;
+
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * Add `neighbors` of `sourceId` one hop further out. Channels already in the graph
+ * only gain an edge; an existing edge keeps the stronger score.
+ */
+function addNeighbors(graph: ChannelGraph, sourceId: string, neighbors: SimilarChannel[]): ChannelGraph {
+    const depth = graph.nodes[sourceId].depth + 1;
+    const nodes = { ...graph.nodes };
+    const edges = new Map(graph.edges.map(edge => [edgeKey(edge.source, edge.target), edge]));
+
+    neighbors
+        .filter(neighbor => neighbor.similarityScore >= MIN_EDGE_SCORE && neighbor.id !== sourceId)
+        .forEach(neighbor => {
+            const existing = nodes[neighbor.id];
+            if (!existing) {
+                nodes[neighbor.id] = { channel: neighbor, depth, expanded: false, cluster: 0 };
+            } else if (existing.depth > depth) {
+                nodes[neighbor.id] = { ...existing, depth };
+            }
+
+            const key = edgeKey(sourceId, neighbor.id);
+            const previous = edges.get(key);
+            if (!previous || previous.score < neighbor.similarityScore) {
+                edges.set(key, { source: sourceId, target: neighbor.id, score: neighbor.similarityScore });
+            }
+        });
+
+    return { ...graph, nodes, edges: Array.from(edges.values()) };
+}
+
+/**
+ * Group channels with label propagation: each channel repeatedly takes the group
+ * its neighbors are most strongly connected to, until nothing changes.
+ * Each group is labelled with the topic most of its channels share.
+ */
+function assignClusters(graph: ChannelGraph): ChannelGraph {
+    const ids = Object.keys(graph.nodes).sort();
+    const adjacency = new Map<string, ChannelGraphEdge[]>(ids.map(id => [id, []]));
+    graph.edges.forEach(edge => {
+        adjacency.get(edge.source)?.push(edge);
+        adjacency.get(edge.target)?.push(edge);
+    });
+
+    const labels = new Map(ids.map(id => [id, id]));
+    for (let round = 0; round < MAX_CLUSTER_ROUNDS; round++) {
+        let changed = false;
+        ids.forEach(id => {
+            const weights = new Map<string, number>();
+            adjacency.get(id)!.forEach(edge => {
+                const other = edge.source === id ? edge.target : edge.source;
+                const label = labels.get(other)!;
+                weights.set(label, (weights.get(label) || 0) + edge.score);
+            });
+            if (weights.size === 0) return;
+
+            // Ties go to the smallest label so the result doesn't depend on timing
+            const [best] = Array.from(weights.entries())
+                .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+            if (best[0] !== labels.get(id)) {
+                labels.set(id, best[0]);
+                changed = true;
+            }
+        });
+        if (!changed) break;
+    }
+
+    const members = new Map<string, string[]>();
+    ids.forEach(id => {
+        const label = labels.get(id)!;
+        members.set(label, [...(members.get(label) || []), id]);
+    });
+    const groups = Array.from(members.values()).sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+
+    const usedLabels = new Set<string>();
+    const clusters: ChannelCluster[] = groups.map((group, index) => {
+        const topicCounts = new Map<string, number>();
+        group.forEach(id => graph.nodes[id].channel.topics.forEach(topic => {
+            topicCounts.set(topic, (topicCounts.get(topic) || 0) + 1);
+        }));
+        // Prefer a topic no bigger cluster is already named after
+        const topic = Array.from(topicCounts.entries())
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .map(([name]) => name)
+            .find(name => !usedLabels.has(name));
+        if (topic) usedLabels.add(topic);
+        return { label: topic || `Group ${index + 1}`, size: group.length };
+    });
+
+    const nodes = { ...graph.nodes };
+    groups.forEach((group, cluster) => group.forEach(id => {
+        nodes[id] = { ...nodes[id], cluster };
+    }));
+    return { ...graph, nodes, clusters };
+}
+
+/**
+ * Graph with the analyzed channel as its seed and its similar channels one hop out
+ */
+export function createChannelGraph(analysis: ChannelAnalysis): ChannelGraph {
+    const seed = analysis.targetChannel;
+    const graph: ChannelGraph = {
+        seedId: seed.id,
+        nodes: { [seed.id]: { channel: seed, depth: 0, expanded: true, cluster: 0 } },
+        edges: [],
+        clusters: [],
+        quotaSpent: 0,
+    };
+    return assignClusters(addNeighbors(graph, seed.id, analysis.similarChannels));
+}
+
+/**
+ * Why `nodeId` can't be expanded under these settings, or null when it can
+ */
+export function getExpandBlocker(graph: ChannelGraph, nodeId: string, settings: DiscoverySettings): string | null {
+    const node = graph.nodes[nodeId];
+    if (!node) return 'Channel is not in the graph';
+    if (node.expanded) return 'Already expanded';
+    if (node.depth >= settings.maxDepth) return `Depth limit reached (${settings.maxDepth} hops)`;
+    if (graph.quotaSpent + estimateNeighborSearchCost() > settings.quotaBudget) {
+        return `Discovery budget used up (${graph.quotaSpent}/${settings.quotaBudget} units)`;
+    }
+    return null;
+}
+
+/**
+ * Find the neighbors of `nodeId` and add them to the graph. Throws when the node
+ * can't be expanded, or QUOTA_BUDGET_EXCEEDED when the daily budget blocks it.
+ */
+export async function expandChannelNode(
+    graph: ChannelGraph,
+    nodeId: string,
+    settings: DiscoverySettings
+): Promise<ChannelGraph> {
+    const blocker = getExpandBlocker(graph, nodeId, settings);
+    if (blocker) throw new Error(blocker);
+
+    // Measured rather than estimated: cached responses cost nothing
+    const unitsBefore = getQuotaUsage().units;
+    const { channel, neighbors } = await findChannelNeighbors(nodeId);
+    const spent = Math.max(0, getQuotaUsage().units - unitsBefore);
+
+    const node = graph.nodes[nodeId];
+    const expanded: ChannelGraph = {
+        ...graph,
+        // The channel's own topics label clusters better than those shared with whoever found it
+        nodes: { ...graph.nodes, [nodeId]: { ...node, expanded: true, channel: { ...node.channel, topics: channel.topics } } },
+        quotaSpent: graph.quotaSpent + spent,
+    };
+    return assignClusters(addNeighbors(expanded, nodeId, neighbors));
+}
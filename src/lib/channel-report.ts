@@ -0,0 +1,237 @@
+/**
+ * Channel deep-dive: reads a channel's whole uploads playlist and works out what
+ * its best videos have in common (format, posting time, titles) and how it grew.
+ */
+
+import {
+    ChannelReport,
+    ChannelReportVideo,
+    FormatStats,
+    PostingSlot,
+    TitlePatterns,
+    TitleKeyword,
+    GrowthPoint,
+} from '@/types/channel';
+import type { YouTubePlaylistItem } from '@/types/youtube-api';
+import { getChannels, getPlaylistItems, getVideos, MAX_IDS_PER_REQUEST } from './youtube-client';
+import { assertQuotaBudget, QUOTA_COSTS } from './quota-ledger';
+import { resolveChannelId, getPlaylistVideoIds, calculateDetailedMetrics } from './channel-finder-api';
+import { parseISO8601Duration } from './youtube-api';
+import { isShortLength } from './video-filters';
+import { median } from './utils';
+import { tokenize } from './text-similarity';
+
+// Uploads read at most; channels beyond this are reported on their newest uploads
+export const MAX_REPORT_VIDEOS = 5000;
+// Channel size assumed for the cost estimate shown before the channel is known
+const TYPICAL_UPLOAD_COUNT = 500;
+const MAX_TITLE_KEYWORDS = 12;
+
+// Playlist pages (and video detail batches) needed for `uploadCount` uploads
+const reportPages = (uploadCount: number) => Math.ceil(Math.min(uploadCount, MAX_REPORT_VIDEOS) / MAX_IDS_PER_REQUEST);
+
+/**
+ * Quota units for a report on a channel with `uploadCount` videos: channel lookups
+ * plus one playlist page and one videos batch per 50 uploads
+ */
+export function estimateChannelReportCost(uploadCount = TYPICAL_UPLOAD_COUNT): number {
+    const pages = reportPages(uploadCount);
+    return QUOTA_COSTS.channels * 2 + pages * (QUOTA_COSTS.playlistItems + QUOTA_COSTS.videos);
+}
+
+/**
+ * API requests for the same report (two channel lookups, then a playlist page and a
+ * videos batch per 50 uploads), which count against the proxy's rate limits
+ */
+export function estimateChannelReportRequests(uploadCount = TYPICAL_UPLOAD_COUNT): number {
+    return 2 + reportPages(uploadCount) * 2;
+}
+
+async function fetchAllUploads(
+    playlistId: string,
+    limit: number,
+    onProgress?: (loaded: number) => void
+): Promise<{ items: YouTubePlaylistItem[]; truncated: boolean }> {
+    const items: YouTubePlaylistItem[] = [];
+    let pageToken: string | undefined;
+
+    do {
+        const page = await getPlaylistItems(playlistId, { maxResults: MAX_IDS_PER_REQUEST, pageToken });
+        items.push(...(page.items || []));
+        pageToken = page.nextPageToken;
+        onProgress?.(items.length);
+    } while (pageToken && items.length < limit);
+
+    return { items: items.slice(0, limit), truncated: !!pageToken || items.length > limit };
+}
+
+function formatStats(videos: ChannelReportVideo[], total: number): FormatStats {
+    const views = videos.map(v => v.views);
+    const totalViews = views.reduce((sum, v) => sum + v, 0);
+    return {
+        count: videos.length,
+        share: total > 0 ? videos.length / total : 0,
+        medianViews: median(views),
+        avgViews: videos.length > 0 ? Math.round(totalViews / videos.length) : 0,
+        totalViews,
+    };
+}
+
+function postingSlots(videos: ChannelReportVideo[], slotCount: number, slotOf: (date: Date) => number): PostingSlot[] {
+    const viewsBySlot: number[][] = Array.from({ length: slotCount }, () => []);
+    videos.forEach(v => viewsBySlot[slotOf(new Date(v.publishedAt))].push(v.views));
+    return viewsBySlot.map((views, slot) => ({ slot, uploads: views.length, medianViews: median(views) }));
+}
+
+const share = (titles: string[], test: (title: string) => boolean) =>
+    titles.length > 0 ? titles.filter(test).length / titles.length : 0;
+
+const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10 : 0;
+
+function titlePatterns(videos: ChannelReportVideo[]): TitlePatterns {
+    const byViews = [...videos].sort((a, b) => b.views - a.views);
+    const topCount = Math.max(1, Math.ceil(videos.length / 10));
+    const topTitles = byViews.slice(0, topCount).map(v => v.title);
+    const otherTitles = byViews.slice(topCount).map(v => v.title);
+
+    const hasNumber = (title: string) => /\d/.test(title);
+    const hasQuestion = (title: string) => title.includes('?');
+    const hasCaps = (title: string) => /\b[A-Z]{3,}\b/.test(title);
+    const wordCount = (title: string) => title.split(/\s+/).filter(Boolean).length;
+
+    // Document frequency: how many titles contain each word
+    const countWords = (titles: string[]) => {
+        const counts = new Map<string, number>();
+        titles.forEach(title => new Set(tokenize(title)).forEach(word => counts.set(word, (counts.get(word) || 0) + 1)));
+        return counts;
+    };
+    const topCounts = countWords(topTitles);
+    const allCounts = countWords(videos.map(v => v.title));
+
+    const keywords: TitleKeyword[] = Array.from(topCounts.entries())
+        // A word in a single top title is noise unless the top decile is tiny
+        .filter(([, count]) => count >= Math.min(2, topTitles.length))
+        .map(([keyword, count]) => ({
+            keyword,
+            count,
+            lift: Math.round(((count / topTitles.length) / ((allCounts.get(keyword) || count) / videos.length)) * 10) / 10,
+        }))
+        .filter(k => k.lift > 1 || topTitles.length === videos.length)
+        .sort((a, b) => b.lift - a.lift || b.count - a.count)
+        .slice(0, MAX_TITLE_KEYWORDS);
+
+    return {
+        topDecileMinViews: byViews[topCount - 1]?.views || 0,
+        topDecileAvgChars: average(topTitles.map(t => t.length)),
+        otherAvgChars: average(otherTitles.map(t => t.length)),
+        topDecileAvgWords: average(topTitles.map(wordCount)),
+        otherAvgWords: average(otherTitles.map(wordCount)),
+        topDecileWithNumber: share(topTitles, hasNumber),
+        otherWithNumber: share(otherTitles, hasNumber),
+        topDecileWithQuestion: share(topTitles, hasQuestion),
+        otherWithQuestion: share(otherTitles, hasQuestion),
+        topDecileWithCaps: share(topTitles, hasCaps),
+        otherWithCaps: share(otherTitles, hasCaps),
+        keywords,
+    };
+}
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Uploads and views per calendar month, oldest first, including months without uploads.
+ * Views are today's lifetime views of that month's uploads.
+ */
+function growthByMonth(videos: ChannelReportVideo[]): GrowthPoint[] {
+    if (videos.length === 0) return [];
+    const viewsByMonth = new Map<string, number[]>();
+    videos.forEach(v => {
+        const key = monthKey(new Date(v.publishedAt));
+        if (!viewsByMonth.has(key)) viewsByMonth.set(key, []);
+        viewsByMonth.get(key)!.push(v.views);
+    });
+
+    const times = videos.map(v => new Date(v.publishedAt).getTime());
+    const cursor = new Date(Math.min(...times));
+    cursor.setDate(1);
+    const last = monthKey(new Date(Math.max(...times)));
+
+    const points: GrowthPoint[] = [];
+    for (; ;) {
+        const key = monthKey(cursor);
+        const views = viewsByMonth.get(key) || [];
+        points.push({
+            month: key,
+            uploads: views.length,
+            totalViews: views.reduce((sum, v) => sum + v, 0),
+            medianViews: median(views),
+        });
+        if (key === last) break;
+        cursor.setMonth(cursor.getMonth() + 1);
+    }
+    return points;
+}
+
+/**
+ * Build the deep-dive report. Throws QUOTA_BUDGET_EXCEEDED when reading this
+ * channel's uploads would go over a blocking daily budget.
+ */
+export async function buildChannelReport(
+    channelIdOrHandle: string,
+    onProgress?: (loaded: number, total: number) => void
+): Promise<ChannelReport> {
+    const channelId = await resolveChannelId(channelIdOrHandle);
+    const [channel] = await getChannels([channelId], 'snippet,statistics,contentDetails');
+    if (!channel) throw new Error('Channel details not found');
+
+    const uploadCount = parseInt(channel.statistics?.videoCount || '0') || 0;
+    // The channel lookups are already spent; check what reading the uploads will cost
+    assertQuotaBudget(estimateChannelReportCost(uploadCount) - QUOTA_COSTS.channels * 2);
+
+    const uploadsPlaylistId = channel.contentDetails?.relatedPlaylists.uploads;
+    const total = Math.min(uploadCount, MAX_REPORT_VIDEOS);
+    const { items, truncated } = uploadsPlaylistId
+        ? await fetchAllUploads(uploadsPlaylistId, MAX_REPORT_VIDEOS, loaded => onProgress?.(loaded, total))
+        : { items: [], truncated: false };
+
+    // Private and deleted uploads stay in the playlist but have no video details
+    const details = await getVideos(getPlaylistVideoIds(items), 'snippet,statistics,contentDetails');
+    const channelMedian = median(details.map(v => parseInt(v.statistics.viewCount || '0')));
+
+    const videos: ChannelReportVideo[] = details
+        .map(item => {
+            const views = parseInt(item.statistics.viewCount || '0');
+            const lengthSeconds = parseISO8601Duration(item.contentDetails?.duration || '');
+            return {
+                id: item.id,
+                title: item.snippet.title,
+                publishedAt: item.snippet.publishedAt,
+                thumbnailUrl: item.snippet.thumbnails?.medium?.url || item.snippet.thumbnails?.default?.url || '',
+                views,
+                likes: parseInt(item.statistics.likeCount || '0'),
+                comments: parseInt(item.statistics.commentCount || '0'),
+                lengthSeconds,
+                // A zero length means the duration was missing
+                isShort: lengthSeconds > 0 && isShortLength(lengthSeconds),
+                outlierMultiplier: channelMedian > 0 ? Math.round((views / channelMedian) * 100) / 100 : 0,
+            };
+        })
+        .sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+
+    return {
+        channel: await calculateDetailedMetrics(channel, items, details),
+        generatedAt: new Date().toISOString(),
+        videos,
+        truncated,
+        medianViews: channelMedian,
+        formats: {
+            shorts: formatStats(videos.filter(v => v.isShort), videos.length),
+            longForm: formatStats(videos.filter(v => !v.isShort), videos.length),
+        },
+        weekdays: postingSlots(videos, 7, date => date.getDay()),
+        hours: postingSlots(videos, 24, date => date.getHours()),
+        titles: titlePatterns(videos),
+        growth: growthByMonth(videos),
+    };
+}
@@ -0,0 +1,220 @@
+/**
+ * Competitor tracking: a feed of recent uploads from pinned channels, each scored
+ * and compared with its channel's median views. The feed is stored on this device
+ * and merged on every refresh, so uploads already in it are remembered as seen.
+ */
+
+import { CompetitorChannel, CompetitorFeedSettings, CompetitorUpload } from '@/types/competitor';
+import type { ChannelBaseline } from '@/types/channel';
+import type { ScoringProfile } from '@/types/scoring';
+import { getCollection } from './local-db';
+import { getChannels, getPlaylistItems, getVideos, MAX_IDS_PER_REQUEST } from './youtube-client';
+import { assertQuotaBudget, QUOTA_COSTS } from './quota-ledger';
+import { getChannelBaselines, estimateBaselineCost } from './channel-baselines';
+import { parseISO8601Duration } from './youtube-api';
+import { enrichVideo, calculateSnapshotVelocity } from './viral-score';
+import { toStoredVideo } from './idea-store';
+import { logger } from './logger';
+
+export const COMPETITOR_INTERVAL_OPTIONS = [6, 12, 24];
+export const MAX_COMPETITORS = 25;
+export const DEFAULT_COMPETITOR_FEED_SETTINGS: CompetitorFeedSettings = {
+    autoRefresh: true,
+    intervalHours: 12,
+    minOutlierMultiplier: 2,
+};
+
+// Fired on this window after every write so open feeds reload
+export const COMPETITOR_FEED_CHANGED_EVENT = 'viralvision:competitor-feed-changed';
+
+// Recent uploads read per channel on each refresh
+const UPLOADS_PER_CHANNEL = 10;
+// Older uploads beyond this are dropped from the feed
+const MAX_FEED_UPLOADS = 300;
+
+const uploads = () => getCollection<CompetitorUpload>('competitor-uploads', item => item.videoId);
+
+const notifyChanged = () => window.dispatchEvent(new Event(COMPETITOR_FEED_CHANGED_EVENT));
+
+/**
+ * Quota units for one refresh of `channelCount` channels (less when their baselines are stored)
+ */
+export function estimateCompetitorFeedCost(channelCount: number): number {
+    return Math.ceil(channelCount / MAX_IDS_PER_REQUEST) * QUOTA_COSTS.channels +
+        channelCount * QUOTA_COSTS.playlistItems +
+        Math.ceil((channelCount * UPLOADS_PER_CHANNEL) / MAX_IDS_PER_REQUEST) * QUOTA_COSTS.videos +
+        estimateBaselineCost(channelCount);
+}
+
+/**
+ * When the feed should refresh next (immediately if it has never run)
+ */
+export function getNextFeedRefreshTime(settings: CompetitorFeedSettings): number {
+    // Failed attempts also wait a full interval, as watchlists do
+    const last = settings.lastCheckedAt || settings.lastRunAt;
+    if (!last) return Date.now();
+    return new Date(last).getTime() + settings.intervalHours * 60 * 60 * 1000;
+}
+
+export function isFeedRefreshDue(settings: CompetitorFeedSettings, channelCount: number, now = Date.now()): boolean {
+    return settings.autoRefresh && channelCount > 0 && getNextFeedRefreshTime(settings) <= now;
+}
+
+/**
+ * Whether an upload's views are far enough above its channel's median to flag it
+ */
+export function isOutperforming(upload: CompetitorUpload, settings: CompetitorFeedSettings): boolean {
+    return (upload.video.outlierMultiplier ?? 0) >= settings.minOutlierMultiplier;
+}
+
+/**
+ * Stored uploads, newest first
+ */
+export async function getCompetitorFeed(): Promise<CompetitorUpload[]> {
+    const all = await uploads().getAll();
+    return all.sort((a, b) => b.video.publishedAt.localeCompare(a.video.publishedAt));
+}
+
+/**
+ * Mark the given uploads (or all of them) as seen
+ */
+export async function markCompetitorUploadsSeen(videoIds?: string[]): Promise<void> {
+    const all = await uploads().getAll();
+    const changed = all
+        .filter(upload => !upload.seen && (!videoIds || videoIds.includes(upload.videoId)))
+        .map(upload => ({ ...upload, seen: true }));
+    if (changed.length === 0) return;
+    await uploads().putMany(changed);
+    notifyChanged();
+}
+
+/**
+ * Drop a channel's uploads, e.g. after it is unpinned
+ */
+export async function removeCompetitorUploads(channelId: string): Promise<void> {
+    const all = await uploads().getAll();
+    const owned = all.filter(upload => upload.channelId === channelId);
+    for (const upload of owned) {
+        await uploads().delete(upload.videoId);
+    }
+    if (owned.length > 0) notifyChanged();
+}
+
+/**
+ * Fetch recent uploads of every pinned channel, score them with `profile` and merge
+ * them into the stored feed. Returns the channels with fresh names and thumbnails,
+ * and the uploads that weren't in the feed before. Errors propagate to the caller.
+ */
+export async function refreshCompetitorFeed(
+    channels: CompetitorChannel[],
+    profile: ScoringProfile
+): Promise<{ channels: CompetitorChannel[]; newUploads: CompetitorUpload[] }> {
+    if (channels.length === 0) return { channels, newUploads: [] };
+    assertQuotaBudget(estimateCompetitorFeedCost(channels.length));
+
+    // Always fetch fresh data; cached pages would hide anything new
+    const options = { bypassCache: true };
+    const channelItems = await getChannels(channels.map(c => c.channelId), 'snippet,statistics,contentDetails', options);
+
+    const uploadIds = (await Promise.all(channelItems.map(async channel => {
+        const playlistId = channel.contentDetails?.relatedPlaylists.uploads;
+        if (!playlistId) return [];
+        try {
+            const page = await getPlaylistItems(playlistId, { part: 'contentDetails', maxResults: UPLOADS_PER_CHANNEL }, options);
+            return (page.items || []).map(item => item.contentDetails?.videoId).filter((id): id is string => !!id);
+        } catch (error) {
+            if (error instanceof Error && ['QUOTA_EXCEEDED', 'RATE_LIMIT'].includes(error.message)) throw error;
+            // A channel with hidden uploads just contributes nothing this time
+            logger.warn(`Could not read uploads for competitor ${channel.id}:`, error);
+            return [];
+        }
+    }))).flat();
+
+    const videoItems = await getVideos(uploadIds, 'statistics,snippet,contentDetails', options);
+
+    // Baselines are reused for a day, so only newly pinned channels cost anything here
+    const baselines = await getChannelBaselines(
+        channelItems.map(channel => ({
+            channelId: channel.id,
+            uploadsPlaylistId: channel.contentDetails?.relatedPlaylists.uploads,
+        }))
+    ).catch(error => {
+        logger.warn('Could not load competitor baselines:', error);
+        return new Map<string, ChannelBaseline>();
+    });
+
+    const subscribers = new Map(channelItems.map(c => [c.id, parseInt(c.statistics?.subscriberCount || '0')]));
+    const stored = new Map((await uploads().getAll()).map(upload => [upload.videoId, upload]));
+    const channelsWithHistory = new Set(Array.from(stored.values()).map(upload => upload.channelId));
+    const now = new Date();
+
+    const merged: CompetitorUpload[] = videoItems.map(item => {
+        const previous = stored.get(item.id);
+        const rawVideo = {
+            id: item.id,
+            title: item.snippet.title,
+            channelId: item.snippet.channelId,
+            channelName: item.snippet.channelTitle,
+            subscriberCount: subscribers.get(item.snippet.channelId) || 0,
+            views: parseInt(item.statistics.viewCount || '0'),
+            likes: parseInt(item.statistics.likeCount || '0'),
+            comments: parseInt(item.statistics.commentCount || '0'),
+            shares: 0,
+            lengthSeconds: parseISO8601Duration(item.contentDetails.duration),
+            publishedAt: new Date(item.snippet.publishedAt),
+            fetchedAt: now,
+            channelMedianViews: baselines.get(item.snippet.channelId)?.medianViews,
+        };
+        // The previous refresh doubles as a snapshot, so velocity is measured rather than estimated
+        const velocity = previous
+            ? calculateSnapshotVelocity(rawVideo, [{
+                fetchedAt: previous.video.fetchedAt,
+                views: previous.video.views,
+                likes: previous.video.likes,
+                comments: previous.video.comments,
+                subscriberCount: previous.video.subscriberCount,
+                viralScore: previous.video.viralScore,
+            }]) ?? undefined
+            : undefined;
+        const video = enrichVideo({ ...rawVideo, velocity }, profile);
+
+        return {
+            videoId: item.id,
+            channelId: item.snippet.channelId,
+            video: toStoredVideo(video),
+            firstSeenAt: previous?.firstSeenAt || now.toISOString(),
+            seen: previous ? previous.seen : !channelsWithHistory.has(item.snippet.channelId),
+        };
+    });
+
+    const collection = uploads();
+    await collection.putMany(merged);
+
+    // Keep the newest uploads of channels that are still pinned
+    const pinned = new Set(channels.map(c => c.channelId));
+    const all = await collection.getAll();
+    const keep = new Set(all
+        .filter(upload => pinned.has(upload.channelId))
+        .sort((a, b) => b.video.publishedAt.localeCompare(a.video.publishedAt))
+        .slice(0, MAX_FEED_UPLOADS)
+        .map(upload => upload.videoId));
+    for (const upload of all) {
+        if (!keep.has(upload.videoId)) await collection.delete(upload.videoId);
+    }
+    notifyChanged();
+
+    const updatedChannels = channels.map(channel => {
+        const item = channelItems.find(c => c.id === channel.channelId);
+        if (!item?.snippet) return channel;
+        return {
+            ...channel,
+            channelName: item.snippet.title,
+            thumbnailUrl: item.snippet.thumbnails?.medium?.url || item.snippet.thumbnails?.default?.url || channel.thumbnailUrl,
+        };
+    });
+
+    return {
+        channels: updatedChannels,
+        newUploads: merged.filter(upload => !stored.has(upload.videoId) && !upload.seen),
+    };
+}
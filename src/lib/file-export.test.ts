@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { escapeCsvCell, rowsToCsv } from './file-export';
+
+describe('escapeCsvCell', () => {
+    it('leaves plain text and numbers alone', () => {
+        expect(escapeCsvCell('Budget travel tips')).toBe('Budget travel tips');
+        expect(escapeCsvCell(-12.5)).toBe('-12.5');
+        expect(escapeCsvCell(null)).toBe('');
+    });
+
+    it('quotes separators, quotes and line breaks', () => {
+        expect(escapeCsvCell('a, b')).toBe('"a, b"');
+        expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""');
+        expect(escapeCsvCell('line\nbreak')).toBe('"line\nbreak"');
+    });
+
+    it('neutralizes text a spreadsheet would run as a formula', () => {
+        expect(escapeCsvCell('=HYPERLINK("http://evil.example","click")')).toBe('"\'=HYPERLINK(""http://evil.example"",""click"")"');
+        expect(escapeCsvCell('+1 trick')).toBe("'+1 trick");
+        expect(escapeCsvCell('-2 hacks')).toBe("'-2 hacks");
+        expect(escapeCsvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+        expect(escapeCsvCell('\tcmd')).toBe("'\tcmd");
+        expect(escapeCsvCell('\rcmd')).toBe('"\'\rcmd"');
+    });
+
+    it('neutralizes every cell of a row', () => {
+        expect(rowsToCsv([['=1+1', 'ok', 3]])).toBe("'=1+1,ok,3");
+    });
+});
@@ -1,47 +1,7 @@
 import { Video } from '@/types/video';
-import { getBackendUrl, getAuthHeaders } from './api-config';
+import { generateText } from './ai-providers';
 import { logger } from './logger';
 
-interface GeminiResponse {
-    candidates: Array<{
-        content: {
-            parts: Array<{
-                text: string;
-            }>;
-        };
-    }>;
-}
-
-/**
- * Call Gemini API with a prompt
- */
-async function callGeminiAPI(prompt: string, enableSearch: boolean = false): Promise<string> {
-    const backendUrl = getBackendUrl();
-
-    try {
-        const response = await fetch(`${backendUrl}/api/gemini/generate`, {
-            method: 'POST',
-            headers: getAuthHeaders(), // Includes Content-Type and custom keys
-            body: JSON.stringify({ prompt, enableSearch })
-        });
-
-        if (!response.ok) {
-            if (response.status === 429) {
-                throw new Error('RATE_LIMIT');
-            }
-            const errorData = await response.json().catch(() => ({}));
-            const errorMessage = errorData.error || response.statusText;
-            throw new Error(`Gemini API error (${response.status}): ${errorMessage}`);
-        }
-
-        const data: GeminiResponse = await response.json();
-        return data.candidates[0].content.parts[0].text.trim();
-    } catch (error) {
-        logger.error('Gemini API error:', error);
-        throw error;
-    }
-}
-
 /**
  * Infer niche from channel metadata
  */
@@ -57,7 +17,7 @@ Infer the primary content niche in 2-4 words (e.g., "Fortnite montages", "Cookin
 Respond with ONLY the niche name.`;
 
     try {
-        const niche = await callGeminiAPI(prompt, false); // No search needed, we have context
+        const niche = await generateText(prompt); // No search needed, we have context
         return niche;
     } catch (error) {
         throw error;
@@ -85,7 +45,7 @@ Format:
 Keep it under 40 words. Be specific and actionable.`;
 
     try {
-        const idea = await callGeminiAPI(prompt, false);
+        const idea = await generateText(prompt);
         return idea;
     } catch (error) {
         logger.warn('Could not generate video idea:', error);
@@ -114,7 +74,7 @@ Format:
 • [reason 3]`;
 
     try {
-        const explanation = await callGeminiAPI(prompt, false);
+        const explanation = await generateText(prompt);
         return explanation;
     } catch (error) {
         logger.warn('Could not generate explanation:', error);
@@ -0,0 +1,112 @@
+/**
+ * Force-directed layout (Fruchterman-Reingold) for small graphs of up to a few
+ * hundred nodes. Linked nodes pull together, all nodes push apart.
+ */
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface LayoutEdge {
+    source: string;
+    target: string;
+    // Relative pull, 0-1
+    weight: number;
+}
+
+export const LAYOUT_WIDTH = 1000;
+export const LAYOUT_HEIGHT = 700;
+const ITERATIONS = 300;
+const PADDING = 40;
+
+// Stable pseudo-random offset per id, so the same graph always lays out the same way
+function hashUnit(id: string, salt: number): number {
+    let hash = 2166136261 ^ salt;
+    for (let i = 0; i < id.length; i++) {
+        hash = Math.imul(hash ^ id.charCodeAt(i), 16777619);
+    }
+    return ((hash >>> 0) % 10000) / 10000;
+}
+
+/**
+ * Positions for every node. Nodes in `previous` start where they were, so expanding
+ * the graph doesn't reshuffle it; new nodes start near the node in `anchors`.
+ */
+export function layoutGraph(
+    nodeIds: string[],
+    edges: LayoutEdge[],
+    previous: Record<string, Point> = {},
+    anchors: Record<string, string> = {}
+): Record<string, Point> {
+    const area = LAYOUT_WIDTH * LAYOUT_HEIGHT;
+    const k = Math.sqrt(area / Math.max(nodeIds.length, 1)) * 0.6;
+
+    const positions = new Map<string, Point>();
+    nodeIds.forEach(id => {
+        const own = previous[id];
+        const anchor = previous[anchors[id]];
+        positions.set(id, own ? { ...own } : {
+            x: (anchor?.x ?? LAYOUT_WIDTH / 2) + (hashUnit(id, 1) - 0.5) * k,
+            y: (anchor?.y ?? LAYOUT_HEIGHT / 2) + (hashUnit(id, 2) - 0.5) * k,
+        });
+    });
+
+    // Settled graphs need less movement than fresh ones
+    const settled = nodeIds.filter(id => previous[id]).length / Math.max(nodeIds.length, 1);
+    let temperature = LAYOUT_WIDTH / (settled > 0.5 ? 30 : 10);
+    const cooling = temperature / ITERATIONS;
+
+    for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+        const displacement = new Map(nodeIds.map(id => [id, { x: 0, y: 0 }]));
+
+        // Repulsion between every pair
+        for (let i = 0; i < nodeIds.length; i++) {
+            const a = positions.get(nodeIds[i])!;
+            for (let j = i + 1; j < nodeIds.length; j++) {
+                const b = positions.get(nodeIds[j])!;
+                const dx = a.x - b.x;
+                const dy = a.y - b.y;
+                const distance = Math.max(Math.hypot(dx, dy), 0.01);
+                const force = (k * k) / distance;
+                const da = displacement.get(nodeIds[i])!;
+                const db = displacement.get(nodeIds[j])!;
+                da.x += (dx / distance) * force;
+                da.y += (dy / distance) * force;
+                db.x -= (dx / distance) * force;
+                db.y -= (dy / distance) * force;
+            }
+        }
+
+        // Attraction along edges
+        edges.forEach(edge => {
+            const a = positions.get(edge.source);
+            const b = positions.get(edge.target);
+            if (!a || !b) return;
+            const dx = a.x - b.x;
+            const dy = a.y - b.y;
+            const distance = Math.max(Math.hypot(dx, dy), 0.01);
+            const force = ((distance * distance) / k) * (0.5 + edge.weight);
+            const da = displacement.get(edge.source)!;
+            const db = displacement.get(edge.target)!;
+            da.x -= (dx / distance) * force;
+            da.y -= (dy / distance) * force;
+            db.x += (dx / distance) * force;
+            db.y += (dy / distance) * force;
+        });
+
+        // Move each node at most `temperature`, staying inside the canvas
+        nodeIds.forEach(id => {
+            const d = displacement.get(id)!;
+            const length = Math.max(Math.hypot(d.x, d.y), 0.01);
+            const step = Math.min(length, temperature);
+            const p = positions.get(id)!;
+            p.x = Math.min(LAYOUT_WIDTH - PADDING, Math.max(PADDING, p.x + (d.x / length) * step));
+            p.y = Math.min(LAYOUT_HEIGHT - PADDING, Math.max(PADDING, p.y + (d.y / length) * step));
+        });
+
+        temperature = Math.max(temperature - cooling, 1);
+    }
+
+    return Object.fromEntries(positions);
+}
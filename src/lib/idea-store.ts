@@ -0,0 +1,205 @@
+import { Video, SavedIdea } from '@/types/video';
+import { Idea, IdeaBoard, IdeaStatus, IdeaSort, StoredVideo } from '@/types/ideas';
+import { getCollection } from './local-db';
+
+export const IDEA_STATUSES: { id: IdeaStatus; label: string }[] = [
+    { id: 'idea', label: 'Idea' },
+    { id: 'scripted', label: 'Scripted' },
+    { id: 'filmed', label: 'Filmed' },
+    { id: 'published', label: 'Published' },
+];
+
+// Fired on this window after every write so open workspaces refresh
+export const IDEAS_CHANGED_EVENT = 'viralvision:ideas-changed';
+
+const ideas = () => getCollection<Idea>('ideas', item => item.id);
+const boards = () => getCollection<IdeaBoard>('idea-boards', item => item.id);
+
+const notifyChanged = () => window.dispatchEvent(new Event(IDEAS_CHANGED_EVENT));
+
+export function toStoredVideo(video: Video): StoredVideo {
+    return {
+        ...video,
+        publishedAt: new Date(video.publishedAt).toISOString(),
+        fetchedAt: new Date(video.fetchedAt).toISOString(),
+    };
+}
+
+export function toVideo(video: StoredVideo): Video {
+    return {
+        ...video,
+        publishedAt: new Date(video.publishedAt),
+        fetchedAt: new Date(video.fetchedAt),
+    };
+}
+
+/**
+ * Normalize a tag so "Tutorial " and "tutorial" are the same tag
+ */
+export function normalizeTag(tag: string): string {
+    return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function getIdeas(): Promise<Idea[]> {
+    return ideas().getAll();
+}
+
+export function getBoards(): Promise<IdeaBoard[]> {
+    return boards().getAll();
+}
+
+export async function saveIdea(
+    video: Video,
+    boardId: string | null = null
+): Promise<{ success: boolean; message?: string }> {
+    if (await ideas().get(video.id)) {
+        return { success: false, message: 'This video is already saved' };
+    }
+
+    const now = new Date().toISOString();
+    await ideas().putMany([{
+        id: video.id,
+        video: toStoredVideo(video),
+        boardId,
+        tags: [],
+        note: '',
+        status: 'idea',
+        savedAt: now,
+        updatedAt: now,
+    }]);
+    notifyChanged();
+    return { success: true };
+}
+
+export async function updateIdea(id: string, changes: Partial<Omit<Idea, 'id' | 'video' | 'savedAt'>>): Promise<void> {
+    const existing = await ideas().get(id);
+    if (!existing) return;
+
+    const tags = changes.tags
+        ? Array.from(new Set(changes.tags.map(normalizeTag).filter(Boolean)))
+        : existing.tags;
+
+    await ideas().putMany([{ ...existing, ...changes, tags, updatedAt: new Date().toISOString() }]);
+    notifyChanged();
+}
+
+export async function removeIdea(id: string): Promise<void> {
+    await ideas().delete(id);
+    notifyChanged();
+}
+
+export async function clearIdeas(): Promise<void> {
+    await ideas().clear();
+    notifyChanged();
+}
+
+export async function createBoard(name: string): Promise<IdeaBoard> {
+    const board = {
+        id: `board-${Date.now().toString(36)}`,
+        name: name.trim(),
+        createdAt: new Date().toISOString(),
+    };
+    await boards().putMany([board]);
+    notifyChanged();
+    return board;
+}
+
+export async function renameBoard(id: string, name: string): Promise<void> {
+    const existing = await boards().get(id);
+    if (!existing || !name.trim()) return;
+    await boards().putMany([{ ...existing, name: name.trim() }]);
+    notifyChanged();
+}
+
+/**
+ * Delete a board; its ideas are kept and become unsorted
+ */
+export async function deleteBoard(id: string): Promise<void> {
+    const onBoard = (await getIdeas()).filter(idea => idea.boardId === id);
+    if (onBoard.length > 0) {
+        await ideas().putMany(onBoard.map(idea => ({ ...idea, boardId: null })));
+    }
+    await boards().delete(id);
+    notifyChanged();
+}
+
+/**
+ * Convert an idea saved before the workspace existed into a workspace idea with no board
+ */
+export function fromLegacyIdea(saved: SavedIdea): Idea {
+    const savedAt = new Date(saved.savedAt || Date.now()).toISOString();
+    return {
+        id: saved.video.id,
+        video: toStoredVideo(saved.video),
+        boardId: null,
+        tags: [],
+        note: saved.note || '',
+        status: 'idea',
+        savedAt,
+        updatedAt: savedAt,
+    };
+}
+
+/**
+ * Move ideas saved before the workspace existed (capped at 50 in localStorage)
+ * into the ideas store. Ideas already in the store are left as they are.
+ */
+export async function importLegacyIdeas(legacy: SavedIdea[]): Promise<number> {
+    if (legacy.length === 0) return 0;
+
+    const existingIds = new Set((await getIdeas()).map(idea => idea.id));
+    const imported = legacy
+        .filter(saved => saved.video?.id && !existingIds.has(saved.video.id))
+        .map(fromLegacyIdea);
+
+    if (imported.length > 0) await putIdeas(imported);
+    return imported.length;
+}
+
+/**
+ * Write whole ideas as they are (used by import)
+ */
+export async function putIdeas(items: Idea[]): Promise<void> {
+    await ideas().putMany(items);
+    notifyChanged();
+}
+
+export async function putBoards(items: IdeaBoard[]): Promise<void> {
+    await boards().putMany(items);
+    notifyChanged();
+}
+
+export interface IdeaQuery {
+    search?: string;
+    boardId?: string | null | 'all'; // null = unsorted ideas only
+    status?: IdeaStatus | 'all';
+    tag?: string | null;
+    sort?: IdeaSort;
+}
+
+/**
+ * Filter and sort ideas for the workspace view
+ */
+export function queryIdeas(list: Idea[], query: IdeaQuery): Idea[] {
+    const { search = '', boardId = 'all', status = 'all', tag = null, sort = 'saved' } = query;
+    const needle = search.trim().toLowerCase();
+
+    const matches = list.filter(idea => {
+        if (boardId !== 'all' && idea.boardId !== boardId) return false;
+        if (status !== 'all' && idea.status !== status) return false;
+        if (tag && !idea.tags.includes(tag)) return false;
+        if (needle) {
+            const haystack = [idea.video.title, idea.video.channelName, idea.note, ...idea.tags].join(' ').toLowerCase();
+            if (!haystack.includes(needle)) return false;
+        }
+        return true;
+    });
+
+    const sorters: Record<IdeaSort, (a: Idea, b: Idea) => number> = {
+        saved: (a, b) => b.savedAt.localeCompare(a.savedAt),
+        updated: (a, b) => b.updatedAt.localeCompare(a.updatedAt),
+        viralScore: (a, b) => b.video.viralScore - a.video.viralScore,
+        views: (a, b) => b.video.views - a.video.views,
+    };
+    return [...matches].sort(sorters[sort]);
+}
@@ -0,0 +1,134 @@
+/**
+ * Groups a keyword list into topic clusters by the words and word pairs they share
+ * ("minecraft survival house", "minecraft survival tips" -> "survival"), and turns
+ * each cluster into a content plan: one broad pillar video plus supporting videos.
+ */
+
+import { extractTerms, tokenize } from './text-similarity';
+import type { KeywordAnalysis } from './keyword-research-api';
+
+export interface KeywordCluster {
+    label: string; // The shared words as written in the keywords, or 'Other' for keywords that fit nowhere
+    keywords: string[]; // Most prominent first
+    pillar: string; // Broad keyword for the main video
+    supporting: string[]; // Narrower keywords for follow-up videos
+    measured: KeywordAnalysis[]; // Keywords of this cluster that were measured on YouTube
+    opportunityScore: number | null; // Average of the measured keywords; null when none were
+}
+
+export const OTHER_CLUSTER_LABEL = 'Other';
+const MIN_CLUSTER_SIZE = 2;
+const MAX_CLUSTERS = 20;
+const MAX_SUPPORTING = 5;
+
+/**
+ * Cluster `keywords` (most prominent first) around terms they share besides the topic itself.
+ * Pair terms count double so "survival house" wins over "house" when both fit.
+ */
+export function clusterKeywords(topic: string, keywords: string[]): KeywordCluster[] {
+    const topicWords = new Set(extractTerms(topic).filter(term => !term.includes(' ')));
+    const termsByKeyword = new Map(keywords.map(keyword => [
+        keyword,
+        new Set(extractTerms(keyword).filter(term => !term.split(' ').some(word => topicWords.has(word)))),
+    ]));
+
+    const frequency = new Map<string, number>();
+    termsByKeyword.forEach(terms => terms.forEach(term => frequency.set(term, (frequency.get(term) || 0) + 1)));
+    const candidates = Array.from(frequency.entries())
+        .filter(([, count]) => count >= MIN_CLUSTER_SIZE)
+        .map(([term, count]) => ({ term, score: count * term.split(' ').length }))
+        .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term));
+
+    const assigned = new Set<string>();
+    const clusters: KeywordCluster[] = [];
+    for (const { term } of candidates) {
+        if (clusters.length >= MAX_CLUSTERS) break;
+        const members = keywords.filter(keyword => !assigned.has(keyword) && termsByKeyword.get(keyword)!.has(term));
+        if (members.length < MIN_CLUSTER_SIZE) continue;
+        members.forEach(keyword => assigned.add(keyword));
+        clusters.push(buildCluster(displayTerm(term, members[0]), members));
+    }
+
+    const rest = keywords.filter(keyword => !assigned.has(keyword));
+    if (rest.length > 0) clusters.push(buildCluster(OTHER_CLUSTER_LABEL, rest));
+    return clusters;
+}
+
+/**
+ * Terms are stemmed ("tutori"), so show the words they came from in `keyword`
+ */
+function displayTerm(term: string, keyword: string): string {
+    const words = tokenize(keyword);
+    const stems = words.map(word => extractTerms(word)[0]);
+    const length = term.split(' ').length;
+    for (let i = 0; i + length <= words.length; i++) {
+        if (stems.slice(i, i + length).join(' ') === term) return words.slice(i, i + length).join(' ');
+    }
+    return term;
+}
+
+function buildCluster(label: string, keywords: string[]): KeywordCluster {
+    // The pillar is the broadest phrasing: among the five most prominent, the fewest words
+    const pillar = keywords.slice(0, 5).reduce((best, keyword) =>
+        keyword.split(' ').length < best.split(' ').length ? keyword : best
+    );
+    return {
+        label,
+        keywords,
+        pillar,
+        supporting: keywords.filter(keyword => keyword !== pillar).slice(0, MAX_SUPPORTING),
+        measured: [],
+        opportunityScore: null,
+    };
+}
+
+/**
+ * Which keywords to measure so the biggest clusters each get a score: every cluster's
+ * pillar in turn, then the most prominent keywords left over
+ */
+export function pickKeywordsToMeasure(clusters: KeywordCluster[], keywords: string[], count: number): string[] {
+    const picked = clusters
+        .filter(cluster => cluster.label !== OTHER_CLUSTER_LABEL)
+        .map(cluster => cluster.pillar)
+        .slice(0, count);
+    keywords.forEach(keyword => {
+        if (picked.length < count && !picked.includes(keyword)) picked.push(keyword);
+    });
+    return picked;
+}
+
+/**
+ * Attach measured keywords to their clusters and order the plan by opportunity,
+ * clusters without a measurement last (by size)
+ */
+export function scoreClusters(clusters: KeywordCluster[], analyses: KeywordAnalysis[]): KeywordCluster[] {
+    return clusters
+        .map(cluster => {
+            const measured = analyses.filter(a => cluster.keywords.includes(a.keyword));
+            const opportunityScore = measured.length > 0
+                ? Math.round(measured.reduce((sum, a) => sum + a.opportunityScore, 0) / measured.length)
+                : null;
+            return { ...cluster, measured, opportunityScore };
+        })
+        .sort((a, b) => {
+            if (a.label === OTHER_CLUSTER_LABEL || b.label === OTHER_CLUSTER_LABEL) {
+                return a.label === OTHER_CLUSTER_LABEL ? 1 : -1;
+            }
+            return (b.opportunityScore ?? -1) - (a.opportunityScore ?? -1) || b.keywords.length - a.keywords.length;
+        });
+}
+
+/**
+ * The plan as plain text, one cluster per block
+ */
+export function formatContentPlan(topic: string, clusters: KeywordCluster[]): string {
+    return [`Content plan: ${topic}`, ...clusters
+        .filter(cluster => cluster.label !== OTHER_CLUSTER_LABEL)
+        .map(cluster => [
+            '',
+            `## ${cluster.label} (${cluster.keywords.length} keywords${cluster.opportunityScore !== null ? `, opportunity ${cluster.opportunityScore}/100` : ''})`,
+            `Pillar: ${cluster.pillar}`,
+            ...cluster.supporting.map(keyword => `- ${keyword}`),
+        ].join('\n')),
+    ].join('\n');
+}
@@ -1,124 +1,342 @@
-import { getBackendUrl, getAuthHeaders } from './api-config';
+import type { WeightedFactor } from '@/types/scoring';
+import { getAutocomplete, searchVideos, getVideos, getChannels, MAX_IDS_PER_REQUEST } from './youtube-client';
+import { assertQuotaBudget, QUOTA_COSTS } from './quota-ledger';
+import { generateStructured, s } from './ai-schema';
+import { median, scale } from './utils';
+
+// Keywords measured per analysis; each one costs a search (100 units)
+export const ANALYZED_KEYWORDS = 10;
+// Top search results each keyword's metrics are taken from
+const RESULTS_PER_KEYWORD = 10;
+
+export interface KeywordMetrics {
+    totalResults: number; // YouTube's (rough) estimate of matching videos
+    medianTopViews: number; // Median views of the top results
+    avgAgeDays: number; // Average age of the top results
+    medianSubscribers: number; // Median subscribers of the channels ranking in the top results
+    autocompleteDepth: number; // Autocomplete suggestions that extend the keyword (0-10)
+    topTags: KeywordTagUsage[]; // Tags set on the top results, most used first
+}
+
+export interface KeywordTagUsage {
+    tag: string;
+    videos: number; // Top results using it
+}
+
+export type KeywordFactorKey = 'demand' | 'views' | 'competition' | 'channelSize' | 'age';
+
+export type KeywordFactor = WeightedFactor<KeywordFactorKey>;
 
 export interface KeywordAnalysis {
     keyword: string;
-    viralPotential: number; // 0-100
-    saturation: 'Low' | 'Medium' | 'High';
+    metrics: KeywordMetrics;
+    factors: KeywordFactor[];
+    opportunityScore: number; // 0-100, sum of factor contributions
+    saturation: 'Low' | 'Medium' | 'High'; // From the competition and channel size factors
     reasoning: string;
 }
 
-export async function generateKeywords(baseTopic: string): Promise<string[]> {
-    const backendUrl = getBackendUrl();
-    const keywords = new Set<string>();
-
-    // Seed variations (free - no API calls)
-    const seedVariations = [
-        baseTopic,
-        `${baseTopic} tutorial`,
-        `${baseTopic} tips`,
-        `${baseTopic} guide`,
-        `how to ${baseTopic}`,
-        `best ${baseTopic}`
+const FACTOR_WEIGHTS: Record<KeywordFactorKey, number> = {
+    demand: 0.25,
+    views: 0.3,
+    competition: 0.15,
+    channelSize: 0.15,
+    age: 0.15,
+};
+
+const log10 = (value: number) => Math.log10(Math.max(value, 1));
+
+/**
+ * Quota units for analyzeKeywords on `count` keywords (less when searches are cached)
+ */
+export function estimateKeywordAnalysisCost(count = ANALYZED_KEYWORDS): number {
+    const lookups = Math.ceil((count * RESULTS_PER_KEYWORD) / MAX_IDS_PER_REQUEST);
+    return count * QUOTA_COSTS.search + lookups * (QUOTA_COSTS.videos + QUOTA_COSTS.channels);
+}
+
+/**
+ * Opportunity score from a keyword's metrics. Demand comes from autocomplete depth
+ * and the views top results get; competition from how many videos match, how big the
+ * ranking channels are and how old the top results are (stale results leave room).
+ */
+export function scoreKeyword(metrics: KeywordMetrics): Pick<KeywordAnalysis, 'factors' | 'opportunityScore' | 'saturation'> {
+    const scores: Record<KeywordFactorKey, number> = {
+        demand: scale(metrics.autocompleteDepth, 0, 10),
+        views: scale(log10(metrics.medianTopViews), 3, 6), // 1K -> 1M views
+        competition: 100 - scale(log10(metrics.totalResults), 3, 6), // 1K -> 1M results
+        channelSize: 100 - scale(log10(metrics.medianSubscribers), 3.5, 6.5), // ~3K -> ~3M subs
+        age: scale(metrics.avgAgeDays, 30, 730),
+    };
+    const labels: Record<KeywordFactorKey, string> = {
+        demand: 'Search demand',
+        views: 'Top-result views',
+        competition: 'Few competing videos',
+        channelSize: 'Small ranking channels',
+        age: 'Stale top results',
+    };
+
+    const factors = (Object.keys(scores) as KeywordFactorKey[]).map(key => ({
+        key,
+        label: labels[key],
+        score: scores[key],
+        weight: FACTOR_WEIGHTS[key],
+        contribution: scores[key] * FACTOR_WEIGHTS[key],
+    }));
+
+    const openness = (scores.competition + scores.channelSize) / 2;
+    return {
+        factors,
+        opportunityScore: Math.round(factors.reduce((sum, f) => sum + f.contribution, 0)),
+        saturation: openness >= 60 ? 'Low' : openness >= 35 ? 'Medium' : 'High',
+    };
+}
+
+const MAX_TOP_TAGS = 30;
+
+function countTags(tagLists: string[][]): KeywordTagUsage[] {
+    const usage = new Map<string, KeywordTagUsage>();
+    tagLists.forEach(list => {
+        // Case and spacing vary between uploaders; the first spelling seen is kept
+        new Map(list.map(tag => [tag.trim().toLowerCase().replace(/\s+/g, ' '), tag.trim()])).forEach((tag, key) => {
+            if (!key) return;
+            const entry = usage.get(key) || { tag, videos: 0 };
+            entry.videos++;
+            usage.set(key, entry);
+        });
+    });
+    return Array.from(usage.values()).sort((a, b) => b.videos - a.videos).slice(0, MAX_TOP_TAGS);
+}
+
+/**
+ * Measure each keyword on YouTube: one search for its top results, then shared
+ * video and channel lookups for their views and subscriber counts
+ */
+export async function fetchKeywordMetrics(keywords: string[]): Promise<Map<string, KeywordMetrics>> {
+    assertQuotaBudget(estimateKeywordAnalysisCost(keywords.length));
+
+    const [searches, depths] = await Promise.all([
+        Promise.all(keywords.map(q => searchVideos({ q, maxResults: RESULTS_PER_KEYWORD, order: 'relevance' }))),
+        Promise.all(keywords.map(async keyword => {
+            try {
+                const suggestions = await getAutocomplete(keyword);
+                const prefix = keyword.toLowerCase();
+                return suggestions.filter(suggestion => suggestion.toLowerCase() !== prefix && suggestion.toLowerCase().startsWith(prefix)).length;
+            } catch (e) {
+                console.warn(`Autocomplete failed for keyword: ${keyword}`, e);
+                return 0;
+            }
+        })),
+    ]);
+
+    const videoIds = searches.flatMap(result => result.items.map(item => item.id.videoId).filter(Boolean));
+    const channelIds = searches.flatMap(result => result.items.map(item => item.snippet.channelId));
+    const [videos, channels] = await Promise.all([
+        // Snippet costs nothing extra and carries the tags
+        getVideos(videoIds, 'statistics,snippet'),
+        getChannels(channelIds, 'statistics'),
+    ]);
+    const views = new Map(videos.map(v => [v.id, parseInt(v.statistics.viewCount || '0')]));
+    const tags = new Map(videos.map(v => [v.id, v.snippet?.tags || []]));
+    const subscribers = new Map(channels.map(c => [c.id, parseInt(c.statistics?.subscriberCount || '0')]));
+
+    const now = Date.now();
+    const metrics = new Map<string, KeywordMetrics>();
+    keywords.forEach((keyword, i) => {
+        const items = searches[i].items.filter(item => item.id.videoId);
+        const ages = items.map(item => (now - new Date(item.snippet.publishedAt).getTime()) / (24 * 60 * 60 * 1000));
+        const rankingChannels = Array.from(new Set(items.map(item => item.snippet.channelId)));
+
+        metrics.set(keyword, {
+            totalResults: searches[i].pageInfo?.totalResults ?? items.length,
+            medianTopViews: median(items.map(item => views.get(item.id.videoId) || 0)),
+            avgAgeDays: ages.length ? ages.reduce((sum, age) => sum + age, 0) / ages.length : 0,
+            medianSubscribers: median(rankingChannels.map(id => subscribers.get(id) || 0)),
+            autocompleteDepth: depths[i],
+            topTags: countTags(items.map(item => tags.get(item.id.videoId) || [])),
+        });
+    });
+    return metrics;
+}
+
+export interface KeywordExpansionSettings {
+    // 'quick': six fixed seeds; 'deep': alphabet soup around the topic
+    mode: 'quick' | 'deep';
+    prefixes: boolean; // Deep: also "a <topic>" ... "9 <topic>"
+    questions: boolean; // Deep: also "how <topic>", "why <topic>", ...
+    recurse: boolean; // Deep: run the suffixes again on the best keywords found
+}
+
+export interface KeywordExpansionProgress {
+    done: number;
+    total: number; // Grows when the second level starts
+    found: number;
+}
+
+export const DEFAULT_EXPANSION_SETTINGS: KeywordExpansionSettings = {
+    mode: 'quick',
+    prefixes: true,
+    questions: true,
+    recurse: true,
+};
+
+const ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789'.split('');
+const QUESTION_WORDS = ['who', 'what', 'why', 'how', 'can'];
+const MAX_QUICK_KEYWORDS = 50;
+const MAX_DEEP_KEYWORDS = 500;
+// Keywords the second level expands
+const RECURSE_TOP_KEYWORDS = 5;
+// Suggest requests in flight at once, and the pause each one takes after its request,
+// to stay well inside the proxy's autocomplete rate limit
+const MAX_CONCURRENT_SUGGESTS = 4;
+const SUGGEST_INTERVAL_MS = 150;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function firstLevelQueries(topic: string, settings: KeywordExpansionSettings): string[] {
+    if (settings.mode === 'quick') {
+        return [
+            topic,
+            `${topic} tutorial`,
+            `${topic} tips`,
+            `${topic} guide`,
+            `how to ${topic}`,
+            `best ${topic}`
+        ];
+    }
+    return [
+        topic,
+        ...ALPHABET.map(c => `${topic} ${c}`),
+        ...(settings.prefixes ? ALPHABET.map(c => `${c} ${topic}`) : []),
+        ...(settings.questions ? QUESTION_WORDS.map(word => `${word} ${topic}`) : []),
     ];
+}
 
-    // Fetch autocomplete for each seed
-    // We limit parallel requests to avoid overwhelming the proxy/YouTube
-    for (const seed of seedVariations) {
-        try {
-            const response = await fetch(
-                `${backendUrl}/api/youtube/autocomplete?q=${encodeURIComponent(seed)}`
-            );
-            const data = await response.json();
-            if (data.suggestions) {
-                data.suggestions.forEach((s: string) => keywords.add(s));
+/**
+ * Autocomplete requests generateKeywords makes with these settings (cached ones are instant)
+ */
+export function estimateExpansionRequests(topic: string, settings: KeywordExpansionSettings): number {
+    const secondLevel = settings.mode === 'deep' && settings.recurse ? RECURSE_TOP_KEYWORDS * ALPHABET.length : 0;
+    return firstLevelQueries(topic, settings).length + secondLevel;
+}
+
+/**
+ * Run autocomplete for every query through a small paced pool; failed queries are skipped
+ */
+async function collectSuggestions(
+    queries: string[],
+    onResult: (suggestions: string[]) => void
+): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < queries.length) {
+            const query = queries[next++];
+            try {
+                onResult(await getAutocomplete(query));
+            } catch (e) {
+                console.warn(`Autocomplete failed for seed: ${query}`, e);
+                onResult([]);
             }
-        } catch (e) {
-            console.warn(`Autocomplete failed for seed: ${seed}`, e);
+            await sleep(SUGGEST_INTERVAL_MS);
         }
+    };
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_SUGGESTS, queries.length) }, worker));
+}
+
+/**
+ * Long-tail keywords for a topic from YouTube autocomplete, most prominent first.
+ * A keyword ranks higher the more queries suggest it and the nearer the top it appears.
+ */
+export async function generateKeywords(
+    baseTopic: string,
+    settings: KeywordExpansionSettings = DEFAULT_EXPANSION_SETTINGS,
+    onProgress?: (progress: KeywordExpansionProgress) => void
+): Promise<string[]> {
+    const topic = baseTopic.trim().toLowerCase();
+    const topicWords = topic.split(/\s+/);
+    const scores = new Map<string, number>();
+    const progress: KeywordExpansionProgress = { done: 0, total: 0, found: 0 };
+
+    const record = (suggestions: string[]) => {
+        suggestions.forEach((suggestion, index) => {
+            const keyword = suggestion.trim().toLowerCase();
+            // Prefix and question queries can drift off topic; keep keywords that still contain it
+            if (!keyword || (settings.mode === 'deep' && !topicWords.every(word => keyword.includes(word)))) return;
+            scores.set(keyword, (scores.get(keyword) || 0) + Math.max(10 - index, 1));
+        });
+        progress.done++;
+        progress.found = scores.size;
+        onProgress?.({ ...progress });
+    };
+
+    const ranked = () => Array.from(scores.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([keyword]) => keyword);
+
+    const firstLevel = firstLevelQueries(topic, settings);
+    progress.total = firstLevel.length;
+    await collectSuggestions(firstLevel, record);
+
+    if (settings.mode === 'quick') return ranked().slice(0, MAX_QUICK_KEYWORDS);
+
+    if (settings.recurse) {
+        const best = ranked().filter(keyword => keyword !== topic).slice(0, RECURSE_TOP_KEYWORDS);
+        const secondLevel = best.flatMap(keyword => ALPHABET.map(c => `${keyword} ${c}`));
+        progress.total += secondLevel.length;
+        await collectSuggestions(secondLevel, record);
     }
 
-    return Array.from(keywords).slice(0, 50); // Limit to 50 keywords
+    return ranked().slice(0, MAX_DEEP_KEYWORDS);
+}
+
+const keywordReasoningSchema = s.array(
+    s.object({
+        keyword: s.string(),
+        reasoning: s.string(),
+    })
+);
+
+const formatCount = (num: number) =>
+    new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(num);
+
+// Used when the AI provider is unavailable: name the strongest and weakest factor
+function describeFactors(factors: KeywordFactor[]): string {
+    const sorted = [...factors].sort((a, b) => b.score - a.score);
+    return `Strongest: ${sorted[0].label.toLowerCase()} (${sorted[0].score.toFixed(0)}). ` +
+        `Weakest: ${sorted[sorted.length - 1].label.toLowerCase()} (${sorted[sorted.length - 1].score.toFixed(0)}).`;
 }
 
+/**
+ * Measure and score the top keywords on YouTube. The numbers come from the API;
+ * the AI provider only writes the one-line reasoning for each keyword.
+ */
 export async function analyzeKeywords(
     keywords: string[]
 ): Promise<KeywordAnalysis[]> {
-    const backendUrl = getBackendUrl();
-    const headers = getAuthHeaders();
-
-    // Process in batches of 20 to avoid token limits
-    // Taking the top 20 keywords only for analysis to be safe with quota
-    const topKeywords = keywords.slice(0, 20);
-
-    const prompt = `Analyze these YouTube search keywords for viral potential:
-
-${topKeywords.map((k, idx) => `${idx + 1}. ${k}`).join('\n')}
-
-For each keyword, rate:
-- Viral Potential (0-100): How likely is this to trend?
-- Saturation: Low/Medium/High (how competitive is this?)
-- Reasoning: One short sentence why
-
-Respond ONLY in valid JSON format matching this schema:
-[
-  {
-    "keyword": "string",
-    "viralPotential": number,
-    "saturation": "Low" | "Medium" | "High",
-    "reasoning": "string"
-  }
-]
-Do not include markdown formatting or backticks.`;
-
-    try {
-        const response = await fetch(`${backendUrl}/api/gemini/generate`, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({ prompt })
-        });
+    const topKeywords = keywords.slice(0, ANALYZED_KEYWORDS);
+    const metrics = await fetchKeywordMetrics(topKeywords);
 
-        if (!response.ok) throw new Error('Gemini analysis failed');
-
-        const data = await response.json();
-        // Clean up response if it contains markdown code blocks
-        const text = data.text.replace(/```json/g, '').replace(/```/g, '').trim();
-        return JSON.parse(text);
-    } catch (error) {
-        console.error('Keyword analysis failed:', error);
-        // Fallback: return keywords without analysis
-        return topKeywords.map(k => ({
-            keyword: k,
-            viralPotential: 50,
-            saturation: 'Medium',
-            reasoning: 'Analysis unavailable'
-        }));
-    }
-}
+    const analyses: KeywordAnalysis[] = topKeywords.map(keyword => {
+        const keywordMetrics = metrics.get(keyword)!;
+        const scored = scoreKeyword(keywordMetrics);
+        return { keyword, metrics: keywordMetrics, ...scored, reasoning: describeFactors(scored.factors) };
+    });
 
-export function generateTags(keyword: string): string[] {
-    const words = keyword.toLowerCase().split(' ');
-    const tags = [keyword]; // Full keyword always included
+    const prompt = `These YouTube search keywords were measured on YouTube:
 
-    // Add subsets
-    if (words.length > 2) {
-        tags.push(words.slice(0, 2).join(' '));
-        tags.push(words.slice(1).join(' '));
-    }
+${analyses.map((a, idx) => `${idx + 1}. "${a.keyword}": opportunity ${a.opportunityScore}/100, ` +
+        `~${formatCount(a.metrics.totalResults)} results, top results median ${formatCount(a.metrics.medianTopViews)} views, ` +
+        `${Math.round(a.metrics.avgAgeDays)} days old on average, ranking channels median ${formatCount(a.metrics.medianSubscribers)} subscribers, ` +
+        `${a.metrics.autocompleteDepth} autocomplete suggestions`).join('\n')}
 
-    // Add related terms
-    const relatedTerms: Record<string, string[]> = {
-        'tutorial': ['guide', 'how to', 'tips'],
-        'gaming': ['gameplay', 'playthrough', 'walkthrough'],
-        'review': ['unboxing', 'first look', 'hands on'],
-        'tips': ['tricks', 'hacks', 'guide'],
-        'guide': ['tutorial', 'walkthrough', 'basics']
-    };
+For each keyword, write one short sentence explaining its opportunity from these numbers. Do not invent other numbers.`;
 
-    words.forEach(word => {
-        if (relatedTerms[word]) {
-            tags.push(...relatedTerms[word]);
-        }
-    });
+    const result = await generateStructured(prompt, keywordReasoningSchema);
+    if (result.ok) {
+        const reasoning = new Map(result.data.map(r => [r.keyword.toLowerCase(), r.reasoning]));
+        return analyses.map(a => ({ ...a, reasoning: reasoning.get(a.keyword.toLowerCase()) || a.reasoning }));
+    }
 
-    return [...new Set(tags)].slice(0, 15); // YouTube allows up to 500 chars (approx 15 tags)
+    console.error('Keyword reasoning failed:', result.message, result.issues);
+    // The scores stand on their own; only the AI sentence is missing
+    return analyses;
 }
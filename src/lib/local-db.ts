@@ -0,0 +1,144 @@
+/**
+ * Local persistence for data that outgrows localStorage.
+ * Uses IndexedDB in the browser and one JSON file per collection in the
+ * packaged Electron app (via the preload bridge in electron/preload.cjs).
+ *
+ * Items must be JSON-serializable so both backends behave the same way
+ * (store dates as ISO strings, not Date objects).
+ */
+
+import { logger } from './logger';
+
+const DB_NAME = 'viralvision';
+// Bump when adding a collection so the upgrade handler creates its object store
+const DB_VERSION = 4;
+
+const COLLECTIONS = ['snapshots', 'ideas', 'idea-boards', 'channel-baselines', 'competitor-uploads'] as const;
+export type CollectionName = typeof COLLECTIONS[number];
+
+export interface LocalCollection<T> {
+    getAll(): Promise<T[]>;
+    get(key: string): Promise<T | undefined>;
+    putMany(items: T[]): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                COLLECTIONS.forEach(name => {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name);
+                    }
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function promisifyRequest<R>(request: IDBRequest<R>): Promise<R> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function createIndexedDbCollection<T>(name: CollectionName, keyOf: (item: T) => string): LocalCollection<T> {
+    const withStore = async <R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<R>): Promise<R> => {
+        const db = await openDatabase();
+        const tx = db.transaction(name, mode);
+        const result = await run(tx.objectStore(name));
+        if (mode === 'readwrite') await promisifyTransaction(tx);
+        return result;
+    };
+
+    return {
+        getAll: () => withStore('readonly', store => promisifyRequest(store.getAll() as IDBRequest<T[]>)),
+        get: (key) => withStore('readonly', store => promisifyRequest(store.get(key) as IDBRequest<T | undefined>)),
+        putMany: (items) => withStore('readwrite', async store => {
+            items.forEach(item => store.put(item, keyOf(item)));
+        }),
+        delete: (key) => withStore('readwrite', async store => {
+            store.delete(key);
+        }),
+        clear: () => withStore('readwrite', async store => {
+            store.clear();
+        }),
+    };
+}
+
+function createElectronCollection<T>(name: CollectionName, keyOf: (item: T) => string, api: ElectronAPI): LocalCollection<T> {
+    // The whole file is loaded once and written back on every change; writes are
+    // chained so two quick updates can't interleave and lose data.
+    let cache: Promise<Record<string, T>> | null = null;
+    let writeChain: Promise<void> = Promise.resolve();
+
+    const load = () => {
+        if (!cache) {
+            cache = api.store.read(name).then(data => (data || {}) as Record<string, T>);
+        }
+        return cache;
+    };
+
+    const mutate = (update: (data: Record<string, T>) => void): Promise<void> => {
+        const next = writeChain.then(async () => {
+            const data = await load();
+            update(data);
+            await api.store.write(name, data);
+        });
+        // Keep the chain alive after a failed write so later writes still run
+        writeChain = next.catch(error => {
+            logger.error(`Failed to write ${name} store:`, error);
+        });
+        return next;
+    };
+
+    return {
+        getAll: async () => Object.values(await load()),
+        get: async (key) => (await load())[key],
+        putMany: (items) => mutate(data => {
+            items.forEach(item => { data[keyOf(item)] = item; });
+        }),
+        delete: (key) => mutate(data => { delete data[key]; }),
+        clear: () => mutate(data => {
+            Object.keys(data).forEach(key => delete data[key]);
+        }),
+    };
+}
+
+const collections = new Map<CollectionName, LocalCollection<unknown>>();
+
+/**
+ * Get a keyed collection backed by the best storage available on this platform.
+ */
+export function getCollection<T>(name: CollectionName, keyOf: (item: T) => string): LocalCollection<T> {
+    const existing = collections.get(name);
+    if (existing) return existing as LocalCollection<T>;
+
+    const collection = typeof window !== 'undefined' && window.electronAPI
+        ? createElectronCollection(name, keyOf, window.electronAPI)
+        : createIndexedDbCollection(name, keyOf);
+
+    collections.set(name, collection as LocalCollection<unknown>);
+    return collection;
+}
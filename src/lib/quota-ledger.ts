@@ -0,0 +1,117 @@
+/**
+ * Client-side ledger of YouTube Data API quota spent through the backend proxy.
+ * YouTube doesn't report remaining quota, so every /api/youtube/* request records
+ * its documented unit cost here. Usage resets at midnight Pacific time, like the
+ * real quota.
+ */
+
+import { QuotaEndpoint, QuotaSettings, QuotaUsage, QuotaCheck } from '@/types/quota';
+import { logger } from './logger';
+
+// Units per request (https://developers.google.com/youtube/v3/determine_quota_cost)
+export const QUOTA_COSTS: Record<QuotaEndpoint, number> = {
+    search: 100,
+    videos: 1,
+    channels: 1,
+    playlistItems: 1,
+    autocomplete: 0, // Suggest API, not the Data API
+};
+
+// Default daily quota of a new Google Cloud project
+export const DEFAULT_QUOTA_SETTINGS: QuotaSettings = {
+    dailyBudget: 10000,
+    mode: 'warn',
+};
+
+const USAGE_KEY = 'viralvision_quota_usage';
+const PREFERENCES_KEY = 'viralvision_preferences';
+// Fired on this window whenever usage changes so meters can refresh
+export const QUOTA_CHANGED_EVENT = 'viralvision:quota-changed';
+
+function getQuotaDay(date = new Date()): string {
+    // en-CA formats as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Los_Angeles' }).format(date);
+}
+
+/**
+ * Today's usage (empty once the Pacific-time day rolls over)
+ */
+export function getQuotaUsage(): QuotaUsage {
+    const today = getQuotaDay();
+    try {
+        const stored = localStorage.getItem(USAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as QuotaUsage;
+            if (parsed.day === today) return parsed;
+        }
+    } catch (error) {
+        logger.warn('Failed to read quota usage:', error);
+    }
+    return { day: today, units: 0, byEndpoint: {} };
+}
+
+/**
+ * Record one request against today's usage. Call this when the request is sent:
+ * YouTube charges for failed requests too.
+ */
+export function recordQuotaUsage(endpoint: QuotaEndpoint): void {
+    const cost = QUOTA_COSTS[endpoint];
+    const usage = getQuotaUsage();
+    const previous = usage.byEndpoint[endpoint] || { calls: 0, units: 0 };
+
+    usage.units += cost;
+    usage.byEndpoint[endpoint] = { calls: previous.calls + 1, units: previous.units + cost };
+
+    try {
+        localStorage.setItem(USAGE_KEY, JSON.stringify(usage));
+        window.dispatchEvent(new Event(QUOTA_CHANGED_EVENT));
+    } catch (error) {
+        logger.warn('Failed to record quota usage:', error);
+    }
+}
+
+export function resetQuotaUsage(): void {
+    localStorage.removeItem(USAGE_KEY);
+    window.dispatchEvent(new Event(QUOTA_CHANGED_EVENT));
+}
+
+/**
+ * Budget settings saved with the user preferences (see useLocalStorage)
+ */
+export function getQuotaSettings(): QuotaSettings {
+    try {
+        const stored = localStorage.getItem(PREFERENCES_KEY);
+        const saved = stored ? JSON.parse(stored).quotaSettings : undefined;
+        return { ...DEFAULT_QUOTA_SETTINGS, ...saved };
+    } catch {
+        return DEFAULT_QUOTA_SETTINGS;
+    }
+}
+
+/**
+ * Would spending `cost` more units today go over the budget?
+ */
+export function checkQuotaBudget(cost: number): QuotaCheck {
+    const { dailyBudget, mode } = getQuotaSettings();
+    const used = getQuotaUsage().units;
+    const wouldExceed = used + cost > dailyBudget;
+
+    return {
+        used,
+        budget: dailyBudget,
+        cost,
+        wouldExceed,
+        blocked: wouldExceed && mode === 'block',
+    };
+}
+
+/**
+ * Throw QUOTA_BUDGET_EXCEEDED before an action that would go over a blocking budget
+ */
+export function assertQuotaBudget(cost: number): void {
+    const check = checkQuotaBudget(cost);
+    if (check.blocked) {
+        logger.warn(`Blocked action costing ~${cost} units (${check.used}/${check.budget} used today)`);
+        throw new Error('QUOTA_BUDGET_EXCEEDED');
+    }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { buildResultsRows } from './results-export';
+import { rowsToCsv } from './file-export';
+import { DEFAULT_FILTERS } from '@/types/filters';
+import { Video } from '@/types/video';
+
+const video = (overrides: Partial<Video>): Video => ({
+    id: 'abc123',
+    title: 'Budget travel tips',
+    channelId: 'UC1',
+    channelName: 'Travel Hacks',
+    subscriberCount: 1000,
+    views: 5000,
+    likes: 100,
+    comments: 10,
+    lengthSeconds: 300,
+    publishedAt: new Date('2026-01-01T00:00:00Z'),
+    fetchedAt: new Date('2026-01-02T00:00:00Z'),
+    viralScore: 50,
+    engagementRate: 0.02,
+    estimatedAVDTier: 'Medium',
+    isOutlier: false,
+    recencyMultiplier: 1,
+    smallChannelBoost: 1,
+    ...overrides,
+});
+
+const context = { niche: 'travel', filters: DEFAULT_FILTERS, scoringProfileName: 'Balanced' };
+
+describe('buildResultsRows', () => {
+    it('neutralizes formula-like titles, channel names and descriptions in the CSV', () => {
+        const rows = buildResultsRows([video({
+            title: '=HYPERLINK("http://evil.example","click")',
+            channelName: '@everyone',
+            description: '+1 weird trick',
+        })], context);
+        const lastLine = rowsToCsv(rows).split('\r\n').pop();
+
+        expect(lastLine).toContain('"\'=HYPERLINK(""http://evil.example"",""click"")"');
+        expect(lastLine).toContain(",'@everyone,");
+        expect(lastLine?.endsWith(",'+1 weird trick")).toBe(true);
+    });
+
+    it('neutralizes a formula-like niche in the header block', () => {
+        const rows = buildResultsRows([], { ...context, niche: '=1+1' });
+
+        expect(rowsToCsv(rows)).toContain("Niche,'=1+1");
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * Spreadsheet export of Niche Finder results. The file starts with a block recording
+ * the search (niche, filters, fetch time), then one row per video in the order shown.
+ */
+
+import { Video } from '@/types/video';
+import { SearchFilters } from '@/types/filters';
+import { CsvCell, rowsToCsv, toXlsx, downloadFile, slugify, dateStamp } from './file-export';
+
+export type ResultsExportFormat = 'csv' | 'xlsx';
+
+export interface ResultsExportContext {
+    niche: string;
+    filters: SearchFilters;
+    // Display name of filters.scoringProfileId
+    scoringProfileName: string;
+}
+
+const FILTER_LABELS: { key: keyof SearchFilters; label: string }[] = [
+    { key: 'region', label: 'Region' },
+    { key: 'duration', label: 'Duration' },
+    { key: 'dateRange', label: 'Date range' },
+    { key: 'sortBy', label: 'Sort by' },
+    { key: 'channelSize', label: 'Channel size' },
+    { key: 'minViews', label: 'Min views' },
+    { key: 'minOutlier', label: 'Min x channel median' },
+];
+
+const COLUMNS = [
+    'Video ID', 'Title', 'Channel', 'Channel ID', 'Subscribers', 'Region',
+    'Views', 'Likes', 'Comments', 'Shares', 'Length (s)', 'Published', 'Fetched',
+    'Views/Hour', 'Acceleration', 'Velocity Source',
+    'Viral Score', 'Engagement Rate', 'Est. AVD Tier', 'Outlier', 'Channel Median Views', 'x Channel Median',
+    'Recency Multiplier', 'Small Channel Boost',
+    'URL', 'Description',
+];
+
+// Dates may arrive as strings after a JSON round trip
+const isoDate = (value: Date | string) => new Date(value).toISOString();
+
+function videoRow(video: Video): CsvCell[] {
+    return [
+        video.id,
+        video.title,
+        video.channelName,
+        video.channelId,
+        video.subscriberCount,
+        video.region || '',
+        video.views,
+        video.likes,
+        video.comments,
+        video.shares,
+        video.lengthSeconds,
+        isoDate(video.publishedAt),
+        isoDate(video.fetchedAt),
+        video.velocity ? Math.round(video.velocity.viewsPerHour * 100) / 100 : undefined,
+        video.velocity?.acceleration ?? undefined,
+        video.velocity?.source,
+        Math.round(video.viralScore * 100) / 100,
+        Math.round(video.engagementRate * 10000) / 10000,
+        video.estimatedAVDTier,
+        video.isOutlier,
+        video.channelMedianViews,
+        video.outlierMultiplier,
+        video.recencyMultiplier,
+        video.smallChannelBoost,
+        `https://youtube.com/watch?v=${video.id}`,
+        video.description || '',
+    ];
+}
+
+/**
+ * Header block plus table rows for `videos`, which should already be filtered and sorted
+ */
+export function buildResultsRows(videos: Video[], context: ResultsExportContext): CsvCell[][] {
+    // Most recent fetch among the rows; "Load more" pages are fetched later than the first
+    const fetchedAt = videos.reduce<number | null>((latest, v) => {
+        const time = new Date(v.fetchedAt).getTime();
+        return latest === null || time > latest ? time : latest;
+    }, null);
+
+    return [
+        ['ViralVision results export'],
+        ['Niche', context.niche],
+        ['Fetched', fetchedAt === null ? '' : new Date(fetchedAt).toISOString()],
+        ['Exported', new Date().toISOString()],
+        ...FILTER_LABELS.map(({ key, label }) => [label, context.filters[key]]),
+        ['Scoring profile', context.scoringProfileName],
+        ['Videos', videos.length],
+        [],
+        COLUMNS,
+        ...videos.map(videoRow),
+    ];
+}
+
+/**
+ * Download the results as CSV or XLSX, named after the niche and today's date
+ */
+export function exportResults(videos: Video[], context: ResultsExportContext, format: ResultsExportFormat): void {
+    const rows = buildResultsRows(videos, context);
+    const filename = `viralvision-${slugify(context.niche)}-${dateStamp()}.${format}`;
+
+    if (format === 'xlsx') {
+        downloadFile(filename, toXlsx(context.niche || 'Results', rows), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    } else {
+        // BOM so Excel opens the file as UTF-8
+        downloadFile(filename, '\uFEFF' + rowsToCsv(rows), 'text/csv;charset=utf-8');
+    }
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { filtersFromParams, filtersToParams } from './router';
+import { DEFAULT_FILTERS, SearchFilters } from '@/types/filters';
+
+describe('filtersFromParams', () => {
+    it('reads every filter from its query key', () => {
+        const filters: SearchFilters = {
+            region: 'US',
+            duration: 'SHORT',
+            dateRange: '24h',
+            sortBy: 'outlier',
+            channelSize: 'SMALL',
+            minViews: '10000',
+            minOutlier: '5',
+            scoringProfileId: 'custom-123',
+        };
+
+        expect(filtersFromParams(filtersToParams(filters))).toEqual(filters);
+    });
+
+    it('falls back to the defaults for missing or unknown values', () => {
+        expect(filtersFromParams({})).toEqual(DEFAULT_FILTERS);
+        expect(filtersFromParams({ region: 'XX', date: '1y', profile: '' })).toEqual(DEFAULT_FILTERS);
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * Hash-based routing, so every tool and search has a shareable link that also
+ * works from the packaged app's file:// URL. Routes look like
+ * `#/niche-finder/results?q=budget+travel&region=US&duration=SHORT`.
+ */
+
+import { AppRoute, AppView } from '@/types/route';
+import { SearchFilters, DEFAULT_FILTERS } from '@/types/filters';
+
+// Fired after replaceState, which unlike a hash assignment doesn't fire 'hashchange'
+export const ROUTE_CHANGED_EVENT = 'viralvision:route-changed';
+
+const VIEW_PATHS: Record<AppView, string> = {
+    'tool-selector': '/',
+    'niche-finder': '/niche-finder',
+    'dashboard': '/niche-finder/results',
+    'video-analyzer': '/video-analyzer',
+    'channel-finder': '/channel-finder',
+    'keyword-tool': '/keyword-research',
+    'video-similarity': '/video-similarity',
+    'thumbnail-generator': '/thumbnail-generator',
+    'competitor-tracker': '/competitors',
+    'title-analyzer': '/title-analyzer',
+};
+
+// Short query keys for each filter, with the values it accepts
+const FILTER_PARAMS: { [K in keyof SearchFilters]: { key: string; values?: readonly SearchFilters[K][] } } = {
+    region: { key: 'region', values: ['ALL', 'US', 'GB', 'CA', 'AU', 'DE'] },
+    duration: { key: 'duration', values: ['ALL', 'SHORT', 'MEDIUM', 'LONG'] },
+    dateRange: { key: 'date', values: ['12h', '24h', 'today', '7d', '30d'] },
+    sortBy: { key: 'sort', values: ['viewCount', 'relevance', 'date', 'rating', 'outlier'] },
+    channelSize: { key: 'size', values: ['ALL', 'SMALL', 'MEDIUM', 'LARGE'] },
+    minViews: { key: 'minViews', values: ['ALL', '1000', '10000', '100000'] },
+    minOutlier: { key: 'outlier', values: ['ALL', '2', '5', '10'] },
+    scoringProfileId: { key: 'profile' }, // Any id; unknown ones resolve to the default profile
+};
+
+export function parseRoute(hash: string): AppRoute {
+    const [path, query = ''] = hash.replace(/^#/, '').split('?');
+    const normalized = '/' + path.replace(/^\/+|\/+$/g, '');
+    const view = (Object.keys(VIEW_PATHS) as AppView[]).find(v => VIEW_PATHS[v] === normalized) || 'tool-selector';
+
+    return { view, params: Object.fromEntries(new URLSearchParams(query)) };
+}
+
+export function formatRoute(route: AppRoute): string {
+    const query = new URLSearchParams(
+        Object.entries(route.params).filter(([, value]) => value !== '')
+    ).toString();
+    return `#${VIEW_PATHS[route.view]}${query ? `?${query}` : ''}`;
+}
+
+export function getCurrentRoute(): AppRoute {
+    return parseRoute(window.location.hash);
+}
+
+/**
+ * Go to a route. Pushes a history entry unless `replace` is set; does nothing
+ * when the route is already current.
+ */
+export function navigate(route: AppRoute, options: { replace?: boolean } = {}): void {
+    const hash = formatRoute(route);
+    if (hash === formatRoute(getCurrentRoute())) return;
+
+    if (options.replace) {
+        window.history.replaceState(window.history.state, '', hash);
+        window.dispatchEvent(new Event(ROUTE_CHANGED_EVENT));
+    } else {
+        window.location.hash = hash;
+    }
+}
+
+/**
+ * Query params for the filters that differ from the defaults
+ */
+export function filtersToParams(filters: SearchFilters): Record<string, string> {
+    const params: Record<string, string> = {};
+    (Object.keys(FILTER_PARAMS) as (keyof SearchFilters)[]).forEach(name => {
+        if (filters[name] !== DEFAULT_FILTERS[name]) {
+            params[FILTER_PARAMS[name].key] = filters[name];
+        }
+    });
+    return params;
+}
+
+// One filter from the query params when it is one of its accepted values, else the default
+function paramFilter<K extends keyof SearchFilters>(params: Record<string, string>, name: K): SearchFilters[K] {
+    const { key, values } = FILTER_PARAMS[name];
+    return values?.find(value => value === params[key]) ?? DEFAULT_FILTERS[name];
+}
+
+/**
+ * Filters from query params; missing or invalid values fall back to the defaults
+ */
+export function filtersFromParams(params: Record<string, string>): SearchFilters {
+    return {
+        region: paramFilter(params, 'region'),
+        duration: paramFilter(params, 'duration'),
+        dateRange: paramFilter(params, 'dateRange'),
+        sortBy: paramFilter(params, 'sortBy'),
+        channelSize: paramFilter(params, 'channelSize'),
+        minViews: paramFilter(params, 'minViews'),
+        minOutlier: paramFilter(params, 'minOutlier'),
+        scoringProfileId: params[FILTER_PARAMS.scoringProfileId.key] || DEFAULT_FILTERS.scoringProfileId,
+    };
+}
+
+export function resultsRoute(niche: string, filters: SearchFilters): AppRoute {
+    return { view: 'dashboard', params: { q: niche, ...filtersToParams(filters) } };
+}
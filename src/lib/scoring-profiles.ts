@@ -0,0 +1,96 @@
+import { ScoringProfile, ScoreFactorKey } from '@/types/scoring';
+
+export const FACTOR_LABELS: Record<ScoreFactorKey, string> = {
+    avd: 'Est. retention (AVD)',
+    engagement: 'Engagement',
+    freshness: 'Freshness / momentum',
+    viewSubRatio: 'Views vs subs',
+    smallChannel: 'Small channel boost',
+};
+
+const DEFAULT_THRESHOLDS: ScoringProfile['thresholds'] = {
+    shortsMaxSeconds: 60,
+    outlierViewSubRatio: 10,
+};
+
+const DEFAULT_DAMPENERS: ScoringProfile['dampeners'] = {
+    largeChannelSubs: 500000,
+    largeChannelMinRatio: 0.5,
+    largeChannelFactor: 0.6,
+};
+
+/**
+ * Built-in profiles. "Balanced" reproduces the original hard-coded formula.
+ */
+export const BUILT_IN_PROFILES: ScoringProfile[] = [
+    {
+        id: 'balanced',
+        name: 'Balanced',
+        description: 'The default formula: outlier metrics for long-form, velocity signals for Shorts.',
+        longForm: { avd: 0.20, engagement: 0.15, freshness: 0.10, viewSubRatio: 0.35, smallChannel: 0.20 },
+        shorts: { avd: 0.40, engagement: 0.30, freshness: 0.20, viewSubRatio: 0, smallChannel: 0.10 },
+        thresholds: DEFAULT_THRESHOLDS,
+        dampeners: DEFAULT_DAMPENERS,
+    },
+    {
+        id: 'outlier-hunter',
+        name: 'Outlier hunter',
+        description: 'Small channels pulling far more views than their subscriber count.',
+        longForm: { avd: 0.10, engagement: 0.10, freshness: 0.05, viewSubRatio: 0.50, smallChannel: 0.25 },
+        shorts: { avd: 0.20, engagement: 0.15, freshness: 0.10, viewSubRatio: 0.35, smallChannel: 0.20 },
+        thresholds: { ...DEFAULT_THRESHOLDS, outlierViewSubRatio: 5 },
+        dampeners: { ...DEFAULT_DAMPENERS, largeChannelSubs: 250000, largeChannelMinRatio: 1, largeChannelFactor: 0.4 },
+    },
+    {
+        id: 'fresh-momentum',
+        name: 'Fresh momentum',
+        description: 'Videos gaining views fastest right now; best after a few daily re-runs.',
+        longForm: { avd: 0.25, engagement: 0.10, freshness: 0.40, viewSubRatio: 0.15, smallChannel: 0.10 },
+        shorts: { avd: 0.30, engagement: 0.15, freshness: 0.45, viewSubRatio: 0, smallChannel: 0.10 },
+        thresholds: DEFAULT_THRESHOLDS,
+        dampeners: { ...DEFAULT_DAMPENERS, largeChannelFactor: 0.8 },
+    },
+    {
+        id: 'engagement-first',
+        name: 'Engagement first',
+        description: 'Audiences that like and comment, regardless of channel size.',
+        longForm: { avd: 0.20, engagement: 0.45, freshness: 0.10, viewSubRatio: 0.15, smallChannel: 0.10 },
+        shorts: { avd: 0.25, engagement: 0.50, freshness: 0.15, viewSubRatio: 0, smallChannel: 0.10 },
+        thresholds: DEFAULT_THRESHOLDS,
+        dampeners: { ...DEFAULT_DAMPENERS, largeChannelFactor: 1 },
+    },
+];
+
+export const DEFAULT_SCORING_PROFILE = BUILT_IN_PROFILES[0];
+
+export function isBuiltInProfile(id: string): boolean {
+    return BUILT_IN_PROFILES.some(p => p.id === id);
+}
+
+/**
+ * Built-in profiles (with any saved edits applied) followed by custom profiles
+ */
+export function getAllProfiles(saved: ScoringProfile[] = []): ScoringProfile[] {
+    const savedById = new Map(saved.map(p => [p.id, p]));
+    const builtIns = BUILT_IN_PROFILES.map(p => savedById.get(p.id) || p);
+    const custom = saved.filter(p => !isBuiltInProfile(p.id));
+    return [...builtIns, ...custom];
+}
+
+/**
+ * Find a profile by ID, falling back to the default when it no longer exists
+ */
+export function resolveScoringProfile(id: string | undefined, saved: ScoringProfile[] = []): ScoringProfile {
+    return getAllProfiles(saved).find(p => p.id === id) || DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * Copy a profile under a new ID so it can be edited without touching the original
+ */
+export function duplicateProfile(profile: ScoringProfile, name = `${profile.name} (copy)`): ScoringProfile {
+    return {
+        ...structuredClone(profile),
+        id: `custom-${Date.now().toString(36)}`,
+        name,
+    };
+}
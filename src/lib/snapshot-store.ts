@@ -0,0 +1,114 @@
+import { Video } from '@/types/video';
+import { SnapshotPoint, TrackedVideo } from '@/types/tracking';
+import { getCollection } from './local-db';
+
+// Keep roughly four months of daily re-runs per video
+const MAX_POINTS_PER_VIDEO = 120;
+// Re-running a search within this window replaces the latest point instead of adding a new one
+const MIN_SNAPSHOT_GAP_MS = 10 * 60 * 1000;
+
+const snapshots = () => getCollection<TrackedVideo>('snapshots', item => item.videoId);
+
+/**
+ * Normalize a niche so "Budget Travel " and "budget travel" share one history
+ */
+export function normalizeNiche(niche: string): string {
+    return niche.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function toSnapshotPoint(video: Video): SnapshotPoint {
+    return {
+        fetchedAt: new Date(video.fetchedAt).toISOString(),
+        views: video.views,
+        likes: video.likes,
+        comments: video.comments,
+        subscriberCount: video.subscriberCount,
+        viralScore: video.viralScore,
+    };
+}
+
+/**
+ * Record the current state of every video returned by a niche search
+ */
+export async function recordNicheSnapshot(niche: string, videos: Video[]): Promise<void> {
+    if (videos.length === 0) return;
+
+    const key = normalizeNiche(niche);
+    const collection = snapshots();
+    const existing = await getVideoHistories(videos.map(v => v.id));
+
+    const updated = videos.map(video => {
+        const point = toSnapshotPoint(video);
+        const previous = existing.get(video.id);
+
+        if (!previous) {
+            return {
+                videoId: video.id,
+                title: video.title,
+                channelId: video.channelId,
+                channelName: video.channelName,
+                publishedAt: new Date(video.publishedAt).toISOString(),
+                niches: [key],
+                points: [point],
+            };
+        }
+
+        const points = [...previous.points];
+        const last = points[points.length - 1];
+        if (last && new Date(point.fetchedAt).getTime() - new Date(last.fetchedAt).getTime() < MIN_SNAPSHOT_GAP_MS) {
+            points[points.length - 1] = point;
+        } else {
+            points.push(point);
+        }
+
+        return {
+            ...previous,
+            title: video.title,
+            channelName: video.channelName,
+            niches: previous.niches.includes(key) ? previous.niches : [...previous.niches, key],
+            points: points.slice(-MAX_POINTS_PER_VIDEO),
+        };
+    });
+
+    await collection.putMany(updated);
+}
+
+/**
+ * Look up stored histories for a set of video IDs
+ */
+export async function getVideoHistories(videoIds: string[]): Promise<Map<string, TrackedVideo>> {
+    const collection = snapshots();
+    const entries = await Promise.all(videoIds.map(id => collection.get(id)));
+
+    const histories = new Map<string, TrackedVideo>();
+    entries.forEach(entry => {
+        if (entry) histories.set(entry.videoId, entry);
+    });
+    return histories;
+}
+
+/**
+ * Get every tracked video that has appeared in a niche search
+ */
+export async function getNicheHistory(niche: string): Promise<TrackedVideo[]> {
+    const key = normalizeNiche(niche);
+    const all = await snapshots().getAll();
+    return all.filter(video => video.niches.includes(key));
+}
+
+/**
+ * Drop a niche from the history; videos no longer linked to any niche are deleted
+ */
+export async function clearNicheHistory(niche: string): Promise<void> {
+    const key = normalizeNiche(niche);
+    const collection = snapshots();
+    const tracked = await getNicheHistory(niche);
+
+    const remaining = tracked
+        .map(video => ({ ...video, niches: video.niches.filter(n => n !== key) }))
+        .filter(video => video.niches.length > 0);
+    const orphaned = tracked.filter(video => video.niches.length === 1);
+
+    await collection.putMany(remaining);
+    await Promise.all(orphaned.map(video => collection.delete(video.videoId)));
+}
@@ -0,0 +1,132 @@
+/**
+ * Video tags for a keyword, gathered from what Keyword Research already knows: the
+ * measured keywords, the autocomplete suggestions around it and the tags the top
+ * results for it use. Candidates are ranked by relevance and packed into YouTube's
+ * 500-character tag limit; hashtags for the description and Shorts come from the same list.
+ */
+
+import type { KeywordAnalysis } from './keyword-research-api';
+import { extractTerms, tokenize } from './text-similarity';
+
+export const TAG_CHARACTER_LIMIT = 500;
+// Tags longer than this are rejected by YouTube Studio
+const MAX_TAG_LENGTH = 100;
+const MAX_HASHTAGS = 5;
+const MAX_HASHTAG_LENGTH = 30;
+
+export type TagSource = 'keyword' | 'analyzed' | 'autocomplete' | 'top-videos';
+
+export interface TagCandidate {
+    tag: string;
+    source: TagSource;
+    relevance: number; // 0-1
+}
+
+export interface TagSuggestions {
+    candidates: TagCandidate[]; // Most relevant first
+    packed: string[]; // The most relevant candidates that fit in TAG_CHARACTER_LIMIT
+    hashtags: string[]; // For the description, most relevant first
+    shortsHashtags: string[];
+}
+
+export interface TagSources {
+    analyses: KeywordAnalysis[];
+    discovered: string[]; // Autocomplete suggestions, most prominent first
+}
+
+/**
+ * Characters `tags` use against the limit: YouTube counts the commas between tags
+ * and wraps tags containing spaces in quotes
+ */
+export function countTagCharacters(tags: string[]): number {
+    return tags.reduce((sum, tag) => sum + tag.length + (tag.includes(' ') ? 2 : 0), 0) + Math.max(tags.length - 1, 0);
+}
+
+/**
+ * The first `tags` that fit in `limit` characters; a tag that doesn't fit is skipped
+ * so shorter ones after it can still use the room
+ */
+export function packTags(tags: string[], limit = TAG_CHARACTER_LIMIT): string[] {
+    const packed: string[] = [];
+    tags.forEach(tag => {
+        if (countTagCharacters([...packed, tag]) <= limit) packed.push(tag);
+    });
+    return packed;
+}
+
+/**
+ * "Minecraft Survival" -> "#minecraftsurvival"
+ */
+export function toHashtag(tag: string): string {
+    return `#${tag.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')}`;
+}
+
+// Share of the keyword's terms (words and word pairs) that `text` also has
+const overlap = (keywordTerms: Set<string>, text: string) => {
+    if (keywordTerms.size === 0) return 0;
+    const terms = new Set(extractTerms(text));
+    let shared = 0;
+    keywordTerms.forEach(term => { if (terms.has(term)) shared++; });
+    return shared / keywordTerms.size;
+};
+
+/**
+ * Rank tag candidates for `keyword`. Relevance is mostly term overlap with the keyword,
+ * plus a source signal: opportunity for measured keywords, prominence for autocomplete
+ * suggestions and how many top results use a tag. Top-result tags used by several
+ * videos qualify even without overlap, since that is what ranks for the keyword.
+ */
+export function generateTags(keyword: string, sources: TagSources): TagSuggestions {
+    const keywordTerms = new Set(extractTerms(keyword));
+    const candidates = new Map<string, TagCandidate>();
+    const add = (tag: string, source: TagSource, relevance: number) => {
+        const normalized = tag.trim().replace(/\s+/g, ' ');
+        const key = normalized.toLowerCase();
+        if (!normalized || normalized.length > MAX_TAG_LENGTH || relevance <= 0) return;
+        const existing = candidates.get(key);
+        if (!existing || existing.relevance < relevance) {
+            candidates.set(key, { tag: normalized, source, relevance: Math.min(relevance, 1) });
+        }
+    };
+
+    add(keyword, 'keyword', 1);
+
+    sources.analyses.forEach(a => {
+        const own = a.keyword === keyword;
+        const mostUsed = Math.max(a.metrics.topTags[0]?.videos || 1, 1);
+        // Tags ranking for other measured keywords count for half and need overlap
+        a.metrics.topTags.forEach(({ tag, videos }) => {
+            const score = overlap(keywordTerms, tag);
+            if (score > 0 || (own && videos >= 2)) add(tag, 'top-videos', score * 0.6 + (videos / mostUsed) * (own ? 0.4 : 0.2));
+        });
+
+        if (own) return;
+        const score = overlap(keywordTerms, a.keyword);
+        if (score > 0) add(a.keyword, 'analyzed', score * 0.6 + (a.opportunityScore / 100) * 0.4);
+    });
+
+    sources.discovered.forEach((suggestion, i) => {
+        if (suggestion === keyword) return;
+        const score = overlap(keywordTerms, suggestion);
+        if (score > 0) add(suggestion, 'autocomplete', score * 0.6 + (1 - i / sources.discovered.length) * 0.3);
+    });
+
+    const ranked = Array.from(candidates.values()).sort((a, b) => b.relevance - a.relevance);
+
+    // Hashtags stay short enough to read: one or two words each, then the keyword's own words
+    const hashtagSources = [
+        ...ranked.filter(candidate => candidate.tag.split(' ').length <= 2).map(candidate => candidate.tag),
+        ...tokenize(keyword),
+    ];
+    const hashtags = Array.from(new Set(hashtagSources.map(toHashtag)))
+        .filter(hashtag => hashtag.length > 1 && hashtag.length <= MAX_HASHTAG_LENGTH + 1)
+        .slice(0, MAX_HASHTAGS);
+
+    return {
+        candidates: ranked,
+        packed: packTags(ranked.map(candidate => candidate.tag)),
+        hashtags,
+        // Shorts are conventionally tagged #shorts first
+        shortsHashtags: ['#shorts', ...hashtags.filter(hashtag => hashtag !== '#shorts').slice(0, 2)],
+    };
+}
@@ -0,0 +1,121 @@
+/**
+ * TF-IDF text similarity for short documents such as a channel's description and
+ * video titles. Runs locally; no model or API involved.
+ */
+
+export const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'you', 'your', 'with', 'this', 'that', 'are', 'was', 'from', 'how', 'what',
+    'why', 'who', 'when', 'where', 'can', 'will', 'not', 'but', 'all', 'our', 'out', 'get', 'got',
+    'has', 'have', 'had', 'its', "it's", 'into', 'about', 'just', 'than', 'then', 'them', 'they',
+    'his', 'her', 'she', 'him', 'one', 'more', 'most', 'some', 'any', 'too', 'very', "i'm", 'did',
+    'does', "don't", 'vs', 'ft', 'feat', 'official', 'video', 'videos', 'shorts', 'short', 'channel',
+    'subscribe', 'new', 'every', 'here', 'there', 'which', 'also', 'like', 'make', 'only', 'over',
+    'https', 'http', 'www', 'com', 'youtube', 'instagram', 'tiktok', 'twitter', 'facebook', 'email',
+    'business', 'inquiries', 'welcome', 'week', 'day', 'part', 'episode',
+]);
+
+/**
+ * Lowercase words of 3+ letters, without stop words or bare numbers
+ */
+export function tokenize(text: string): string[] {
+    return text.toLowerCase()
+        .split(/[^\p{L}\p{N}']+/u)
+        .map(word => word.replace(/^'+|'+$/g, '').replace(/'s$/, ''))
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+// "recipes" -> "recipe", so plurals count as the same term
+const stem = (word: string) =>
+    (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') && !word.includes("'") ? word.slice(0, -1) : word);
+
+/**
+ * Terms of a document: stemmed words plus adjacent word pairs ("minecraft survival"),
+ * taken per line so pairs don't span two titles
+ */
+export function extractTerms(text: string): string[] {
+    return text.split(/\n+/).flatMap(line => {
+        const words = tokenize(line).map(stem);
+        const pairs = words.slice(1).map((word, i) => `${words[i]} ${word}`);
+        return [...words, ...pairs];
+    });
+}
+
+export type TermVector = Map<string, number>;
+
+/**
+ * One TF-IDF vector per document, with IDF taken over `documents`
+ */
+export function buildTfIdfVectors(documents: string[]): TermVector[] {
+    const termLists = documents.map(extractTerms);
+    const documentFrequency = new Map<string, number>();
+    termLists.forEach(terms => {
+        new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    });
+
+    const count = documents.length;
+    return termLists.map(terms => {
+        const frequency = new Map<string, number>();
+        terms.forEach(term => frequency.set(term, (frequency.get(term) || 0) + 1));
+
+        const vector: TermVector = new Map();
+        frequency.forEach((tf, term) => {
+            // Smoothed IDF, so a term in every document still counts a little
+            const idf = Math.log((count + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+            vector.set(term, (1 + Math.log(tf)) * idf);
+        });
+        return vector;
+    });
+}
+
+const norm = (vector: TermVector) => Math.sqrt(Array.from(vector.values()).reduce((sum, w) => sum + w * w, 0));
+
+/**
+ * Cosine similarity (0-1) of two term vectors
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+    const denominator = norm(a) * norm(b);
+    if (denominator === 0) return 0;
+    let dot = 0;
+    a.forEach((weight, term) => {
+        const other = b.get(term);
+        if (other) dot += weight * other;
+    });
+    return dot / denominator;
+}
+
+/**
+ * The first `limit` terms of a ranked list, skipping any that repeat a word already
+ * picked ("survival" after "minecraft survival", or the other way round)
+ */
+function pickDistinct(rankedTerms: string[], limit: number): string[] {
+    const picked: string[] = [];
+    for (const term of rankedTerms) {
+        if (picked.length >= limit) break;
+        const words = term.split(' ');
+        if (picked.some(p => p.split(' ').some(word => words.includes(word)))) continue;
+        picked.push(term);
+    }
+    return picked;
+}
+
+/**
+ * Terms both vectors share, strongest contribution to their similarity first
+ */
+export function sharedTerms(a: TermVector, b: TermVector, limit = 5): string[] {
+    const ranked = Array.from(a.entries())
+        .filter(([term]) => b.has(term))
+        .map(([term, weight]) => ({ term, score: weight * b.get(term)! }))
+        .sort((x, y) => y.score - x.score)
+        .map(({ term }) => term);
+    return pickDistinct(ranked, limit);
+}
+
+/**
+ * Highest-weighted terms of a vector, for labelling a single document
+ */
+export function topTerms(vector: TermVector, limit = 8): string[] {
+    const ranked = Array.from(vector.entries())
+        .sort((x, y) => y[1] - x[1])
+        .map(([term]) => term);
+    return pickDistinct(ranked, limit);
+}
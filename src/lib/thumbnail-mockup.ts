@@ -0,0 +1,262 @@
+/**
+ * Renders a thumbnail concept onto a 1280×720 canvas: a background from its color
+ * scheme, the text overlay in a heavy stroked font placed the way its layout describes,
+ * and an optional face or product cut-out on the other side. Layouts are free text from
+ * the AI, so placement is read from position words ("text on the left", "face right").
+ */
+
+export const THUMBNAIL_WIDTH = 1280;
+export const THUMBNAIL_HEIGHT = 720;
+
+const FONT_FAMILY = "Impact, 'Anton', 'Arial Black', sans-serif";
+const PADDING = 56;
+const MAX_FONT_SIZE = 200;
+const MIN_FONT_SIZE = 48;
+const FALLBACK_COLORS = ['#111827', '#DC2626', '#FFFFFF'];
+
+export interface ThumbnailMockupSpec {
+    textOverlay: string;
+    colorScheme: string; // Free text with hex colors, e.g. "#FF0000 (red), #FFFFFF"
+    layout: string;
+}
+
+export type MockupPosition = 'left' | 'right' | 'center';
+
+export interface MockupLayout {
+    text: MockupPosition;
+    subject: MockupPosition;
+    textVertical: 'top' | 'middle' | 'bottom';
+}
+
+/**
+ * Hex colors in the scheme, in order, expanded to #RRGGBB
+ */
+export function parseColors(colorScheme: string): string[] {
+    return (colorScheme.match(/#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/gi) || []).map(color =>
+        color.length === 4 ? `#${color.slice(1).split('').map(c => c + c).join('')}` : color
+    ).map(color => color.toUpperCase());
+}
+
+const SUBJECT_WORDS = /\b(face|person|creator|host|subject|character|product|man|woman|he|she|reaction|portrait|image|photo)\b/i;
+const TEXT_WORDS = /\b(text|title|words|headline|caption|overlay)\b/i;
+
+function findPosition(clause: string): MockupPosition | null {
+    if (/\bleft\b/i.test(clause)) return 'left';
+    if (/\bright\b/i.test(clause)) return 'right';
+    if (/\b(center|centre|middle)\b/i.test(clause)) return 'center';
+    return null;
+}
+
+/**
+ * Where the text and the subject go, read clause by clause from the layout description.
+ * Defaults to text left, subject right, the most common thumbnail arrangement.
+ */
+export function parseLayout(layout: string): MockupLayout {
+    const clauses = layout.split(/[.;,\n]|\band\b|\bwhile\b|\bwith\b/i).map(clause => clause.trim()).filter(Boolean);
+    let text: MockupPosition | null = null;
+    let subject: MockupPosition | null = null;
+    let textVertical: MockupLayout['textVertical'] = 'middle';
+
+    clauses.forEach(clause => {
+        const position = findPosition(clause);
+        if (TEXT_WORDS.test(clause)) {
+            if (position && !text) text = position;
+            if (/\b(top|upper)\b/i.test(clause)) textVertical = 'top';
+            else if (/\b(bottom|lower)\b/i.test(clause)) textVertical = 'bottom';
+        } else if (position && !subject && SUBJECT_WORDS.test(clause)) {
+            subject = position;
+        }
+    });
+
+    const opposite = (position: MockupPosition): MockupPosition =>
+        position === 'left' ? 'right' : position === 'right' ? 'left' : 'right';
+    const resolvedText: MockupPosition = text ?? (subject ? opposite(subject) : 'left');
+    // Centered text sits above the subject, so both may be centered
+    const resolvedSubject: MockupPosition = subject && (subject !== resolvedText || resolvedText === 'center')
+        ? subject
+        : opposite(resolvedText);
+    return { text: resolvedText, subject: resolvedSubject, textVertical };
+}
+
+const luminance = (hex: string) => {
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255)
+        .map(c => (c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)));
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const contrast = (a: string, b: string) => {
+    const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+    return (light + 0.05) / (dark + 0.05);
+};
+
+const saturation = (hex: string) => {
+    const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+    const max = Math.max(r, g, b);
+    return max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+};
+
+// Mix `hex` toward black by `amount` (0-1)
+const shade = (hex: string, amount: number) => {
+    const channels = [1, 3, 5].map(i => Math.round(parseInt(hex.slice(i, i + 2), 16) * (1 - amount)));
+    return `#${channels.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * The color the scheme names as background ("#FFD700 background"), if any
+ */
+export function findBackgroundColor(colorScheme: string): string | undefined {
+    const clause = colorScheme.split(/[,;\n]/).find(part => /\b(background|backdrop|bg)\b/i.test(part) && parseColors(part).length > 0);
+    return clause ? parseColors(clause)[0] : undefined;
+}
+
+/**
+ * Background, text and accent colors. The background is the one the scheme names, else
+ * its darkest color; the text is whichever color stands out most against it, and the
+ * accent the most saturated of the rest that still reads on it.
+ */
+export function pickMockupColors(
+    colors: string[],
+    preferredBackground?: string
+): { background: string; backgroundEnd: string; text: string; accent: string } {
+    const palette = colors.length > 0 ? colors : FALLBACK_COLORS;
+    const byLuminance = [...palette].sort((a, b) => luminance(a) - luminance(b));
+    const background = preferredBackground || byLuminance[0];
+    const neighbour = byLuminance.find(color => color !== background && contrast(color, background) < 3);
+    const backgroundEnd = neighbour || shade(background, 0.35);
+    const text = [...palette, '#FFFFFF', '#000000'].sort((a, b) => contrast(b, background) - contrast(a, background))[0];
+    const accent = palette.filter(color => color !== background && color !== text && contrast(color, background) >= 2)
+        .sort((a, b) => saturation(b) - saturation(a))[0] || text;
+    return { background, backgroundEnd, text, accent };
+}
+
+/**
+ * Split `text` into lines no wider than `maxWidth` at the context's current font
+ */
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    text.split(/\s+/).filter(Boolean).forEach(word => {
+        const last = lines[lines.length - 1];
+        if (last !== undefined && ctx.measureText(`${last} ${word}`).width <= maxWidth) {
+            lines[lines.length - 1] = `${last} ${word}`;
+        } else {
+            lines.push(word);
+        }
+    });
+    return lines;
+}
+
+/**
+ * The largest font size at which `text` fits the box, with its lines
+ */
+function fitText(ctx: CanvasRenderingContext2D, text: string, width: number, height: number): { size: number; lines: string[] } {
+    for (let size = MAX_FONT_SIZE; size > MIN_FONT_SIZE; size -= 4) {
+        ctx.font = `900 ${size}px ${FONT_FAMILY}`;
+        const lines = wrapLines(ctx, text, width);
+        const widest = Math.max(...lines.map(line => ctx.measureText(line).width));
+        if (widest <= width && lines.length * size * 1.05 <= height) return { size, lines };
+    }
+    ctx.font = `900 ${MIN_FONT_SIZE}px ${FONT_FAMILY}`;
+    return { size: MIN_FONT_SIZE, lines: wrapLines(ctx, text, width) };
+}
+
+const columnX = (position: MockupPosition, width: number) =>
+    position === 'left' ? 0 : position === 'right' ? THUMBNAIL_WIDTH - width : (THUMBNAIL_WIDTH - width) / 2;
+
+/**
+ * Draw the mockup onto `canvas`, resizing it to 1280×720. Text placed left or right keeps
+ * to its side even without a cut-out, leaving the subject's side free as the concept describes.
+ */
+export function renderThumbnailMockup(canvas: HTMLCanvasElement, spec: ThumbnailMockupSpec, cutout?: HTMLImageElement | null): void {
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = THUMBNAIL_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const colors = pickMockupColors(parseColors(spec.colorScheme), findBackgroundColor(spec.colorScheme));
+    const layout = parseLayout(spec.layout);
+
+    // Background: diagonal gradient with a glow behind the subject and darker edges
+    const gradient = ctx.createLinearGradient(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    gradient.addColorStop(0, colors.background);
+    gradient.addColorStop(1, colors.backgroundEnd);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+    const glowX = columnX(layout.subject, THUMBNAIL_WIDTH / 2) + THUMBNAIL_WIDTH / 4;
+    const glow = ctx.createRadialGradient(glowX, THUMBNAIL_HEIGHT / 2, 0, glowX, THUMBNAIL_HEIGHT / 2, THUMBNAIL_HEIGHT * 0.75);
+    glow.addColorStop(0, `${colors.accent}99`);
+    glow.addColorStop(1, `${colors.accent}00`);
+    ctx.fillStyle = glow;
+    ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+    const vignette = ctx.createRadialGradient(
+        THUMBNAIL_WIDTH / 2, THUMBNAIL_HEIGHT / 2, THUMBNAIL_HEIGHT * 0.4,
+        THUMBNAIL_WIDTH / 2, THUMBNAIL_HEIGHT / 2, THUMBNAIL_WIDTH * 0.75
+    );
+    vignette.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    vignette.addColorStop(1, 'rgba(0, 0, 0, 0.55)');
+    ctx.fillStyle = vignette;
+    ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+    // Cut-out: scaled to fit its half, standing on the bottom edge, with a light outline
+    if (cutout && cutout.naturalWidth > 0) {
+        const boxWidth = THUMBNAIL_WIDTH * 0.5;
+        const boxHeight = THUMBNAIL_HEIGHT * 0.95;
+        const scale = Math.min(boxWidth / cutout.naturalWidth, boxHeight / cutout.naturalHeight);
+        const width = cutout.naturalWidth * scale;
+        const height = cutout.naturalHeight * scale;
+        const x = columnX(layout.subject, boxWidth) + (boxWidth - width) / 2;
+        ctx.save();
+        ctx.shadowColor = 'rgba(255, 255, 255, 0.9)';
+        ctx.shadowBlur = 24;
+        ctx.drawImage(cutout, x, THUMBNAIL_HEIGHT - height, width, height);
+        ctx.restore();
+    }
+
+    const text = spec.textOverlay.trim().toUpperCase();
+    if (!text) return;
+
+    const hasCutout = !!cutout && cutout.naturalWidth > 0;
+    const columnWidth = layout.text !== 'center' ? THUMBNAIL_WIDTH * 0.55 : THUMBNAIL_WIDTH;
+    const boxWidth = columnWidth - PADDING * 2;
+    const boxHeight = THUMBNAIL_HEIGHT - PADDING * 2;
+    const { size, lines } = fitText(ctx, text, boxWidth, hasCutout && layout.text === 'center' ? boxHeight * 0.45 : boxHeight);
+    const lineHeight = size * 1.05;
+    const blockHeight = lines.length * lineHeight;
+    // Centered text over a cut-out sits above its head
+    const top = layout.textVertical === 'top' || (hasCutout && layout.text === 'center') ? PADDING
+        : layout.textVertical === 'bottom' ? THUMBNAIL_HEIGHT - PADDING - blockHeight
+            : (THUMBNAIL_HEIGHT - blockHeight) / 2;
+    const align: CanvasTextAlign = layout.text;
+    const left = columnX(layout.text, columnWidth) + PADDING;
+    const x = align === 'left' ? left : align === 'right' ? left + boxWidth : left + boxWidth / 2;
+
+    ctx.font = `900 ${size}px ${FONT_FAMILY}`;
+    ctx.textAlign = align;
+    ctx.textBaseline = 'top';
+    ctx.lineJoin = 'round';
+    lines.forEach((line, i) => {
+        const y = top + i * lineHeight;
+        // A thick contrasting stroke and a drop shadow keep the text readable at phone size
+        ctx.save();
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+        ctx.shadowOffsetY = size * 0.06;
+        ctx.shadowBlur = size * 0.08;
+        ctx.strokeStyle = luminance(colors.text) > 0.4 ? '#000000' : '#FFFFFF';
+        ctx.lineWidth = size * 0.16;
+        ctx.strokeText(line, x, y);
+        ctx.restore();
+        // The last line takes the accent color, like the emphasized word of a real thumbnail
+        ctx.fillStyle = lines.length > 1 && i === lines.length - 1 ? colors.accent : colors.text;
+        ctx.fillText(line, x, y);
+    });
+}
+
+/**
+ * The canvas as a PNG blob
+ */
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the mockup as PNG'))), 'image/png');
+    });
+}
@@ -0,0 +1,233 @@
+/**
+ * Title scoring for A/B comparisons before publishing. Each candidate is scored on
+ * length, where the keyword sits, power words, numbers, curiosity cues and how close
+ * it is to the titles already performing in the niche, with a sentence per factor
+ * explaining its score. Only the niche titles come from YouTube; scoring is local.
+ */
+
+import type { WeightedFactor } from '@/types/scoring';
+import { searchVideos, getVideos } from './youtube-client';
+import { assertQuotaBudget, QUOTA_COSTS } from './quota-ledger';
+import { generateStructured, s } from './ai-schema';
+import { buildTfIdfVectors, cosineSimilarity, extractTerms, TermVector } from './text-similarity';
+import { scale } from './utils';
+import { logger } from './logger';
+
+// Top titles read for the niche comparison
+const NICHE_TITLES = 25;
+// Candidate titles are compared with this many of their closest niche titles
+const CLOSEST_TITLES = 3;
+export const MAX_CANDIDATE_TITLES = 10;
+
+export interface NicheTitle {
+    videoId: string;
+    title: string;
+    views: number;
+}
+
+export type TitleFactorKey = 'length' | 'frontLoaded' | 'powerWords' | 'numbers' | 'curiosity' | 'nicheSimilarity';
+
+export interface TitleFactor extends WeightedFactor<TitleFactorKey> {
+    explanation: string;
+}
+
+export interface TitleScore {
+    title: string;
+    score: number; // 0-100, sum of factor contributions
+    factors: TitleFactor[];
+    closestNicheTitle?: NicheTitle;
+}
+
+const FACTOR_WEIGHTS: Record<TitleFactorKey, number> = {
+    length: 0.15,
+    frontLoaded: 0.2,
+    powerWords: 0.15,
+    numbers: 0.1,
+    curiosity: 0.15,
+    nicheSimilarity: 0.25,
+};
+
+const FACTOR_LABELS: Record<TitleFactorKey, string> = {
+    length: 'Length',
+    frontLoaded: 'Keyword up front',
+    powerWords: 'Power words',
+    numbers: 'Numbers',
+    curiosity: 'Curiosity gap',
+    nicheSimilarity: 'Like top titles',
+};
+
+const POWER_WORDS = new Set([
+    'best', 'worst', 'ultimate', 'secret', 'secrets', 'proven', 'easy', 'easiest', 'simple', 'fast', 'faster',
+    'instantly', 'free', 'insane', 'crazy', 'shocking', 'surprising', 'genius', 'epic', 'hidden', 'finally',
+    'mistake', 'mistakes', 'never', 'always', 'actually', 'truth', 'exposed', 'complete', 'beginner',
+    'beginners', 'perfect', 'powerful', 'massive', 'brutal', 'honest', 'unbelievable', 'essential', 'stop',
+]);
+
+// Phrases that open a question or promise a reveal without giving it away
+const CURIOSITY_PATTERNS: { pattern: RegExp; cue: string }[] = [
+    { pattern: /\?/, cue: 'asks a question' },
+    { pattern: /\b(why|what happens|what if|how i|the real reason)\b/i, cue: 'promises an explanation' },
+    { pattern: /\b(nobody|no one|didn't expect|you won't believe|turns out|the truth)\b/i, cue: 'hints at something unexpected' },
+    { pattern: /\bi (tried|tested|spent|survived|built|bought)\b/i, cue: 'sets up a personal experiment' },
+    { pattern: /\b(this|these)\b/i, cue: 'withholds what "this" is' },
+    { pattern: /\b(vs\.?|versus|but|instead)\b/i, cue: 'sets up a contrast' },
+    { pattern: /(\.\.\.|…|\(|\[)/, cue: 'adds an aside' },
+];
+
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+
+/**
+ * Quota units for fetchNicheTitles (nothing when the search is cached)
+ */
+export function estimateNicheTitlesCost(): number {
+    return QUOTA_COSTS.search + QUOTA_COSTS.videos;
+}
+
+/**
+ * The most viewed videos for `keyword`, as the reference set for nicheSimilarity
+ */
+export async function fetchNicheTitles(keyword: string): Promise<NicheTitle[]> {
+    assertQuotaBudget(estimateNicheTitlesCost());
+
+    const search = await searchVideos({ q: keyword, maxResults: NICHE_TITLES, order: 'viewCount' });
+    const ids = search.items.map(item => item.id.videoId).filter(Boolean);
+    const videos = await getVideos(ids, 'statistics,snippet');
+
+    return videos
+        .map(video => ({ videoId: video.id, title: video.snippet.title, views: parseInt(video.statistics.viewCount || '0') }))
+        .sort((a, b) => b.views - a.views);
+}
+
+function scoreLength(title: string): [number, string] {
+    const length = title.length;
+    // Search results and suggested videos cut titles off at roughly 60-70 characters
+    const score = length < 40 ? scale(length, 15, 40) : length <= 60 ? 100 : 100 - scale(length, 60, 90);
+    const verdict = length < 40 ? 'short; there is room for more detail'
+        : length <= 60 ? 'within the 40-60 range that shows in full'
+            : 'long enough to be cut off in search and suggestions';
+    return [score, `${length} characters, ${verdict}.`];
+}
+
+function scoreFrontLoaded(title: string, keyword: string): [number, string] {
+    const titleWords = words(title);
+    const keywordTerms = new Set(extractTerms(keyword).filter(term => !term.includes(' ')));
+    if (keywordTerms.size === 0) return [50, 'No keyword to look for.'];
+
+    const stems = titleWords.map(word => extractTerms(word)[0]);
+    const position = stems.findIndex(stem => keywordTerms.has(stem));
+    const covered = Array.from(keywordTerms).filter(term => stems.includes(term)).length / keywordTerms.size;
+    if (position < 0) return [0, `"${keyword}" doesn't appear, so the title won't match searches for it.`];
+
+    const placement = 100 - scale(position, 2, 8);
+    const score = placement * (0.5 + covered * 0.5);
+    const where = position <= 2 ? 'within the first three words' : `at word ${position + 1}`;
+    const coverage = covered < 1 ? `, with ${Math.round(covered * 100)}% of its words` : '';
+    return [score, `The keyword starts ${where}${coverage}.`];
+}
+
+function scorePowerWords(title: string): [number, string] {
+    const found = Array.from(new Set(words(title).filter(word => POWER_WORDS.has(word))));
+    // One or two sharpen a title; more starts to read as clickbait
+    const score = found.length === 0 ? 0 : found.length <= 2 ? 70 + (found.length - 1) * 30 : 70;
+    return [score, found.length === 0
+        ? 'No power words such as "best", "secret" or "mistakes".'
+        : `Uses ${found.map(word => `"${word}"`).join(', ')}${found.length > 2 ? '; more than two can read as clickbait' : ''}.`];
+}
+
+function scoreNumbers(title: string): [number, string] {
+    const numbers = title.match(/\d+(?:[.,]\d+)?%?/g) || [];
+    if (numbers.length === 0) return [0, 'No numbers; lists, years, prices and timeframes make a promise concrete.'];
+    return [100, `Includes ${numbers.map(n => `"${n}"`).join(', ')}, which makes the promise concrete.`];
+}
+
+function scoreCuriosity(title: string): [number, string] {
+    const cues = CURIOSITY_PATTERNS.filter(({ pattern }) => pattern.test(title)).map(({ cue }) => cue);
+    const score = Math.min(cues.length * 45, 100);
+    return [score, cues.length === 0
+        ? 'Nothing left open; the title gives the whole story away.'
+        : `The title ${cues.join(' and ')}.`];
+}
+
+/**
+ * Score `titles` for `keyword`. Without niche titles (e.g. the search failed) the
+ * similarity factor is left out and the other weights are scaled up to sum to 1.
+ */
+export function scoreTitles(titles: string[], keyword: string, nicheTitles: NicheTitle[] = []): TitleScore[] {
+    // IDF over niche and candidate titles together, so words every title shares count little
+    const vectors = buildTfIdfVectors([...nicheTitles.map(t => t.title), ...titles]);
+    const nicheVectors = vectors.slice(0, nicheTitles.length);
+    const useNiche = nicheTitles.length > 0;
+    const totalWeight = 1 - (useNiche ? 0 : FACTOR_WEIGHTS.nicheSimilarity);
+
+    return titles.map((title, i) => {
+        const raw: Partial<Record<TitleFactorKey, [number, string]>> = {
+            length: scoreLength(title),
+            frontLoaded: scoreFrontLoaded(title, keyword),
+            powerWords: scorePowerWords(title),
+            numbers: scoreNumbers(title),
+            curiosity: scoreCuriosity(title),
+        };
+
+        let closestNicheTitle: NicheTitle | undefined;
+        if (useNiche) {
+            const similarity = compareWithNiche(vectors[nicheTitles.length + i], nicheVectors);
+            closestNicheTitle = nicheTitles[similarity.closest];
+            raw.nicheSimilarity = [
+                // Close to proven titles is good; a near copy adds nothing
+                similarity.average > 0.7 ? 70 : scale(similarity.average, 0.05, 0.4),
+                similarity.average > 0.7
+                    ? 'Nearly identical to titles already ranking; it may not stand out.'
+                    : `${Math.round(similarity.average * 100)}% similar to its ${CLOSEST_TITLES} closest top-performing titles in the niche.`,
+            ];
+        }
+
+        const factors = (Object.keys(raw) as TitleFactorKey[]).map(key => {
+            const [score, explanation] = raw[key]!;
+            const weight = FACTOR_WEIGHTS[key] / totalWeight;
+            return { key, label: FACTOR_LABELS[key], score, weight, contribution: score * weight, explanation };
+        });
+
+        return {
+            title,
+            score: Math.round(factors.reduce((sum, f) => sum + f.contribution, 0)),
+            factors,
+            closestNicheTitle,
+        };
+    });
+}
+
+function compareWithNiche(vector: TermVector, nicheVectors: TermVector[]): { average: number; closest: number } {
+    const similarities = nicheVectors.map((niche, index) => ({ index, value: cosineSimilarity(vector, niche) }))
+        .sort((a, b) => b.value - a.value);
+    const top = similarities.slice(0, CLOSEST_TITLES);
+    return {
+        average: top.reduce((sum, entry) => sum + entry.value, 0) / Math.max(top.length, 1),
+        closest: similarities[0]?.index ?? 0,
+    };
+}
+
+const titleDraftsSchema = s.array(s.string(), { min: 1 });
+
+/**
+ * Title drafts for `keyword` to start an A/B comparison from. Asks the AI, and falls
+ * back to fixed templates when no provider answers.
+ */
+export async function draftTitles(keyword: string, nicheTitles: NicheTitle[] = []): Promise<string[]> {
+    const prompt = `Write 5 different YouTube title drafts for a video targeting the search keyword "${keyword}".
+Put the keyword near the start, keep each under 60 characters and vary the angle (how-to, list, story, question, comparison).
+${nicheTitles.length > 0 ? `\nThese titles already perform well for the keyword; don't copy them:\n${nicheTitles.slice(0, 10).map(t => `- ${t.title}`).join('\n')}\n` : ''}
+Return only the titles.`;
+
+    const result = await generateStructured(prompt, titleDraftsSchema);
+    if (result.ok) return result.data.slice(0, 5);
+
+    logger.warn('Title drafts failed, using templates:', result.message);
+    const phrase = keyword.replace(/\b\p{L}/gu, letter => letter.toUpperCase());
+    return [
+        `${phrase}: The Complete Beginner's Guide`,
+        `7 ${phrase} Mistakes Nobody Tells You About`,
+        `I Tried ${phrase} for 30 Days. Here's What Happened`,
+        `${phrase} in ${new Date().getFullYear()}: What Actually Works`,
+        `Why Your ${phrase} Isn't Working (And How to Fix It)`,
+    ];
+}
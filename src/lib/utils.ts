@@ -4,5 +4,16 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
     return twMerge(clsx(inputs))
 }
- 
- 
+
+// Middle value (mean of the two middle values, rounded, for even counts); 0 when empty
+export function median(values: number[]): number {
+    if (values.length === 0) return 0
+    const sorted = [...values].sort((a, b) => a - b)
+    const mid = Math.floor(sorted.length / 2)
+    return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2)
+}
+
+// 0-100 position of `value` between `low` and `high`, clamped at both ends
+export function scale(value: number, low: number, high: number): number {
+    return Math.min(100, Math.max(0, ((value - low) / (high - low)) * 100))
+}
@@ -0,0 +1,79 @@
+import { Video } from '@/types/video';
+import { SearchFilters } from '@/types/filters';
+
+// Videos shorter than this count as Shorts (the SHORT duration filter and channel reports)
+const SHORT_CUTOFF_SECONDS = 60;
+
+export function isShortLength(lengthSeconds: number): boolean {
+    return lengthSeconds < SHORT_CUTOFF_SECONDS;
+}
+
+/**
+ * Client-side refinement for filters the search API can't apply
+ * (channel size, minimum views) or only applies approximately (region, date range)
+ */
+export function matchesFilters(v: Video, filters: SearchFilters): boolean {
+    // Region filter
+    if (filters.region !== 'ALL') {
+        if (!v.region || v.region !== filters.region) return false;
+    }
+
+    // Date Range filter (Client-side refinement)
+    if (filters.dateRange !== '7d') { // Default fetch is usually based on search, but we refine here
+        const now = new Date();
+        const videoDate = new Date(v.publishedAt);
+        const diffHours = (now.getTime() - videoDate.getTime()) / (1000 * 60 * 60);
+
+        if (filters.dateRange === '24h' && diffHours > 24) return false;
+        // Note: If user wants 30d but we only fetched 7d via API, we can't show more.
+        // This client-side filter only restricts.
+    }
+
+    // Duration filter
+    if (filters.duration === 'SHORT' && !isShortLength(v.lengthSeconds)) return false;
+    if (filters.duration === 'MEDIUM' && (isShortLength(v.lengthSeconds) || v.lengthSeconds > 300)) return false;
+    if (filters.duration === 'LONG' && v.lengthSeconds <= 300) return false;
+
+    // Channel Size filter
+    if (filters.channelSize === 'SMALL' && v.subscriberCount >= 10000) return false;
+    if (filters.channelSize === 'MEDIUM' && (v.subscriberCount < 10000 || v.subscriberCount > 500000)) return false;
+    if (filters.channelSize === 'LARGE' && v.subscriberCount <= 500000) return false;
+
+    // Min Views filter
+    const minViews = filters.minViews === 'ALL' ? 0 : parseInt(filters.minViews);
+    if (v.views < minViews) return false;
+
+    // Channel-relative outlier filter; videos without a channel baseline can't qualify.
+    // Filters saved before this option existed have no minOutlier.
+    if (filters.minOutlier && filters.minOutlier !== 'ALL') {
+        if ((v.outlierMultiplier ?? 0) < parseFloat(filters.minOutlier)) return false;
+    }
+
+    return true;
+}
+
+export function filterVideos(videos: Video[], filters: SearchFilters): Video[] {
+    return videos.filter(v => matchesFilters(v, filters));
+}
+
+/**
+ * Results in the order chosen by the sort filter (a new array)
+ */
+export function sortVideos(videos: Video[], sortBy: SearchFilters['sortBy']): Video[] {
+    return [...videos].sort((a, b) => {
+        switch (sortBy) {
+            case 'viewCount':
+                return b.views - a.views;
+            case 'date':
+                return new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime();
+            case 'rating': // Using Likes as proxy for rating
+                return b.likes - a.likes;
+            case 'outlier': // Videos without a channel baseline go last
+                return (b.outlierMultiplier ?? -1) - (a.outlierMultiplier ?? -1);
+            case 'relevance':
+            default:
+                // Default to Viral Score (already sorted by rankVideos in App, but good to enforce)
+                return b.viralScore - a.viralScore;
+        }
+    });
+}
@@ -1,18 +1,93 @@
-import { Video } from '@/types/video';
+import { Video, ViewVelocity } from '@/types/video';
+import { SnapshotPoint } from '@/types/tracking';
+import { ScoringProfile, ScoreBreakdown, ScoreFactorKey } from '@/types/scoring';
+import { DEFAULT_SCORING_PROFILE, FACTOR_LABELS } from './scoring-profiles';
+
+// Snapshots closer together than this are too noisy to measure velocity from
+const MIN_VELOCITY_INTERVAL_HOURS = 0.25;
+
+/**
+ * Lifetime average velocity: views divided by hours since upload
+ */
+export function calculateLifetimeVelocity(views: number, publishedAt: Date): ViewVelocity {
+    const hoursOld = Math.max(
+        (Date.now() - new Date(publishedAt).getTime()) / (1000 * 60 * 60),
+        1 // Minimum 1 hour to prevent inflation
+    );
+    return { viewsPerHour: views / hoursOld, acceleration: null, source: 'lifetime' };
+}
+
+function viewsPerHourBetween(from: { views: number; fetchedAt: Date | string }, to: { views: number; fetchedAt: Date | string }): number | null {
+    const hours = (new Date(to.fetchedAt).getTime() - new Date(from.fetchedAt).getTime()) / (1000 * 60 * 60);
+    if (hours < MIN_VELOCITY_INTERVAL_HOURS) return null;
+    return Math.max(to.views - from.views, 0) / hours;
+}
+
+/**
+ * Measures real velocity from stored snapshots: views gained per hour since the
+ * latest earlier snapshot, plus acceleration against the interval before it.
+ * Returns null when the video has no usable earlier snapshot.
+ */
+export function calculateSnapshotVelocity(
+    current: { views: number; fetchedAt: Date },
+    history: SnapshotPoint[] | undefined
+): ViewVelocity | null {
+    if (!history || history.length === 0) return null;
+
+    // Ignore points recorded moments ago (e.g. the same search re-run)
+    const earlier = history.filter(point => viewsPerHourBetween(point, current) !== null);
+    if (earlier.length === 0) return null;
+
+    const previous = earlier[earlier.length - 1];
+    const viewsPerHour = viewsPerHourBetween(previous, current) ?? 0;
+
+    let acceleration: number | null = null;
+    if (earlier.length >= 2) {
+        const beforePrevious = earlier[earlier.length - 2];
+        const previousVelocity = viewsPerHourBetween(beforePrevious, previous);
+        if (previousVelocity !== null) {
+            const hours = (new Date(current.fetchedAt).getTime() - new Date(previous.fetchedAt).getTime()) / (1000 * 60 * 60);
+            acceleration = (viewsPerHour - previousVelocity) / hours;
+        }
+    }
+
+    return { viewsPerHour, acceleration, source: 'snapshot' };
+}
+
+/**
+ * Resolves the velocity to score a video with: measured when available, lifetime average otherwise
+ */
+export function getViewVelocity(video: Pick<Video, 'views' | 'publishedAt' | 'velocity'>): ViewVelocity {
+    return video.velocity ?? calculateLifetimeVelocity(video.views, video.publishedAt);
+}
+
+/**
+ * Scores current momentum (0-100) from measured velocity.
+ * A video gaining 20%+ of its total views per day scores 100; acceleration
+ * nudges the score up or down by at most 50%.
+ */
+export function calculateMomentumScore(velocity: ViewVelocity, views: number): number {
+    const dailyGrowthRate = (velocity.viewsPerHour * 24) / Math.max(views, 1);
+    let score = Math.min(dailyGrowthRate * 500, 100);
+
+    if (velocity.acceleration !== null && velocity.viewsPerHour > 0) {
+        // Relative change in velocity over one day, clamped to ±50%
+        const relativeAcceleration = (velocity.acceleration * 24) / velocity.viewsPerHour;
+        score *= 1 + Math.max(-0.5, Math.min(relativeAcceleration, 0.5));
+    }
+
+    return Math.min(score, 100);
+}
 
 /**
  * Estimates the AVD (Average View Duration) tier based on public signals
  * Since YouTube API doesn't provide actual AVD for other channels, we estimate based on:
- * - View velocity (views per hour since upload)
+ * - View velocity (measured between snapshots, or views per hour since upload)
  * - Subscriber ratio (views relative to subscriber count)
  * - Engagement rate
  */
-export function estimateAVDTier(video: Video): 'High' | 'Medium' | 'Low' {
-    const hoursOld = Math.max(
-        (Date.now() - new Date(video.publishedAt).getTime()) / (1000 * 60 * 60),
-        1 // Minimum 1 hour to prevent inflation
-    );
-    const viewVelocity = video.views / hoursOld;
+export function estimateAVDTier(video: Pick<Video, 'views' | 'publishedAt' | 'subscriberCount' | 'velocity'>): 'High' | 'Medium' | 'Low' {
+    const viewVelocity = getViewVelocity(video).viewsPerHour;
     const subscriberRatio = video.views / Math.max(video.subscriberCount, 100);
 
     // Adjusted thresholds for 1+ hour minimum
@@ -49,10 +124,25 @@ export function calculateSmallChannelBoost(subscriberCount: number): number {
 }
 
 /**
- * Determines if a video is an outlier (small channel with high views)
+ * Determines if a video is an outlier (small channel with high views).
+ * When snapshots show the video has stopped growing (<1% of its views per day)
+ * it is treated as a stale hit rather than an outlier.
  */
-export function isOutlierVideo(video: Video): boolean {
-    return video.views > video.subscriberCount * 10;
+export function isOutlierVideo(video: Pick<Video, 'views' | 'subscriberCount' | 'velocity'>, viewSubRatio = 10): boolean {
+    if (video.velocity?.source === 'snapshot') {
+        const dailyGrowthRate = (video.velocity.viewsPerHour * 24) / Math.max(video.views, 1);
+        if (dailyGrowthRate < 0.01) return false;
+    }
+    return video.views > video.subscriberCount * viewSubRatio;
+}
+
+/**
+ * Views as a multiple of the channel's median views (see lib/channel-baselines.ts),
+ * rounded to 2 decimals. Undefined when the channel has no baseline.
+ */
+export function calculateOutlierMultiplier(views: number, channelMedianViews: number | undefined): number | undefined {
+    if (!channelMedianViews || channelMedianViews <= 0) return undefined;
+    return Math.round((views / channelMedianViews) * 100) / 100;
 }
 
 /**
@@ -68,93 +158,101 @@ export function calculateViewSubRatioScore(views: number, subscribers: number):
     return score;
 }
 
+type ScoringInput = Omit<Video, 'viralScore' | 'engagementRate' | 'estimatedAVDTier' | 'isOutlier' | 'recencyMultiplier' | 'smallChannelBoost' | 'scoreBreakdown' | 'outlierMultiplier'>;
+
 /**
- * Main viral score calculation following the weighted formula:
- * Viral Score = 
- *   (Estimated AVD Tier × 0.35) +
- *   (Engagement Rate × 100 × 0.30) +
- *   (Recency Multiplier × 100 × 0.20) +
- *   (Small Channel Boost × 0.15)
- * 
- * UPDATED LOGIC for Better Outlier Detection:
- * - Increases weight of View/Sub ratio
- * - Penalizes massive channels slightly to let small outliers shine
+ * Scores each factor (0-100) and weights it with the profile's long-form or Shorts weights.
+ *
+ * Factors:
+ * - Estimated AVD tier (High 100 / Medium 60 / Low 30)
+ * - Engagement rate × 100
+ * - Freshness: measured momentum once a video has snapshots, upload recency otherwise,
+ *   so videos that peaked days ago stop ranking as fresh
+ * - View/Sub ratio (the outlier factor)
+ * - Small channel boost
+ *
+ * Long-form uploads from large channels with a weak view/sub ratio are dampened
+ * so "average" big channel uploads don't crowd out small outliers.
  */
-export function calculateViralScore(video: Omit<Video, 'viralScore' | 'engagementRate' | 'estimatedAVDTier' | 'isOutlier' | 'recencyMultiplier' | 'smallChannelBoost'>): number {
-    // 1. Estimated AVD Tier (0-100 scale)
-    const estimatedTier = estimateAVDTier(video as Video);
-    const avdScore = estimatedTier === 'High' ? 100
-        : estimatedTier === 'Medium' ? 60
-            : 30;
-
-    // 2. Engagement Rate
+export function calculateScoreBreakdown(video: ScoringInput, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): ScoreBreakdown {
+    const estimatedTier = estimateAVDTier(video);
+    const velocity = getViewVelocity(video);
     const engagementRate = (video.likes + video.comments + (video.shares || 0)) / Math.max(video.views, 1);
-    const engagementScore = Math.min(engagementRate * 100, 100);
-
-    // 3. Recency Multiplier
-    const recencyMultiplier = calculateRecencyMultiplier(video.publishedAt);
-    const recencyScore = recencyMultiplier * 100;
-
-    // 4. View/Sub Ratio (The Outlier Factor)
-    const ratioScore = calculateViewSubRatioScore(video.views, video.subscriberCount);
-
-    // 5. Small Channel Boost (Legacy factor, kept for broader small channel support)
-    const channelBoost = calculateSmallChannelBoost(video.subscriberCount);
-
-    // --- WEIGHTING ---
-    // If video is Long Form (> 60s), we prioritize Ratio and Small Channel heavily
-    const isLongForm = video.lengthSeconds > 60;
-
-    let viralScore = 0;
-
-    if (isLongForm) {
-        // Long Form Formula: Heavy on Outlier Metrics
-        viralScore = (
-            (avdScore * 0.20) +          // Quality signal
-            (engagementScore * 0.15) +   // Interaction signal
-            (recencyScore * 0.10) +      // Freshness
-            (ratioScore * 0.35) +        // PRIMARY: Views vs Subs
-            (channelBoost * 0.20)        // SECONDARY: Small channel bias
-        );
-
-        // Large Channel Dampener for Long Form
-        // If subs > 500k and Ratio < 0.5, dampen score to hide "average" big channel uploads
-        if (video.subscriberCount > 500000 && (video.views / video.subscriberCount) < 0.5) {
-            viralScore *= 0.6;
-        }
 
-    } else {
-        // Shorts Formula: Standard Viral Signals (High Velocity)
-        viralScore = (
-            (avdScore * 0.40) +
-            (engagementScore * 0.30) +
-            (recencyScore * 0.20) +
-            (channelBoost * 0.10)
-        );
-    }
+    const scores: Record<ScoreFactorKey, number> = {
+        avd: estimatedTier === 'High' ? 100 : estimatedTier === 'Medium' ? 60 : 30,
+        engagement: Math.min(engagementRate * 100, 100),
+        freshness: velocity.source === 'snapshot'
+            ? calculateMomentumScore(velocity, video.views)
+            : calculateRecencyMultiplier(video.publishedAt) * 100,
+        viewSubRatio: calculateViewSubRatioScore(video.views, video.subscriberCount),
+        smallChannel: calculateSmallChannelBoost(video.subscriberCount),
+    };
+
+    const format = video.lengthSeconds > profile.thresholds.shortsMaxSeconds ? 'long' : 'short';
+    const weights = format === 'long' ? profile.longForm : profile.shorts;
+    const weightSum = Object.values(weights).reduce((sum, w) => sum + Math.max(w, 0), 0) || 1;
+
+    const factors = (Object.keys(scores) as ScoreFactorKey[]).map(key => {
+        const weight = Math.max(weights[key], 0) / weightSum;
+        return {
+            key,
+            label: FACTOR_LABELS[key],
+            score: scores[key],
+            weight,
+            contribution: scores[key] * weight,
+        };
+    });
+
+    const { largeChannelSubs, largeChannelMinRatio, largeChannelFactor } = profile.dampeners;
+    const dampener = format === 'long'
+        && video.subscriberCount > largeChannelSubs
+        && (video.views / video.subscriberCount) < largeChannelMinRatio
+        ? largeChannelFactor
+        : 1;
+
+    const weighted = factors.reduce((sum, f) => sum + f.contribution, 0);
 
-    return Math.min(viralScore, 100);
+    return {
+        profileId: profile.id,
+        format,
+        factors,
+        dampener,
+        total: Math.min(weighted * dampener, 100),
+    };
+}
+
+/**
+ * Main viral score calculation (0-100) using the given scoring profile
+ */
+export function calculateViralScore(video: ScoringInput, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): number {
+    return calculateScoreBreakdown(video, profile).total;
 }
 
 /**
- * Enriches a raw video object with calculated fields
+ * Enriches a raw video object with calculated fields.
+ * Already-enriched videos can be passed again to re-score them with another profile.
  */
-export function enrichVideo(videoData: Omit<Video, 'viralScore' | 'engagementRate' | 'estimatedAVDTier' | 'isOutlier' | 'recencyMultiplier' | 'smallChannelBoost'>): Video {
-    const estimatedAVDTier = estimateAVDTier(videoData as Video);
+export function enrichVideo(videoData: ScoringInput, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): Video {
+    const velocity = getViewVelocity(videoData);
+    const estimatedAVDTier = estimateAVDTier({ ...videoData, velocity });
     const engagementRate = (videoData.likes + videoData.comments + (videoData.shares || 0)) / Math.max(videoData.views, 1);
     const recencyMultiplier = calculateRecencyMultiplier(videoData.publishedAt);
     const smallChannelBoost = calculateSmallChannelBoost(videoData.subscriberCount);
-    const viralScore = calculateViralScore(videoData);
-    const isOutlier = isOutlierVideo({ ...videoData, subscriberCount: videoData.subscriberCount, views: videoData.views } as Video);
+    const scoreBreakdown = calculateScoreBreakdown({ ...videoData, velocity }, profile);
+    const isOutlier = isOutlierVideo({ ...videoData, velocity }, profile.thresholds.outlierViewSubRatio);
 
     return {
         ...videoData,
-        viralScore,
+        velocity,
+        viralScore: scoreBreakdown.total,
+        scoreBreakdown,
         engagementRate,
         estimatedAVDTier,
         isOutlier,
         recencyMultiplier,
         smallChannelBoost,
+        outlierMultiplier: calculateOutlierMultiplier(videoData.views, videoData.channelMedianViews),
     };
 }
 
@@ -0,0 +1,112 @@
+/**
+ * Watchlists: niches re-searched on a schedule. Each run is diffed against the
+ * videos seen on earlier runs, and new videos that cross the entry's outlier or
+ * viral score threshold become alerts.
+ */
+
+import { Video } from '@/types/video';
+import { SearchFilters } from '@/types/filters';
+import { WatchlistEntry, WatchlistAlert } from '@/types/watchlist';
+import type { ScoringProfile } from '@/types/scoring';
+import { fetchTrendingVideos } from './youtube-api';
+import { rankVideos } from './viral-score';
+import { filterVideos } from './video-filters';
+import { recordNicheSnapshot } from './snapshot-store';
+import { logger } from './logger';
+
+export const WATCHLIST_INTERVAL_OPTIONS = [6, 12, 24];
+export const DEFAULT_ALERT_MIN_VIRAL_SCORE = 75;
+// Enough to cover several runs of results without growing preferences forever
+const MAX_SEEN_VIDEO_IDS = 500;
+
+export function createWatchlistEntry(niche: string, filters: SearchFilters): WatchlistEntry {
+    return {
+        id: `watch-${Date.now().toString(36)}`,
+        niche: niche.trim(),
+        filters: { ...filters },
+        intervalHours: 24,
+        enabled: true,
+        alertMinViralScore: DEFAULT_ALERT_MIN_VIRAL_SCORE,
+        alertOnOutliers: true,
+        createdAt: new Date().toISOString(),
+        seenVideoIds: [],
+    };
+}
+
+/**
+ * When the entry should run next (immediately if it has never run)
+ */
+export function getNextRunTime(entry: WatchlistEntry): number {
+    // Failed attempts also wait a full interval so a broken entry doesn't retry every minute
+    const last = entry.lastCheckedAt || entry.lastRunAt;
+    if (!last) return Date.now();
+    return new Date(last).getTime() + entry.intervalHours * 60 * 60 * 1000;
+}
+
+export function isWatchlistDue(entry: WatchlistEntry, now = Date.now()): boolean {
+    return entry.enabled && getNextRunTime(entry) <= now;
+}
+
+function crossesThreshold(entry: WatchlistEntry, video: Video): boolean {
+    return (entry.alertOnOutliers && video.isOutlier) || video.viralScore >= entry.alertMinViralScore;
+}
+
+/**
+ * Videos from this run that weren't in any earlier run and cross a threshold.
+ * The first run only records a baseline so adding a niche doesn't flood alerts.
+ */
+export function findNewAlerts(entry: WatchlistEntry, videos: Video[]): WatchlistAlert[] {
+    if (!entry.lastRunAt) return [];
+
+    const seen = new Set(entry.seenVideoIds);
+    const createdAt = new Date().toISOString();
+
+    return videos
+        .filter(video => !seen.has(video.id) && crossesThreshold(entry, video))
+        .map(video => ({
+            id: `${entry.id}:${video.id}`,
+            watchlistId: entry.id,
+            niche: entry.niche,
+            videoId: video.id,
+            title: video.title,
+            channelName: video.channelName,
+            viralScore: video.viralScore,
+            isOutlier: video.isOutlier,
+            createdAt,
+            read: false,
+        }));
+}
+
+/**
+ * Search the entry's niche with its filters and diff the results against earlier runs.
+ * Returns the entry's updated run state and any new alerts; errors propagate to the caller.
+ */
+export async function runWatchlist(
+    entry: WatchlistEntry,
+    profile: ScoringProfile
+): Promise<{ update: Partial<WatchlistEntry>; alerts: WatchlistAlert[] }> {
+    // Always fetch fresh data; a cached search would hide anything new
+    const { videos } = await fetchTrendingVideos(entry.niche, entry.filters, undefined, profile, { bypassCache: true });
+    const ranked = rankVideos(videos);
+
+    // Scheduled runs feed the tracking history just like manual searches
+    await recordNicheSnapshot(entry.niche, ranked)
+        .catch(error => logger.warn('Failed to record watchlist snapshot:', error));
+
+    const matching = filterVideos(ranked, entry.filters);
+    const alerts = findNewAlerts(entry, matching);
+
+    const currentIds = matching.map(v => v.id);
+    const previousIds = entry.seenVideoIds.filter(id => !currentIds.includes(id));
+
+    const now = new Date().toISOString();
+    return {
+        update: {
+            lastCheckedAt: now,
+            lastRunAt: now,
+            lastError: undefined,
+            seenVideoIds: [...currentIds, ...previousIds].slice(0, MAX_SEEN_VIDEO_IDS),
+        },
+        alerts,
+    };
+}
@@ -1,16 +1,24 @@
-import { Video } from '@/types/video';
-import { enrichVideo } from './viral-score';
-import { getBackendUrl, getAuthHeaders } from './api-config';
+import { Video, RelatedVideo } from '@/types/video';
+import { enrichVideo, calculateSnapshotVelocity } from './viral-score';
+import { getVideoHistories } from './snapshot-store';
+import { DEFAULT_SCORING_PROFILE } from './scoring-profiles';
+import type { ScoringProfile } from '@/types/scoring';
 import { logger } from './logger';
 import { SearchFilters } from '@/types/filters';
-import { fetchWithTimeout } from './fetch-utils';
-import type {
-    YouTubeSearchResponse,
-    YouTubeVideoResponse,
-    YouTubeChannelResponse,
-    YouTubePlaylistResponse,
-    YouTubeChannelDetailsResponse
-} from '@/types/youtube-api';
+import {
+    searchVideos,
+    getVideos,
+    getChannels,
+    getChannelByHandle,
+    getPlaylistItems,
+    VideoSearchParams,
+    YouTubeRequestOptions,
+    MAX_IDS_PER_REQUEST,
+} from './youtube-client';
+import { assertQuotaBudget, QUOTA_COSTS } from './quota-ledger';
+import { getChannelBaselines, estimateBaselineCost } from './channel-baselines';
+import type { ChannelBaseline } from '@/types/channel';
+import type { TrackedVideo } from '@/types/tracking';
 
 // Wealthy regions to aggregate (US, UK, Canada, Australia, Germany)
 const TARGET_REGIONS = ['US', 'GB', 'CA', 'AU', 'DE'];
@@ -18,7 +26,7 @@ const TARGET_REGIONS = ['US', 'GB', 'CA', 'AU', 'DE'];
 /**
  * Parse ISO 8601 duration to seconds (e.g., "PT1M30S" -> 90)
  */
-function parseISO8601Duration(duration: string): number {
+export function parseISO8601Duration(duration: string): number {
     if (!duration || duration === 'P0D') return 0;
 
     const match = duration.match(/P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
@@ -32,16 +40,31 @@ function parseISO8601Duration(duration: string): number {
     return days * 86400 + hours * 3600 + minutes * 60 + seconds;
 }
 
+// Results requested from each region's search
+const RESULTS_PER_REGION = 50;
+
+/**
+ * Quota units a fetchTrendingVideos call will spend with these filters at most:
+ * one search per region plus the videos and channels lookups, in 50-id batches,
+ * and channel baselines for every result (stored baselines make this much lower)
+ */
+export function estimateTrendingSearchCost(filters: SearchFilters): number {
+    const regionCount = filters.region !== 'ALL' ? 1 : TARGET_REGIONS.length;
+    const batches = Math.ceil((regionCount * RESULTS_PER_REGION) / MAX_IDS_PER_REQUEST);
+    return regionCount * QUOTA_COSTS.search + batches * (QUOTA_COSTS.videos + QUOTA_COSTS.channels) +
+        estimateBaselineCost(regionCount * RESULTS_PER_REGION);
+}
+
 /**
  * Fetch trending videos by niche/keyword aggregated from wealthy regions
  */
 export async function fetchTrendingVideos(
     niche: string,
     filters: SearchFilters,
-    pageTokenMap?: Record<string, string>
+    pageTokenMap?: Record<string, string>,
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+    options: YouTubeRequestOptions = {}
 ): Promise<{ videos: Video[]; nextPageTokenMap: Record<string, string> }> {
-    const backendUrl = getBackendUrl();
-
     // Calculate publishedAfter date based on filter
     const now = new Date();
     let daysToSubtract = 7;
@@ -61,33 +84,24 @@ export async function fetchTrendingVideos(
 
     const regionsToSearch = filters.region !== 'ALL' ? [filters.region] : TARGET_REGIONS;
 
+    // Throws QUOTA_BUDGET_EXCEEDED when the daily budget is set to block
+    assertQuotaBudget(estimateTrendingSearchCost(filters));
+
     try {
         // Step 1: Search for videos in multiple regions in parallel
-        const searchPromises = regionsToSearch.map((region: string) => {
-            let url = `${backendUrl}/api/youtube/search?` +
-                `part=snippet&` +
-                `q=${encodeURIComponent(niche)}&` +
-                `type=video&` +
-                `maxResults=50&` +
-                `regionCode=${region}`;
-
-            // Apply Filters to API Call
-
-            // Date Range
-            // Note: publishedAfter is compatible with 'relevance' and 'date' sort orders.
-            url += `&publishedAfter=${publishedAfter}`;
-
+        const searchPromises = regionsToSearch.map(async (region: string) => {
             // Sort By
-            let order = 'viewCount'; // default
+            let order: VideoSearchParams['order'] = 'viewCount'; // default
             if (filters.sortBy === 'date') order = 'date';
             if (filters.sortBy === 'rating') order = 'rating';
             if (filters.sortBy === 'relevance') order = 'relevance';
             // Note: 'viewCount' is strictly view count. 'relevance' is default YouTube algo.
-            url += `&order=${order}`;
+            // 'outlier' is a client-side sort, so it searches by view count.
 
             // Duration
+            let videoDuration: VideoSearchParams['videoDuration'];
             if (filters.duration === 'SHORT') {
-                url += `&videoDuration=short`;
+                videoDuration = 'short';
             } else if (filters.duration === 'LONG') {
                 // User wants "Regular" (16:9), which effectively means NOT shorts.
                 // YouTube API splits this into 'medium' (4-20m) and 'long' (>20m).
@@ -96,32 +110,27 @@ export async function fetchTrendingVideos(
                 // This ensures we get everything > 1 min.
             } else if (filters.duration === 'MEDIUM') {
                 // If legacy 'MEDIUM' is somehow passed, map to medium
-                url += `&videoDuration=medium`;
+                videoDuration = 'medium';
             }
 
-            // Pagination Token
-            if (pageTokenMap && pageTokenMap[region]) {
-                url += `&pageToken=${pageTokenMap[region]}`;
-            }
-
-            return fetchWithTimeout(url, { headers: getAuthHeaders(), timeout: 15000 }).then(async res => {
-                if (!res.ok) {
-                    const errorData = await res.json().catch(() => ({}));
-                    const errorMessage = errorData.error?.message || res.statusText || `Status ${res.status}`;
-                    if (errorMessage.includes('quotaExceeded') || res.status === 429) {
-                        throw new Error('QUOTA_EXCEEDED');
-                    }
-                    throw new Error(`YouTube API request failed: ${errorMessage}`);
-                }
-                const data: YouTubeSearchResponse = await res.json();
-                // Tag items within the region
-                const taggedItems = data.items.map(item => ({ ...item, region }));
-                return {
-                    region,
-                    items: taggedItems,
-                    nextPageToken: data.nextPageToken
-                };
-            });
+            const data = await searchVideos({
+                q: niche,
+                maxResults: RESULTS_PER_REGION,
+                regionCode: region,
+                // Note: publishedAfter is compatible with 'relevance' and 'date' sort orders.
+                publishedAfter,
+                order,
+                videoDuration,
+                pageToken: pageTokenMap?.[region],
+            }, options);
+
+            // Tag items within the region
+            const taggedItems = data.items.map(item => ({ ...item, region }));
+            return {
+                region,
+                items: taggedItems,
+                nextPageToken: data.nextPageToken
+            };
         });
 
         const searchResults = await Promise.all(searchPromises);
@@ -151,47 +160,48 @@ export async function fetchTrendingVideos(
             return { videos: [], nextPageTokenMap: newPageTokenMap };
         }
 
-        // Limit to 50 videos max for detailed stats call per batch
-        const videoIds = Array.from(videoIdSet).slice(0, 50).join(',');
-
-        const statsResponse = await fetchWithTimeout(
-            `${backendUrl}/api/youtube/videos?` +
-            `part=statistics,snippet,contentDetails&` +
-            `id=${videoIds}`,
-            { headers: getAuthHeaders(), timeout: 15000 }
-        );
-
-        if (!statsResponse.ok) {
-            const errorData = await statsResponse.json().catch(() => ({}));
-            throw new Error(`YouTube API statistics request failed: ${errorData.error?.message || statsResponse.statusText}`);
-        }
-
-        const statsData: YouTubeVideoResponse = await statsResponse.json();
-
-        // Step 3: Fetch channel subscriber counts
-        const channelIds = statsData.items.map(item => item.snippet.channelId).join(',');
-        const channelResponse = await fetch(
-            `${backendUrl}/api/youtube/channels?` +
-            `part=statistics&` +
-            `id=${channelIds}`,
-            { headers: getAuthHeaders() }
-        );
-
-        if (!channelResponse.ok) {
-            const errorData = await channelResponse.json().catch(() => ({}));
-            throw new Error(`YouTube API channel request failed: ${errorData.error?.message || channelResponse.statusText}`);
-        }
+        // Step 2: Fetch stats for every result (the client splits this into 50-id batches)
+        const videoItems = await getVideos(Array.from(videoIdSet), 'statistics,snippet,contentDetails', options);
 
-        const channelData: YouTubeChannelResponse = await channelResponse.json();
+        // Step 3: Fetch channel subscriber counts (contentDetails for the uploads playlist costs nothing extra)
+        const channelItems = await getChannels(videoItems.map(item => item.snippet.channelId), 'statistics,contentDetails', options);
 
         // Step 4: Build channel map
         const channelMap = new Map<string, number>();
-        channelData.items.forEach(channel => {
-            channelMap.set(channel.id, parseInt(channel.statistics.subscriberCount || '0'));
+        channelItems.forEach(channel => {
+            channelMap.set(channel.id, parseInt(channel.statistics?.subscriberCount || '0'));
+        });
+
+        // Step 4b: Median views of each channel's recent uploads, for the outlier multiplier.
+        // Results are still useful without it, so failures only cost the multiplier.
+        // Channels of the most viewed results go first, since only a capped number are fetched per search.
+        const channelRank = new Map<string, number>();
+        [...videoItems]
+            .sort((a, b) => parseInt(b.statistics.viewCount || '0') - parseInt(a.statistics.viewCount || '0'))
+            .forEach(item => {
+                if (!channelRank.has(item.snippet.channelId)) channelRank.set(item.snippet.channelId, channelRank.size);
+            });
+        const baselines = await getChannelBaselines(
+            [...channelItems]
+                .sort((a, b) => (channelRank.get(a.id) ?? Infinity) - (channelRank.get(b.id) ?? Infinity))
+                .map(channel => ({
+                    channelId: channel.id,
+                    uploadsPlaylistId: channel.contentDetails?.relatedPlaylists.uploads,
+                })),
+            options
+        ).catch(error => {
+            logger.warn('Could not load channel baselines:', error);
+            return new Map<string, ChannelBaseline>();
+        });
+
+        // Step 5: Load earlier snapshots so velocity can be measured instead of estimated
+        const histories = await getVideoHistories(videoItems.map(item => item.id)).catch(error => {
+            logger.warn('Could not load snapshot history:', error);
+            return new Map<string, TrackedVideo>();
         });
 
-        // Step 5: Combine data
-        const videos: Video[] = statsData.items.map(item => {
+        // Step 6: Combine data
+        const videos: Video[] = videoItems.map(item => {
             const rawVideo = {
                 id: item.id,
                 title: item.snippet.title,
@@ -206,9 +216,11 @@ export async function fetchTrendingVideos(
                 publishedAt: new Date(item.snippet.publishedAt),
                 fetchedAt: new Date(),
                 region: regionMap.get(item.id),
+                channelMedianViews: baselines.get(item.snippet.channelId)?.medianViews,
             };
+            const velocity = calculateSnapshotVelocity(rawVideo, histories.get(item.id)?.points) ?? undefined;
 
-            return enrichVideo(rawVideo);
+            return enrichVideo({ ...rawVideo, velocity }, profile);
         });
 
         return { videos, nextPageTokenMap: newPageTokenMap };
@@ -222,32 +234,14 @@ export async function fetchTrendingVideos(
  * Fetch recent videos from a specific channel for niche inference
  */
 export async function fetchRecentChannelVideos(channelId: string): Promise<Video[]> {
-    const backendUrl = getBackendUrl();
-
     try {
         // Step 1: Get channel's upload playlist ID
-        const channelResponse = await fetch(
-            `${backendUrl}/api/youtube/channels?` +
-            `part=contentDetails&` +
-            `id=${channelId}`,
-            { headers: getAuthHeaders() }
-        );
-
-        const channelData: YouTubeChannelDetailsResponse = await channelResponse.json();
-        if (!channelData.items || channelData.items.length === 0) return [];
-
-        const uploadsPlaylistId = channelData.items[0].contentDetails.relatedPlaylists.uploads;
+        const [channel] = await getChannels([channelId], 'contentDetails');
+        const uploadsPlaylistId = channel?.contentDetails?.relatedPlaylists.uploads;
+        if (!uploadsPlaylistId) return [];
 
         // Step 2: Get recent videos from that playlist
-        const playlistResponse = await fetch(
-            `${backendUrl}/api/youtube/playlistItems?` +
-            `part=snippet&` +
-            `playlistId=${uploadsPlaylistId}&` +
-            `maxResults=5`,
-            { headers: getAuthHeaders() }
-        );
-
-        const playlistData: YouTubePlaylistResponse = await playlistResponse.json();
+        const playlistData = await getPlaylistItems(uploadsPlaylistId, { part: 'snippet', maxResults: 5 });
         if (!playlistData.items) return [];
 
         // Map to simplified Video objects (we just need titles/desc for inference)
@@ -320,45 +314,52 @@ export function extractChannelId(url: string): string | null {
  * Fetch channel data from URL
  */
 export async function fetchChannelFromURL(channelUrl: string): Promise<{ channelId: string; channelName: string } | null> {
-    const backendUrl = getBackendUrl();
-
     const extractedId = extractChannelId(channelUrl);
     if (!extractedId) {
         return null;
     }
 
     try {
-        // Try direct channel ID first
-        let response = await fetch(
-            `${backendUrl}/api/youtube/channels?` +
-            `part=snippet&` +
-            `id=${extractedId}`,
-            { headers: getAuthHeaders() }
-        );
-
-        let data = await response.json();
-
-        // If no results, try as username
-        if (!data.items || data.items.length === 0) {
-            response = await fetch(
-                `${backendUrl}/api/youtube/channels?` +
-                `part=snippet&` +
-                `forHandle=${extractedId}`,
-                { headers: getAuthHeaders() }
-            );
-            data = await response.json();
-        }
+        // Try direct channel ID first, then as a handle
+        const [byId] = await getChannels([extractedId], 'snippet');
+        const channel = byId || await getChannelByHandle(extractedId, 'snippet');
 
-        if (!data.items || data.items.length === 0) {
+        if (!channel?.snippet) {
             return null;
         }
 
         return {
-            channelId: data.items[0].id,
-            channelName: data.items[0].snippet.title,
+            channelId: channel.id,
+            channelName: channel.snippet.title,
         };
     } catch (error) {
         logger.error('Channel fetch error:', error);
         return null;
     }
 }
+
+/**
+ * Find videos competing with a given video: a search on its title and tags,
+ * excluding the video itself. The Data API no longer offers related-video lookups.
+ */
+export async function fetchSimilarVideos(videoId: string): Promise<RelatedVideo[]> {
+    assertQuotaBudget(QUOTA_COSTS.videos + QUOTA_COSTS.search);
+
+    const [source] = await getVideos([videoId], 'snippet');
+    if (!source) throw new Error('Video not found');
+
+    const title = source.snippet.title.replace(/[#|[\]()]/g, ' ').replace(/\s+/g, ' ').trim();
+    const tags = (source.snippet.tags || []).slice(0, 3).join(' ');
+    const data = await searchVideos({ q: `${title} ${tags}`.trim(), maxResults: 25, order: 'relevance' });
+
+    return (data.items || [])
+        .filter(item => item.id.videoId && item.id.videoId !== videoId)
+        .map(item => ({
+            videoId: item.id.videoId,
+            title: item.snippet.title,
+            channelName: item.snippet.channelTitle,
+            thumbnailUrl: item.snippet.thumbnails?.high?.url
+                || item.snippet.thumbnails?.medium?.url
+                || `https://i.ytimg.com/vi/${item.id.videoId}/hqdefault.jpg`,
+        }));
+}
@@ -0,0 +1,60 @@
+/**
+ * In-memory response cache with per-entry TTLs and de-duplication of
+ * identical requests that are still in flight.
+ *
+ * Cached values are shared between callers, so treat them as read-only.
+ */
+
+interface CacheEntry {
+    value: unknown;
+    expiresAt: number;
+}
+
+// Oldest entries are evicted first once the cache is full
+const MAX_ENTRIES = 300;
+
+const cache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+export interface CacheOptions {
+    // Skip a cached value and store the fresh response in its place
+    bypassCache?: boolean;
+}
+
+/**
+ * Return the cached value for `key` if it hasn't expired, otherwise run `load` once
+ * (concurrent callers with the same key share the same request) and cache the result.
+ * Failed loads are not cached.
+ */
+export function withCache<T>(key: string, ttlMs: number, load: () => Promise<T>, options: CacheOptions = {}): Promise<T> {
+    if (!options.bypassCache) {
+        const hit = cache.get(key);
+        if (hit && hit.expiresAt > Date.now()) {
+            return Promise.resolve(hit.value as T);
+        }
+    }
+
+    // An identical request already on the wire is as fresh as a new one would be
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = load()
+        .then(value => {
+            cache.delete(key);
+            cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+            while (cache.size > MAX_ENTRIES) {
+                const oldest = cache.keys().next().value;
+                if (oldest === undefined) break;
+                cache.delete(oldest);
+            }
+            return value;
+        })
+        .finally(() => inFlight.delete(key));
+
+    inFlight.set(key, request);
+    return request;
+}
+
+export function clearCache(): void {
+    cache.clear();
+}
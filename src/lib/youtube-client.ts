@@ -0,0 +1,264 @@
+/**
+ * Typed client for the backend's /api/youtube/* proxy. All YouTube calls go through here.
+ * Responses are cached per endpoint, identical in-flight requests are merged,
+ * and quota is only recorded for requests that actually reach YouTube.
+ */
+
+import { getBackendUrl, getAuthHeaders } from './api-config';
+import { fetchWithTimeout } from './fetch-utils';
+import { recordQuotaUsage } from './quota-ledger';
+import { withCache, CacheOptions } from './youtube-cache';
+import type { QuotaEndpoint } from '@/types/quota';
+import type {
+    YouTubeSearchResponse,
+    YouTubeChannelSearchResponse,
+    YouTubeVideoItem,
+    YouTubeChannelItem,
+    YouTubeChannelResponse,
+    YouTubePlaylistResponse,
+    YouTubeAutocompleteResponse,
+} from '@/types/youtube-api';
+
+export type YouTubeEndpoint = QuotaEndpoint;
+
+// Search results move quickly; channel stats and upload lists barely change within a session
+const CACHE_TTL_MS: Record<YouTubeEndpoint, number> = {
+    search: 15 * 60 * 1000,
+    videos: 30 * 60 * 1000,
+    channels: 6 * 60 * 60 * 1000,
+    playlistItems: 60 * 60 * 1000,
+    autocomplete: 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 2;
+// The Data API accepts at most 50 ids per videos/channels request
+export const MAX_IDS_PER_REQUEST = 50;
+// Batches in flight at once for a large id lookup
+const MAX_CONCURRENT_BATCHES = 3;
+
+export interface YouTubeRequestOptions extends CacheOptions {
+    timeout?: number;
+    // Extra attempts after a network error or 5xx response
+    retries?: number;
+}
+
+export type YouTubeRequestParams = Record<string, string | number | undefined>;
+
+function buildQuery(params: YouTubeRequestParams): string {
+    const query = new URLSearchParams();
+    // Sorted so the same request always produces the same cache key
+    Object.keys(params).sort().forEach(key => {
+        const value = params[key];
+        if (value !== undefined && value !== '') query.set(key, String(value));
+    });
+    return query.toString();
+}
+
+// Error body from the proxy: its own errors carry a plain message, YouTube's are forwarded as objects
+interface ProxyErrorBody {
+    error?: string | {
+        message?: string;
+        errors?: { reason?: string }[];
+    };
+}
+
+function errorMessageOf(errorData: ProxyErrorBody): string {
+    return typeof errorData.error === 'string' ? errorData.error : errorData.error?.message || '';
+}
+
+function isProxyRateLimit(status: number, errorData: ProxyErrorBody): boolean {
+    return status === 429 && typeof errorData.error === 'string';
+}
+
+function isQuotaError(status: number, errorData: ProxyErrorBody): boolean {
+    const reason = typeof errorData.error === 'string' ? undefined : errorData.error?.errors?.[0]?.reason;
+    return status === 429 || reason === 'quotaExceeded' || reason === 'rateLimitExceeded' || errorMessageOf(errorData).includes('quotaExceeded');
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function fetchFromProxy<T>(endpoint: YouTubeEndpoint, url: string, options: YouTubeRequestOptions): Promise<T> {
+    const { timeout = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        let response: Response;
+        try {
+            response = await fetchWithTimeout(url, { headers: getAuthHeaders(), timeout });
+        } catch (error) {
+            // The request may have reached YouTube before the connection failed
+            recordQuotaUsage(endpoint);
+            if (attempt >= retries) throw error;
+            await wait(1000 * (attempt + 1));
+            continue;
+        }
+
+        if (response.ok) {
+            recordQuotaUsage(endpoint);
+            return response.json() as Promise<T>;
+        }
+
+        const errorData: ProxyErrorBody = await response.json()
+            .then(body => (body && typeof body === 'object' ? body : {}))
+            .catch(() => ({}));
+        // Turned away by the proxy before reaching YouTube, so nothing is charged
+        if (isProxyRateLimit(response.status, errorData)) {
+            throw new Error('RATE_LIMIT');
+        }
+        // Everything else reached YouTube, so every attempt is charged
+        recordQuotaUsage(endpoint);
+        if (isQuotaError(response.status, errorData)) {
+            throw new Error('QUOTA_EXCEEDED');
+        }
+        if (response.status >= 500 && attempt < retries) {
+            await wait(1000 * (attempt + 1));
+            continue;
+        }
+
+        const message = errorMessageOf(errorData) || response.statusText || `Status ${response.status}`;
+        throw new Error(`YouTube API ${endpoint} request failed: ${message}`);
+    }
+}
+
+/**
+ * GET /api/youtube/{endpoint} with caching. Throws QUOTA_EXCEEDED when YouTube
+ * rejects the request for quota or rate limits, and RATE_LIMIT when the proxy does.
+ */
+function youtubeRequest<T>(
+    endpoint: YouTubeEndpoint,
+    params: YouTubeRequestParams,
+    options: YouTubeRequestOptions = {}
+): Promise<T> {
+    const query = buildQuery(params);
+    const url = `${getBackendUrl()}/api/youtube/${endpoint}?${query}`;
+
+    return withCache(
+        `${endpoint}?${query}`,
+        CACHE_TTL_MS[endpoint],
+        () => fetchFromProxy<T>(endpoint, url, options),
+        options
+    );
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Look up any number of ids, split into requests of at most 50 ids each.
+ * Results keep the order of the batches.
+ */
+async function fetchByIds<T>(
+    endpoint: 'videos' | 'channels',
+    ids: string[],
+    part: string,
+    options: YouTubeRequestOptions
+): Promise<T[]> {
+    const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+    const batches = chunk(uniqueIds, MAX_IDS_PER_REQUEST);
+    const results: T[][] = new Array(batches.length);
+    let next = 0;
+
+    // A few workers pull batches until none are left
+    const worker = async () => {
+        while (next < batches.length) {
+            const index = next++;
+            const data = await youtubeRequest<{ items?: T[] }>(
+                endpoint,
+                { part, id: batches[index].join(',') },
+                options
+            );
+            results[index] = data.items || [];
+        }
+    };
+
+    await Promise.all(
+        Array.from({ length: Math.min(MAX_CONCURRENT_BATCHES, batches.length) }, worker)
+    );
+    return results.flat();
+}
+
+export interface VideoSearchParams {
+    q: string;
+    maxResults?: number;
+    regionCode?: string;
+    publishedAfter?: string; // ISO date
+    order?: 'date' | 'rating' | 'relevance' | 'viewCount';
+    videoDuration?: 'short' | 'medium' | 'long';
+    pageToken?: string;
+}
+
+export function searchVideos(params: VideoSearchParams, options: YouTubeRequestOptions = {}): Promise<YouTubeSearchResponse> {
+    return youtubeRequest<YouTubeSearchResponse>('search', {
+        part: 'snippet',
+        type: 'video',
+        maxResults: 25,
+        ...params,
+    }, options);
+}
+
+export function searchChannels(
+    params: { q: string; maxResults?: number },
+    options: YouTubeRequestOptions = {}
+): Promise<YouTubeChannelSearchResponse> {
+    return youtubeRequest<YouTubeChannelSearchResponse>('search', {
+        part: 'snippet',
+        type: 'channel',
+        maxResults: 25,
+        ...params,
+    }, options);
+}
+
+export function getVideos(
+    ids: string[],
+    part = 'snippet,statistics,contentDetails',
+    options: YouTubeRequestOptions = {}
+): Promise<YouTubeVideoItem[]> {
+    return fetchByIds<YouTubeVideoItem>('videos', ids, part, options);
+}
+
+export function getChannels(
+    ids: string[],
+    part = 'snippet,statistics,contentDetails',
+    options: YouTubeRequestOptions = {}
+): Promise<YouTubeChannelItem[]> {
+    return fetchByIds<YouTubeChannelItem>('channels', ids, part, options);
+}
+
+/**
+ * Resolve an @handle (with or without the @) to its channel, or null when none matches
+ */
+export async function getChannelByHandle(
+    handle: string,
+    part = 'snippet,statistics,contentDetails',
+    options: YouTubeRequestOptions = {}
+): Promise<YouTubeChannelItem | null> {
+    const data = await youtubeRequest<YouTubeChannelResponse>('channels', {
+        part,
+        forHandle: handle.replace(/^@/, ''),
+    }, options);
+    return data.items?.[0] ?? null;
+}
+
+export function getPlaylistItems(
+    playlistId: string,
+    params: { maxResults?: number; pageToken?: string; part?: string } = {},
+    options: YouTubeRequestOptions = {}
+): Promise<YouTubePlaylistResponse> {
+    const { maxResults = 50, pageToken, part = 'snippet,contentDetails' } = params;
+    return youtubeRequest<YouTubePlaylistResponse>('playlistItems', {
+        part,
+        playlistId,
+        maxResults,
+        pageToken,
+    }, options);
+}
+
+export async function getAutocomplete(query: string, options: YouTubeRequestOptions = {}): Promise<string[]> {
+    const data = await youtubeRequest<YouTubeAutocompleteResponse>('autocomplete', { q: query }, options);
+    return data.suggestions || [];
+}
@@ -1,32 +1,58 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Users, TrendingUp, Calendar, ArrowRight, ArrowLeft } from 'lucide-react';
-import { analyzeChannel, extractChannelId } from '@/lib/channel-finder-api';
-import { ChannelAnalysis } from '@/types/channel';
+import { Users, TrendingUp, Calendar, ArrowRight, ArrowLeft, FileBarChart, Loader2, LayoutGrid, Network } from 'lucide-react';
+import { analyzeChannel, extractChannelId, estimateChannelAnalysisCost } from '@/lib/channel-finder-api';
+import { QuotaMeter } from '@/components/QuotaMeter';
+import { buildChannelReport, estimateChannelReportCost, estimateChannelReportRequests } from '@/lib/channel-report';
+import { ChannelReportView } from '@/components/ChannelReportView';
+import { ChannelDiscoveryMap } from '@/components/ChannelDiscoveryMap';
+import { createChannelGraph, DEFAULT_DISCOVERY_SETTINGS } from '@/lib/channel-graph';
+import { ChannelAnalysis, ChannelReport, ChannelGraph, DiscoverySettings } from '@/types/channel';
 import { toast } from '@/components/ui/use-toast';
 import { ApiKeySettings } from '@/components/ApiKeySettings';
+import { logger } from '@/lib/logger';
 
-export function ChannelFinder() {
-    const [urlInput, setUrlInput] = useState('');
+interface ChannelFinderProps {
+    // Channel from the link; analyzed on load and on back/forward
+    channel?: string;
+    onChannelChange?: (channel: string | null) => void;
+}
+
+export function ChannelFinder({ channel, onChannelChange }: ChannelFinderProps) {
+    const [urlInput, setUrlInput] = useState(channel || '');
     const [isLoading, setIsLoading] = useState(false);
     const [analysis, setAnalysis] = useState<ChannelAnalysis | null>(null);
+    const [report, setReport] = useState<ChannelReport | null>(null);
+    // Uploads read so far while a report is loading
+    const [reportProgress, setReportProgress] = useState<{ loaded: number; total: number } | null>(null);
+    const [resultsView, setResultsView] = useState<'grid' | 'map'>('grid');
+    // Discovery map, built from the analysis when the map is first shown
+    const [graph, setGraph] = useState<ChannelGraph | null>(null);
+    const [discoverySettings, setDiscoverySettings] = useState<DiscoverySettings>(DEFAULT_DISCOVERY_SETTINGS);
+    // Input of the latest analysis, so a link update doesn't trigger it again
+    const analyzedRef = useRef<string | null>(null);
 
-    const handleSearch = async () => {
-        if (!urlInput.trim()) return;
+    const handleSearch = async (input = urlInput) => {
+        const trimmed = input.trim();
+        if (!trimmed) return;
 
         // Try to extract ID or handle
-        let idOrHandle = extractChannelId(urlInput);
+        let idOrHandle = extractChannelId(trimmed);
         if (!idOrHandle) {
             // Allow searching by exact handle/name if extraction fails
-            idOrHandle = urlInput.trim();
+            idOrHandle = trimmed;
         }
 
+        analyzedRef.current = trimmed;
+        setReport(null);
+        setGraph(null);
         setIsLoading(true);
         try {
             const result = await analyzeChannel(idOrHandle);
             setAnalysis(result);
+            onChannelChange?.(trimmed);
             toast({
                 title: 'Analysis Complete',
                 description: `Found ${result.similarChannels.length} similar channels for ${result.targetChannel.title}`
@@ -36,7 +62,9 @@ export function ChannelFinder() {
             const msg = error instanceof Error ? error.message : 'Failed to analyze channel';
             toast({
                 title: 'Error',
-                description: msg,
+                description: msg === 'QUOTA_BUDGET_EXCEEDED'
+                    ? 'This analysis would go over your daily YouTube quota budget. Raise it or switch to warnings in Settings.'
+                    : msg,
                 variant: 'destructive'
             });
         } finally {
@@ -44,11 +72,53 @@ export function ChannelFinder() {
         }
     };
 
-    const handleBack = () => {
+    const handleReport = async () => {
+        if (!analysis) return;
+        setReportProgress({ loaded: 0, total: analysis.targetChannel.videoCount });
+        try {
+            const result = await buildChannelReport(analysis.targetChannel.id, (loaded, total) => setReportProgress({ loaded, total }));
+            setReport(result);
+        } catch (error) {
+            logger.error('Channel report error:', error);
+            const msg = error instanceof Error ? error.message : 'Failed to build the report';
+            toast({
+                title: 'Error',
+                description: msg === 'QUOTA_BUDGET_EXCEEDED'
+                    ? 'Reading every upload of this channel would go over your daily YouTube quota budget. Raise it or switch to warnings in Settings.'
+                    : msg,
+                variant: 'destructive'
+            });
+        } finally {
+            setReportProgress(null);
+        }
+    };
+
+    const reset = () => {
+        analyzedRef.current = null;
         setAnalysis(null);
+        setReport(null);
+        setGraph(null);
         setUrlInput('');
     };
 
+    const handleBack = () => {
+        reset();
+        onChannelChange?.(null);
+    };
+
+    useEffect(() => {
+        if (channel && channel !== analyzedRef.current) {
+            setUrlInput(channel);
+            handleSearch(channel);
+        } else if (!channel && analyzedRef.current) {
+            reset();
+        }
+    }, [channel]);
+
+    useEffect(() => {
+        if (resultsView === 'map' && analysis && !graph) setGraph(createChannelGraph(analysis));
+    }, [resultsView, analysis, graph]);
+
     // Format numbers compactly (e.g., 1.2M)
     const formatNumber = (num: number) => {
         return new Intl.NumberFormat('en-US', {
@@ -114,7 +184,7 @@ export function ChannelFinder() {
                                     onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
                                 />
                                 <Button
-                                    onClick={handleSearch}
+                                    onClick={() => handleSearch()}
                                     disabled={isLoading}
                                     className="bg-purple-600 hover:bg-purple-700 min-w-[120px]"
                                 >
@@ -124,6 +194,7 @@ export function ChannelFinder() {
                             <p className="text-xs text-gray-500">
                                 Works with any public YouTube channel URL or handle
                             </p>
+                            <QuotaMeter cost={estimateChannelAnalysisCost()} actionLabel="An analysis" />
                         </div>
                     </div>
                 )}
@@ -150,6 +221,11 @@ export function ChannelFinder() {
                                             </span>
                                         ))}
                                     </div>
+                                    {analysis.targetChannel.topics.length > 0 && (
+                                        <p className="mb-4 text-xs text-gray-500">
+                                            Matched on: {analysis.targetChannel.topics.join(', ')}
+                                        </p>
+                                    )}
                                     <div className="grid grid-cols-3 gap-4 text-center md:text-left">
                                         <div>
                                             <p className="text-gray-400 text-xs uppercase">Subscribers</p>
@@ -165,16 +241,68 @@ export function ChannelFinder() {
                                         </div>
                                     </div>
                                 </div>
+                                {!report && (
+                                    <div className="flex flex-col items-center gap-1">
+                                        <Button
+                                            onClick={handleReport}
+                                            disabled={!!reportProgress}
+                                            className="bg-purple-600 hover:bg-purple-700"
+                                        >
+                                            {reportProgress
+                                                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                                : <FileBarChart className="mr-2 h-4 w-4" />}
+                                            {reportProgress
+                                                ? `Reading uploads ${reportProgress.loaded}/${reportProgress.total}`
+                                                : 'Full Channel Report'}
+                                        </Button>
+                                        <p className="text-xs text-gray-500">
+                                            ~{estimateChannelReportCost(analysis.targetChannel.videoCount)} quota units · ~{estimateChannelReportRequests(analysis.targetChannel.videoCount)} requests
+                                        </p>
+                                    </div>
+                                )}
                             </div>
                         </div>
 
+                        {/* Deep-dive report */}
+                        {report && <ChannelReportView report={report} />}
+
                         {/* Similar Channels Grid */}
                         <div>
-                            <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
-                                <TrendingUp className="h-6 w-6 text-green-400" />
-                                Similar Channels found
-                            </h3>
+                            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                                <h3 className="text-2xl font-bold text-white flex items-center gap-2">
+                                    <TrendingUp className="h-6 w-6 text-green-400" />
+                                    Similar Channels found
+                                </h3>
+                                <div className="flex rounded-lg border border-gray-800 bg-gray-900/50 p-1">
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => setResultsView('grid')}
+                                        className={resultsView === 'grid' ? 'bg-gray-800 text-white' : 'text-gray-400'}
+                                    >
+                                        <LayoutGrid className="mr-2 h-4 w-4" />
+                                        Grid
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => setResultsView('map')}
+                                        className={resultsView === 'map' ? 'bg-gray-800 text-white' : 'text-gray-400'}
+                                    >
+                                        <Network className="mr-2 h-4 w-4" />
+                                        Discovery Map
+                                    </Button>
+                                </div>
+                            </div>
 
+                            {resultsView === 'map' && graph ? (
+                                <ChannelDiscoveryMap
+                                    graph={graph}
+                                    onGraphChange={setGraph}
+                                    settings={discoverySettings}
+                                    onSettingsChange={setDiscoverySettings}
+                                />
+                            ) : (
                             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                                 {analysis.similarChannels.map((channel) => (
                                     <Card key={channel.id} className="bg-gray-900/50 border-gray-800 hover:border-purple-500/30 transition-all">
@@ -192,6 +320,25 @@ export function ChannelFinder() {
                                                 </div>
                                             </div>
 
+                                            {/* Match */}
+                                            <div className="mb-3">
+                                                <div className="flex items-center justify-between text-sm">
+                                                    <span className="font-bold text-purple-300">{channel.similarityScore}% match</span>
+                                                    <span className="text-xs text-gray-500">
+                                                        Content {channel.contentScore} · Stats {channel.statScore}
+                                                    </span>
+                                                </div>
+                                                {channel.topics.length > 0 && (
+                                                    <div className="mt-2 flex flex-wrap gap-1" title="Topics both channels cover">
+                                                        {channel.topics.map(topic => (
+                                                            <span key={topic} className="px-2 py-0.5 bg-purple-500/10 text-purple-300 text-xs rounded-full border border-purple-500/20">
+                                                                {topic}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </div>
+
                                             {/* Stats */}
                                             <div className="flex items-center justify-between text-sm py-3 border-t border-gray-800 border-b mb-3">
                                                 <div className="flex items-center gap-1 text-gray-400">
@@ -225,6 +372,7 @@ export function ChannelFinder() {
                                     </Card>
                                 ))}
                             </div>
+                            )}
                         </div>
                     </div>
                 )}
@@ -0,0 +1,345 @@
+import { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Radar, Loader2, RefreshCw, X, CheckCheck, Flame, Pin, AlertCircle } from 'lucide-react';
+import { ApiKeySettings } from '@/components/ApiKeySettings';
+import { VideoCard } from '@/components/VideoCard';
+import { toast } from '@/components/ui/use-toast';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { fetchChannelFromURL } from '@/lib/youtube-api';
+import {
+    getCompetitorFeed,
+    markCompetitorUploadsSeen,
+    removeCompetitorUploads,
+    estimateCompetitorFeedCost,
+    getNextFeedRefreshTime,
+    isOutperforming,
+    COMPETITOR_FEED_CHANGED_EVENT,
+    COMPETITOR_INTERVAL_OPTIONS,
+    DEFAULT_COMPETITOR_FEED_SETTINGS,
+} from '@/lib/competitor-feed';
+import { toVideo } from '@/lib/idea-store';
+import { getAllProfiles } from '@/lib/scoring-profiles';
+import { logger } from '@/lib/logger';
+import { cn } from '@/lib/utils';
+import { CompetitorUpload } from '@/types/competitor';
+import { Video } from '@/types/video';
+
+interface CompetitorTrackerProps {
+    refreshing: boolean;
+    onRefresh: () => void;
+    onSaveIdea: (video: Video) => void;
+    savedVideoIds: Set<string>;
+}
+
+type FeedFilter = 'all' | 'new' | 'outperforming';
+
+const MULTIPLIER_OPTIONS = [1.5, 2, 3, 5];
+
+const formatRelative = (time: number) => {
+    const minutes = Math.round((time - Date.now()) / (1000 * 60));
+    const abs = Math.abs(minutes);
+    const label = abs < 60 ? `${abs}m` : abs < 48 * 60 ? `${Math.round(abs / 60)}h` : `${Math.round(abs / (60 * 24))}d`;
+    return minutes >= 0 ? `in ${label}` : `${label} ago`;
+};
+
+export function CompetitorTracker({ refreshing, onRefresh, onSaveIdea, savedVideoIds }: CompetitorTrackerProps) {
+    const { preferences, addCompetitor, removeCompetitor, updateCompetitorFeedSettings } = useLocalStorage();
+    const [channelInput, setChannelInput] = useState('');
+    const [isPinning, setIsPinning] = useState(false);
+    const [feed, setFeed] = useState<CompetitorUpload[]>([]);
+    const [filter, setFilter] = useState<FeedFilter>('all');
+    const [channelFilter, setChannelFilter] = useState('');
+
+    const competitors = preferences.competitors || [];
+    const settings = { ...DEFAULT_COMPETITOR_FEED_SETTINGS, ...preferences.competitorFeed };
+    const profiles = getAllProfiles(preferences.scoringProfiles);
+
+    useEffect(() => {
+        const load = () => getCompetitorFeed()
+            .then(setFeed)
+            .catch(error => logger.error('Failed to load competitor feed:', error));
+        load();
+        window.addEventListener(COMPETITOR_FEED_CHANGED_EVENT, load);
+        return () => window.removeEventListener(COMPETITOR_FEED_CHANGED_EVENT, load);
+    }, []);
+
+    const handlePin = async () => {
+        const input = channelInput.trim();
+        if (!input) return;
+
+        setIsPinning(true);
+        try {
+            const channel = await fetchChannelFromURL(input);
+            if (!channel) {
+                toast({ title: 'Channel not found', description: 'Paste a channel URL, e.g. youtube.com/@handle', variant: 'destructive' });
+                return;
+            }
+            const result = addCompetitor({ ...channel, addedAt: new Date().toISOString() });
+            if (result.success) {
+                setChannelInput('');
+                toast({ title: 'Channel pinned', description: `Refresh to load ${channel.channelName}'s recent uploads.` });
+            } else {
+                toast({ title: 'Could not pin', description: result.message });
+            }
+        } finally {
+            setIsPinning(false);
+        }
+    };
+
+    const handleUnpin = (channelId: string) => {
+        removeCompetitor(channelId);
+        removeCompetitorUploads(channelId)
+            .catch(error => logger.error('Failed to remove competitor uploads:', error));
+        if (channelFilter === channelId) setChannelFilter('');
+    };
+
+    const handleMarkSeen = () => {
+        markCompetitorUploadsSeen()
+            .catch(error => logger.error('Failed to mark uploads seen:', error));
+    };
+
+    const visible = feed.filter(upload =>
+        (!channelFilter || upload.channelId === channelFilter) &&
+        (filter === 'all' || (filter === 'new' ? !upload.seen : isOutperforming(upload, settings)))
+    );
+    const newCount = feed.filter(upload => !upload.seen).length;
+    const outperformingCount = feed.filter(upload => isOutperforming(upload, settings)).length;
+
+    const filterOptions: { id: FeedFilter; label: string }[] = [
+        { id: 'all', label: `All (${feed.length})` },
+        { id: 'new', label: `New (${newCount})` },
+        { id: 'outperforming', label: `Outperforming (${outperformingCount})` },
+    ];
+
+    return (
+        <div className="flex min-h-screen flex-col items-center justify-start bg-gradient-to-br from-gray-950 via-gray-900 to-black px-4 py-12">
+
+            {/* Settings */}
+            <div className="fixed top-6 right-6 z-50">
+                <ApiKeySettings />
+            </div>
+
+            <div className="mx-auto max-w-6xl w-full">
+                {/* Header */}
+                <div className="text-center mb-12">
+                    <div className="mb-6 flex items-center justify-center gap-3">
+                        <div className="rounded-full bg-gradient-to-br from-rose-500 to-red-600 p-3">
+                            <Radar className="h-8 w-8 text-white" />
+                        </div>
+                        <h1 className="bg-gradient-to-r from-red-500 via-orange-500 to-yellow-500 bg-clip-text text-5xl font-black text-transparent">
+                            ViralVision
+                        </h1>
+                    </div>
+
+                    <h2 className="mb-4 text-3xl font-bold text-white sm:text-4xl">
+                        Competitor Tracker
+                    </h2>
+                    <p className="text-lg text-gray-400">
+                        One feed of your competitors' new uploads, flagged when one beats its channel's usual
+                    </p>
+                </div>
+
+                {/* Pinned channels */}
+                <div className="mx-auto mb-8 max-w-3xl space-y-4 rounded-2xl border border-gray-800 bg-gray-900/50 p-6 backdrop-blur-sm">
+                    <div className="flex gap-2">
+                        <Input
+                            value={channelInput}
+                            onChange={(e) => setChannelInput(e.target.value)}
+                            placeholder="Paste a competitor's channel URL, e.g. https://youtube.com/@MrBeast"
+                            className="bg-gray-800 border-gray-700 text-white"
+                            onKeyDown={(e) => e.key === 'Enter' && handlePin()}
+                        />
+                        <Button
+                            onClick={handlePin}
+                            disabled={isPinning || !channelInput.trim()}
+                            className="bg-red-600 hover:bg-red-700 min-w-[100px]"
+                        >
+                            {isPinning ? <Loader2 className="h-4 w-4 animate-spin" /> : <><Pin className="mr-2 h-4 w-4" />Pin</>}
+                        </Button>
+                    </div>
+
+                    {competitors.length > 0 ? (
+                        <div className="flex flex-wrap gap-2">
+                            {competitors.map(channel => (
+                                <span key={channel.channelId} className="flex items-center gap-2 rounded-full border border-gray-700 bg-gray-800/60 py-1 pl-1 pr-2 text-sm text-gray-200">
+                                    {channel.thumbnailUrl
+                                        ? <img src={channel.thumbnailUrl} alt="" className="h-6 w-6 rounded-full" />
+                                        : <span className="h-6 w-6 rounded-full bg-gray-700" />}
+                                    {channel.channelName}
+                                    <button
+                                        onClick={() => handleUnpin(channel.channelId)}
+                                        className="text-gray-500 hover:text-red-400"
+                                        title="Unpin"
+                                    >
+                                        <X className="h-3.5 w-3.5" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500">No channels pinned yet.</p>
+                    )}
+
+                    {/* Refresh settings */}
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 border-t border-gray-800 pt-4 text-xs text-gray-400">
+                        <Button
+                            size="sm"
+                            onClick={onRefresh}
+                            disabled={refreshing || competitors.length === 0}
+                            className="bg-gray-800 text-gray-200 hover:bg-gray-700"
+                            title={`~${estimateCompetitorFeedCost(competitors.length)} quota units`}
+                        >
+                            {refreshing
+                                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                : <RefreshCw className="mr-2 h-4 w-4" />}
+                            Refresh now
+                        </Button>
+                        <label className="flex items-center gap-1">
+                            <input
+                                type="checkbox"
+                                checked={settings.autoRefresh}
+                                onChange={(e) => updateCompetitorFeedSettings({ autoRefresh: e.target.checked })}
+                                className="accent-red-500"
+                            />
+                            Refresh every
+                        </label>
+                        <span className="flex items-center gap-1">
+                            {COMPETITOR_INTERVAL_OPTIONS.map(hours => (
+                                <button
+                                    key={hours}
+                                    onClick={() => updateCompetitorFeedSettings({ intervalHours: hours })}
+                                    className={cn(
+                                        'rounded-full border px-2 py-0.5 transition-colors',
+                                        settings.intervalHours === hours
+                                            ? 'border-red-500 bg-red-500/10 text-red-400'
+                                            : 'border-gray-700 hover:border-gray-600'
+                                    )}
+                                >
+                                    {hours}h
+                                </button>
+                            ))}
+                        </span>
+                        <span className="flex items-center gap-1">
+                            Outperforming at
+                            {MULTIPLIER_OPTIONS.map(multiplier => (
+                                <button
+                                    key={multiplier}
+                                    onClick={() => updateCompetitorFeedSettings({ minOutlierMultiplier: multiplier })}
+                                    className={cn(
+                                        'rounded-full border px-2 py-0.5 transition-colors',
+                                        settings.minOutlierMultiplier === multiplier
+                                            ? 'border-orange-500 bg-orange-500/10 text-orange-400'
+                                            : 'border-gray-700 hover:border-gray-600'
+                                    )}
+                                >
+                                    {multiplier}x
+                                </button>
+                            ))}
+                        </span>
+                        <select
+                            value={settings.scoringProfileId || ''}
+                            onChange={(e) => updateCompetitorFeedSettings({ scoringProfileId: e.target.value || undefined })}
+                            className="rounded border border-gray-700 bg-gray-800 px-2 py-0.5 text-gray-300"
+                            title="Scoring profile"
+                        >
+                            <option value="">Default profile</option>
+                            {profiles.map(profile => (
+                                <option key={profile.id} value={profile.id}>{profile.name}</option>
+                            ))}
+                        </select>
+                        <span className="ml-auto text-gray-500">
+                            {settings.lastRunAt ? `Updated ${formatRelative(new Date(settings.lastRunAt).getTime())}` : 'Never refreshed'}
+                            {settings.autoRefresh && competitors.length > 0 && ` · next ${formatRelative(Math.max(getNextFeedRefreshTime(settings), Date.now()))}`}
+                        </span>
+                    </div>
+                    {settings.lastError && (
+                        <p className="flex items-center gap-1 text-xs text-red-400">
+                            <AlertCircle className="h-3 w-3" />
+                            Last refresh failed: {settings.lastError}
+                        </p>
+                    )}
+                </div>
+
+                {/* Feed */}
+                {feed.length > 0 && (
+                    <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+                        <div className="mb-6 flex flex-wrap items-center gap-2">
+                            {filterOptions.map(option => (
+                                <button
+                                    key={option.id}
+                                    onClick={() => setFilter(option.id)}
+                                    className={cn(
+                                        'rounded-full px-4 py-1.5 text-sm font-medium transition-all',
+                                        filter === option.id
+                                            ? 'bg-red-600 text-white'
+                                            : 'border border-gray-700 bg-gray-800/50 text-gray-400 hover:text-gray-200'
+                                    )}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                            <select
+                                value={channelFilter}
+                                onChange={(e) => setChannelFilter(e.target.value)}
+                                className="rounded-full border border-gray-700 bg-gray-800/50 px-3 py-1.5 text-sm text-gray-300"
+                            >
+                                <option value="">All channels</option>
+                                {competitors.map(channel => (
+                                    <option key={channel.channelId} value={channel.channelId}>{channel.channelName}</option>
+                                ))}
+                            </select>
+                            {newCount > 0 && (
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={handleMarkSeen}
+                                    className="ml-auto text-gray-400 hover:text-white"
+                                >
+                                    <CheckCheck className="mr-2 h-4 w-4" />
+                                    Mark all seen
+                                </Button>
+                            )}
+                        </div>
+
+                        {visible.length === 0 ? (
+                            <p className="py-12 text-center text-gray-500">No uploads match this view.</p>
+                        ) : (
+                            <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+                                {visible.map(upload => {
+                                    const video = toVideo(upload.video);
+                                    return (
+                                        <div key={upload.videoId} className="space-y-2">
+                                            <div className="flex h-5 items-center gap-2 text-xs">
+                                                {!upload.seen && (
+                                                    <span className="rounded-full bg-blue-500/15 px-2 py-0.5 font-bold text-blue-300">NEW</span>
+                                                )}
+                                                {isOutperforming(upload, settings) && (
+                                                    <span className="flex items-center gap-1 rounded-full bg-orange-500/15 px-2 py-0.5 font-bold text-orange-300">
+                                                        <Flame className="h-3 w-3" />
+                                                        {(video.outlierMultiplier ?? 0).toFixed(1)}x its usual
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <VideoCard
+                                                video={video}
+                                                onSave={() => onSaveIdea(video)}
+                                                isSaved={savedVideoIds.has(video.id)}
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {feed.length === 0 && competitors.length > 0 && (
+                    <p className="py-12 text-center text-gray-500">
+                        {refreshing ? 'Loading recent uploads…' : 'Refresh to load recent uploads from your pinned channels.'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,37 +1,98 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Hash, TrendingUp, ArrowLeft, Loader2, Copy, Sparkles } from 'lucide-react';
-import { generateKeywords, analyzeKeywords, generateTags, KeywordAnalysis } from '@/lib/keyword-research-api';
+import { Hash, TrendingUp, ArrowLeft, Loader2, Copy, Sparkles, ChevronDown, ChevronUp, Layers, List, Type } from 'lucide-react';
+import {
+    generateKeywords,
+    analyzeKeywords,
+    estimateKeywordAnalysisCost,
+    estimateExpansionRequests,
+    KeywordAnalysis,
+    KeywordExpansionSettings,
+    KeywordExpansionProgress,
+    ANALYZED_KEYWORDS,
+    DEFAULT_EXPANSION_SETTINGS,
+} from '@/lib/keyword-research-api';
+import {
+    clusterKeywords,
+    pickKeywordsToMeasure,
+    scoreClusters,
+    formatContentPlan,
+    KeywordCluster,
+    OTHER_CLUSTER_LABEL,
+} from '@/lib/keyword-clusters';
+import {
+    generateTags,
+    countTagCharacters,
+    TagSuggestions,
+    TagSource,
+    TAG_CHARACTER_LIMIT,
+} from '@/lib/tag-generator';
+import { cn } from '@/lib/utils';
 import { toast } from '@/components/ui/use-toast';
 import { ApiKeySettings } from '@/components/ApiKeySettings';
 
-export function KeywordResearch() {
-    const [topicInput, setTopicInput] = useState('');
+const TAG_SOURCE_LABELS: Record<TagSource, string> = {
+    keyword: 'Selected keyword',
+    analyzed: 'Measured keyword',
+    autocomplete: 'Autocomplete',
+    'top-videos': 'Used by top-ranking videos',
+};
+
+interface KeywordResearchProps {
+    // Topic from the link; researched on load and on back/forward
+    topic?: string;
+    onTopicChange?: (topic: string | null) => void;
+    // Opens the Title Analyzer seeded with a keyword
+    onDraftTitles?: (keyword: string) => void;
+}
+
+export function KeywordResearch({ topic, onTopicChange, onDraftTitles }: KeywordResearchProps) {
+    const [topicInput, setTopicInput] = useState(topic || '');
     const [isLoading, setIsLoading] = useState(false);
     const [status, setStatus] = useState('');
     const [results, setResults] = useState<KeywordAnalysis[]>([]);
-    const [generatedTags, setGeneratedTags] = useState<string[]>([]);
+    // Every keyword autocomplete found, most prominent first
+    const [discovered, setDiscovered] = useState<string[]>([]);
+    const [expansion, setExpansion] = useState<KeywordExpansionSettings>(DEFAULT_EXPANSION_SETTINGS);
+    const [expansionProgress, setExpansionProgress] = useState<KeywordExpansionProgress | null>(null);
+    // Discovered keywords grouped into a content plan
+    const [clusters, setClusters] = useState<KeywordCluster[]>([]);
+    const [resultsView, setResultsView] = useState<'keywords' | 'plan'>('keywords');
+    const [tagSuggestions, setTagSuggestions] = useState<TagSuggestions | null>(null);
+    // Tags picked for the selected keyword, starting from the packed set
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
     const [selectedKeyword, setSelectedKeyword] = useState<string | null>(null);
+    // Keyword whose score breakdown is open
+    const [expandedKeyword, setExpandedKeyword] = useState<string | null>(null);
 
     // Bulk actions state
     const [selectedKeywords, setSelectedKeywords] = useState<Set<string>>(new Set());
     const [showOptimized, setShowOptimized] = useState(false);
 
-    const handleSearch = async () => {
-        if (!topicInput.trim()) return;
+    // Topic of the latest search, so a link update doesn't trigger it again
+    const searchedRef = useRef<string | null>(null);
+
+    const handleSearch = async (input = topicInput) => {
+        const trimmed = input.trim();
+        if (!trimmed) return;
 
+        searchedRef.current = trimmed;
         setIsLoading(true);
         setStatus('Finding long-tail keywords...');
         setResults([]);
-        setGeneratedTags([]);
+        setDiscovered([]);
+        setClusters([]);
+        setTagSuggestions(null);
         setSelectedKeywords(new Set());
         setSelectedKeyword(null);
 
         try {
             // 1. Generate keywords via autocomplete
-            const suggestions = await generateKeywords(topicInput);
+            const suggestions = await generateKeywords(trimmed, expansion, setExpansionProgress);
+            setExpansionProgress(null);
+            setDiscovered(suggestions);
 
             if (suggestions.length === 0) {
                 toast({ title: 'No keywords found', description: 'Try a broader topic', variant: 'destructive' });
@@ -39,44 +100,86 @@ export function KeywordResearch() {
                 return;
             }
 
-            setStatus(`Analyzing ${Math.min(suggestions.length, 20)} keywords with AI...`);
+            // 2. Group into topic clusters, so the measured keywords cover as many of them as possible
+            const grouped = clusterKeywords(trimmed, suggestions);
+            const toMeasure = pickKeywordsToMeasure(grouped, suggestions, ANALYZED_KEYWORDS);
 
-            // 2. Analyze with Gemini
-            const analysis = await analyzeKeywords(suggestions);
-            setResults(analysis.sort((a, b) => b.viralPotential - a.viralPotential));
+            setStatus(`Measuring ${toMeasure.length} keywords on YouTube...`);
+
+            // 3. Measure on YouTube, with AI reasoning on top
+            const analysis = await analyzeKeywords(toMeasure);
+            setResults(analysis.sort((a, b) => b.opportunityScore - a.opportunityScore));
+            setClusters(scoreClusters(grouped, analysis));
+            onTopicChange?.(trimmed);
 
         } catch (error) {
             console.error('Keyword research error:', error);
+            const errorMessage = error instanceof Error ? error.message : '';
             toast({
                 title: 'Error',
-                description: 'Failed to analyze keywords',
+                description: errorMessage === 'QUOTA_BUDGET_EXCEEDED'
+                    ? 'Measuring these keywords would go over your daily YouTube quota budget.'
+                    : errorMessage === 'QUOTA_EXCEEDED'
+                        ? 'YouTube API quota exceeded. Please try again tomorrow.'
+                        : 'Failed to analyze keywords',
                 variant: 'destructive'
             });
         } finally {
             setIsLoading(false);
             setStatus('');
+            setExpansionProgress(null);
         }
     };
 
-    const handleBack = () => {
+    const reset = () => {
+        searchedRef.current = null;
         setResults([]);
+        setDiscovered([]);
+        setClusters([]);
         setTopicInput('');
         setSelectedKeywords(new Set());
-        setGeneratedTags([]);
+        setTagSuggestions(null);
         setSelectedKeyword(null);
+        setExpandedKeyword(null);
     };
 
+    const handleBack = () => {
+        reset();
+        onTopicChange?.(null);
+    };
+
+    useEffect(() => {
+        if (topic && topic !== searchedRef.current) {
+            setTopicInput(topic);
+            handleSearch(topic);
+        } else if (!topic && searchedRef.current) {
+            reset();
+        }
+    }, [topic]);
+
     const handleGenerateTags = (keyword: string) => {
-        const tags = generateTags(keyword);
-        setGeneratedTags(tags);
+        const suggestions = generateTags(keyword, { analyses: results, discovered });
+        setTagSuggestions(suggestions);
+        setSelectedTags(suggestions.packed);
         setSelectedKeyword(keyword);
     };
 
     const copyTags = () => {
-        navigator.clipboard.writeText(generatedTags.join(', '));
+        navigator.clipboard.writeText(selectedTags.join(', '));
         toast({ title: 'Tags copied to clipboard' });
     };
 
+    const toggleTag = (tag: string) => {
+        setSelectedTags(selectedTags.includes(tag) ? selectedTags.filter(t => t !== tag) : [...selectedTags, tag]);
+    };
+
+    const copyHashtags = (hashtags: string[]) => {
+        navigator.clipboard.writeText(hashtags.join(' '));
+        toast({ title: 'Hashtags copied to clipboard' });
+    };
+
+    const tagCharacters = countTagCharacters(selectedTags);
+
     // Bulk Actions
     const toggleKeyword = (keyword: string) => {
         const newSet = new Set(selectedKeywords);
@@ -97,7 +200,7 @@ export function KeywordResearch() {
     };
 
     const getOptimizedKeywords = () => {
-        return results.filter(k => k.viralPotential >= 70 && k.saturation === 'Low');
+        return results.filter(k => k.opportunityScore >= 60 && k.saturation === 'Low');
     };
 
     const copySelected = () => {
@@ -109,6 +212,22 @@ export function KeywordResearch() {
         });
     };
 
+    const copyDiscovered = () => {
+        navigator.clipboard.writeText(discovered.join('\n'));
+        toast({
+            title: 'Copied!',
+            description: `${discovered.length} keywords copied to clipboard`
+        });
+    };
+
+    const copyPlan = () => {
+        navigator.clipboard.writeText(formatContentPlan(searchedRef.current || topicInput, clusters));
+        toast({
+            title: 'Content plan copied!',
+            description: `${clusters.filter(c => c.label !== OTHER_CLUSTER_LABEL).length} topic clusters`
+        });
+    };
+
     const copyOptimized = () => {
         const optimized = getOptimizedKeywords().map(k => k.keyword);
         navigator.clipboard.writeText(optimized.join(', '));
@@ -124,6 +243,15 @@ export function KeywordResearch() {
         return 'text-gray-400';
     };
 
+    const formatCount = (num: number) =>
+        new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(num);
+
+    const formatAge = (days: number) => {
+        if (days < 60) return `${Math.round(days)}d`;
+        if (days < 730) return `${Math.round(days / 30)}mo`;
+        return `${(days / 365).toFixed(1)}y`;
+    };
+
     const getSaturationColor = (level: string) => {
         if (level === 'Low') return 'bg-green-500/20 text-green-400 border-green-500/30';
         if (level === 'Medium') return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
@@ -187,16 +315,68 @@ export function KeywordResearch() {
                                     onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
                                 />
                                 <Button
-                                    onClick={handleSearch}
+                                    onClick={() => handleSearch()}
                                     disabled={isLoading}
                                     className="bg-teal-600 hover:bg-teal-700 min-w-[120px]"
                                 >
                                     {isLoading ? <Loader2 className="animate-spin" /> : 'Analyze'}
                                 </Button>
                             </div>
-                            {isLoading && (
-                                <p className="text-sm text-teal-400 animate-pulse text-center mt-2">
-                                    {status}
+                            {/* Expansion mode */}
+                            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                                {([['quick', 'Quick'], ['deep', 'Deep (alphabet soup)']] as const).map(([mode, label]) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setExpansion({ ...expansion, mode })}
+                                        disabled={isLoading}
+                                        className={cn(
+                                            'rounded-full border px-3 py-1 transition-colors',
+                                            expansion.mode === mode
+                                                ? 'border-teal-500 bg-teal-500/10 text-teal-400'
+                                                : 'border-gray-700 hover:border-gray-600'
+                                        )}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                                {expansion.mode === 'deep' && ([
+                                    ['prefixes', 'Prefixes'],
+                                    ['questions', 'Questions'],
+                                    ['recurse', 'Second level'],
+                                ] as const).map(([key, label]) => (
+                                    <label key={key} className="flex items-center gap-1">
+                                        <input
+                                            type="checkbox"
+                                            checked={expansion[key]}
+                                            disabled={isLoading}
+                                            onChange={(e) => setExpansion({ ...expansion, [key]: e.target.checked })}
+                                            className="accent-teal-500"
+                                        />
+                                        {label}
+                                    </label>
+                                ))}
+                            </div>
+
+                            {isLoading ? (
+                                <div className="space-y-2">
+                                    <p className="text-sm text-teal-400 animate-pulse text-center mt-2">
+                                        {expansionProgress
+                                            ? `Expanding autocomplete ${expansionProgress.done}/${expansionProgress.total} · ${expansionProgress.found} keywords found`
+                                            : status}
+                                    </p>
+                                    {expansionProgress && (
+                                        <div className="h-1 w-full overflow-hidden rounded-full bg-gray-800">
+                                            <div
+                                                className="h-full bg-teal-500 transition-all"
+                                                style={{ width: `${(expansionProgress.done / Math.max(expansionProgress.total, 1)) * 100}%` }}
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            ) : (
+                                <p className="text-xs text-gray-500">
+                                    {estimateExpansionRequests(topicInput.trim() || 'topic', expansion)} autocomplete lookups (no quota),
+                                    then the top {ANALYZED_KEYWORDS} keywords are measured on YouTube (~{estimateKeywordAnalysisCost()} quota units)
                                 </p>
                             )}
                         </div>
@@ -212,107 +392,268 @@ export function KeywordResearch() {
                             <div className="flex items-center justify-between mb-2">
                                 <h3 className="text-xl font-bold text-white flex items-center gap-2">
                                     <TrendingUp className="h-5 w-5 text-green-400" />
-                                    Top Opportunities
+                                    {resultsView === 'plan' ? 'Content Plan' : 'Top Opportunities'}
                                 </h3>
-                            </div>
-
-                            {/* Bulk Actions Bar */}
-                            <div className="flex flex-wrap items-center justify-between gap-4 mb-4 bg-gray-900/40 p-3 rounded-lg border border-gray-800">
-                                <div className="flex items-center gap-2">
+                                <div className="flex gap-2">
                                     <Button
-                                        variant="ghost"
-                                        size="sm"
-                                        onClick={selectAll}
-                                        className="text-gray-300 hover:text-white"
-                                    >
-                                        All ({results.length})
-                                    </Button>
-                                    <Button
-                                        variant="ghost"
+                                        variant="outline"
                                         size="sm"
-                                        onClick={clearSelection}
-                                        disabled={selectedKeywords.size === 0}
-                                        className="text-gray-300 hover:text-white"
+                                        onClick={() => setResultsView('keywords')}
+                                        className={resultsView === 'keywords' ? 'bg-teal-500/20 text-teal-400 border-teal-500/30' : 'border-gray-700'}
                                     >
-                                        None
+                                        <List className="mr-2 h-3 w-3" />
+                                        Keywords
                                     </Button>
-                                    <div className="h-4 w-px bg-gray-700 mx-2" />
                                     <Button
                                         variant="outline"
                                         size="sm"
-                                        onClick={() => setShowOptimized(!showOptimized)}
-                                        className={showOptimized ? 'bg-green-500/20 text-green-400 border-green-500/30' : 'border-gray-700'}
+                                        onClick={() => setResultsView('plan')}
+                                        className={resultsView === 'plan' ? 'bg-teal-500/20 text-teal-400 border-teal-500/30' : 'border-gray-700'}
                                     >
-                                        {showOptimized ? 'Show Best Only' : 'Show All'}
+                                        <Layers className="mr-2 h-3 w-3" />
+                                        Topic Clusters
                                     </Button>
                                 </div>
+                            </div>
 
-                                <div className="flex items-center gap-2">
-                                    <Button
-                                        size="sm"
-                                        onClick={copySelected}
-                                        disabled={selectedKeywords.size === 0}
-                                        className="bg-teal-600 hover:bg-teal-700 h-8"
-                                    >
-                                        <Copy className="mr-2 h-3 w-3" />
-                                        Copy ({selectedKeywords.size})
-                                    </Button>
-                                    <Button
-                                        size="sm"
-                                        onClick={copyOptimized}
-                                        className="bg-green-600 hover:bg-green-700 h-8"
-                                    >
-                                        <Sparkles className="mr-2 h-3 w-3" />
-                                        Copy Best
-                                    </Button>
+                            {resultsView === 'plan' ? (
+                                <div className="space-y-3">
+                                    <div className="flex items-center justify-between gap-4 bg-gray-900/40 p-3 rounded-lg border border-gray-800">
+                                        <p className="text-xs text-gray-400">
+                                            {discovered.length} keywords grouped by shared words. Each cluster is one pillar video plus supporting videos;
+                                            its score averages its keywords measured on YouTube.
+                                        </p>
+                                        <Button
+                                            size="sm"
+                                            onClick={copyPlan}
+                                            className="bg-teal-600 hover:bg-teal-700 h-8 shrink-0"
+                                        >
+                                            <Copy className="mr-2 h-3 w-3" />
+                                            Copy Plan
+                                        </Button>
+                                    </div>
+
+                                    {clusters.map(cluster => (
+                                        <div key={cluster.label} className="p-4 rounded-xl border bg-gray-900/50 border-gray-800">
+                                            <div className="flex items-center justify-between mb-3">
+                                                <h4 className="font-semibold text-white text-lg capitalize">
+                                                    {cluster.label}
+                                                    <span className="ml-2 text-sm font-normal text-gray-500">{cluster.keywords.length} keywords</span>
+                                                </h4>
+                                                {cluster.opportunityScore !== null ? (
+                                                    <div className="font-bold" title={`Average of ${cluster.measured.length} measured keyword${cluster.measured.length === 1 ? '' : 's'}`}>
+                                                        <span className={getScoreColor(cluster.opportunityScore)}>{cluster.opportunityScore}</span>
+                                                        <span className="text-gray-500">/100</span>
+                                                    </div>
+                                                ) : (
+                                                    <span className="text-xs text-gray-500">Not measured</span>
+                                                )}
+                                            </div>
+
+                                            {cluster.label !== OTHER_CLUSTER_LABEL && (
+                                                <button
+                                                    onClick={() => handleGenerateTags(cluster.pillar)}
+                                                    className="mb-2 flex w-full items-center gap-2 rounded-lg border border-teal-500/30 bg-teal-950/20 px-3 py-2 text-left text-sm text-white hover:border-teal-500/60"
+                                                >
+                                                    <span className="rounded bg-teal-500/20 px-1.5 py-0.5 text-xs font-medium text-teal-400">Pillar</span>
+                                                    {cluster.pillar}
+                                                </button>
+                                            )}
+                                            <div className="flex max-h-40 flex-wrap gap-1.5 overflow-y-auto">
+                                                {(cluster.label === OTHER_CLUSTER_LABEL ? cluster.keywords : cluster.supporting).map(keyword => (
+                                                    <button
+                                                        key={keyword}
+                                                        onClick={() => handleGenerateTags(keyword)}
+                                                        className={cn(
+                                                            'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                                                            selectedKeyword === keyword
+                                                                ? 'border-teal-500 text-teal-300'
+                                                                : 'border-gray-700 text-gray-400 hover:border-gray-600 hover:text-gray-200'
+                                                        )}
+                                                    >
+                                                        {keyword}
+                                                    </button>
+                                                ))}
+                                                {cluster.label !== OTHER_CLUSTER_LABEL && cluster.keywords.length > cluster.supporting.length + 1 && (
+                                                    <span className="px-1 py-0.5 text-xs text-gray-500">
+                                                        +{cluster.keywords.length - cluster.supporting.length - 1} more
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
+                                    ))}
                                 </div>
-                            </div>
+                            ) : (
+                                <>
+                                {/* Bulk Actions Bar */}
+                                <div className="flex flex-wrap items-center justify-between gap-4 mb-4 bg-gray-900/40 p-3 rounded-lg border border-gray-800">
+                                    <div className="flex items-center gap-2">
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={selectAll}
+                                            className="text-gray-300 hover:text-white"
+                                        >
+                                            All ({results.length})
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={clearSelection}
+                                            disabled={selectedKeywords.size === 0}
+                                            className="text-gray-300 hover:text-white"
+                                        >
+                                            None
+                                        </Button>
+                                        <div className="h-4 w-px bg-gray-700 mx-2" />
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => setShowOptimized(!showOptimized)}
+                                            className={showOptimized ? 'bg-green-500/20 text-green-400 border-green-500/30' : 'border-gray-700'}
+                                        >
+                                            {showOptimized ? 'Show Best Only' : 'Show All'}
+                                        </Button>
+                                    </div>
 
-                            <div className="grid gap-3">
-                                {(showOptimized ? getOptimizedKeywords() : results).map((item, idx) => (
-                                    <div
-                                        key={idx}
-                                        className={`
-                                            p-4 rounded-xl border transition-all
-                                            ${selectedKeywords.has(item.keyword)
-                                                ? 'bg-teal-950/30 border-teal-500 ring-1 ring-teal-500'
-                                                : selectedKeyword === item.keyword
-                                                    ? 'bg-teal-950/20 border-teal-500/50'
-                                                    : 'bg-gray-900/50 border-gray-800 hover:border-teal-500/30'
-                                            }
-                                        `}
-                                    >
-                                        <div className="flex items-start gap-4">
-                                            <input
-                                                type="checkbox"
-                                                checked={selectedKeywords.has(item.keyword)}
-                                                onChange={() => toggleKeyword(item.keyword)}
-                                                className="mt-1.5 h-4 w-4 rounded border-gray-700 bg-gray-800 text-teal-600 focus:ring-teal-500 focus:ring-offset-gray-900 cursor-pointer"
-                                            />
+                                    <div className="flex items-center gap-2">
+                                        <Button
+                                            size="sm"
+                                            onClick={copySelected}
+                                            disabled={selectedKeywords.size === 0}
+                                            className="bg-teal-600 hover:bg-teal-700 h-8"
+                                        >
+                                            <Copy className="mr-2 h-3 w-3" />
+                                            Copy ({selectedKeywords.size})
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            onClick={copyOptimized}
+                                            className="bg-green-600 hover:bg-green-700 h-8"
+                                        >
+                                            <Sparkles className="mr-2 h-3 w-3" />
+                                            Copy Best
+                                        </Button>
+                                    </div>
+                                </div>
 
-                                            <div
-                                                className="flex-1 cursor-pointer"
-                                                onClick={() => handleGenerateTags(item.keyword)}
-                                            >
-                                                <div className="flex items-center justify-between mb-2">
-                                                    <h4 className="font-semibold text-white text-lg">{item.keyword}</h4>
-                                                    <div className={`px-2 py-0.5 rounded text-xs font-medium border ${getSaturationColor(item.saturation)}`}>
-                                                        {item.saturation} Comp.
+                                <div className="grid gap-3">
+                                    {(showOptimized ? getOptimizedKeywords() : results).map((item, idx) => (
+                                        <div
+                                            key={idx}
+                                            className={`
+                                                p-4 rounded-xl border transition-all
+                                                ${selectedKeywords.has(item.keyword)
+                                                    ? 'bg-teal-950/30 border-teal-500 ring-1 ring-teal-500'
+                                                    : selectedKeyword === item.keyword
+                                                        ? 'bg-teal-950/20 border-teal-500/50'
+                                                        : 'bg-gray-900/50 border-gray-800 hover:border-teal-500/30'
+                                                }
+                                            `}
+                                        >
+                                            <div className="flex items-start gap-4">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selectedKeywords.has(item.keyword)}
+                                                    onChange={() => toggleKeyword(item.keyword)}
+                                                    className="mt-1.5 h-4 w-4 rounded border-gray-700 bg-gray-800 text-teal-600 focus:ring-teal-500 focus:ring-offset-gray-900 cursor-pointer"
+                                                />
+
+                                                <div
+                                                    className="flex-1 cursor-pointer"
+                                                    onClick={() => handleGenerateTags(item.keyword)}
+                                                >
+                                                    <div className="flex items-center justify-between mb-2">
+                                                        <h4 className="font-semibold text-white text-lg">{item.keyword}</h4>
+                                                        <div className={`px-2 py-0.5 rounded text-xs font-medium border ${getSaturationColor(item.saturation)}`}>
+                                                            {item.saturation} Comp.
+                                                        </div>
                                                     </div>
-                                                </div>
 
-                                                <div className="flex items-center justify-between text-sm">
-                                                    <p className="text-gray-400">{item.reasoning}</p>
-                                                    <div className="flex items-center gap-1 font-bold pl-4 border-l border-gray-700 ml-4">
-                                                        <span className={getScoreColor(item.viralPotential)}>{item.viralPotential}</span>
-                                                        <span className="text-gray-500">/100</span>
+                                                    <div className="flex items-center justify-between text-sm">
+                                                        <p className="text-gray-400">{item.reasoning}</p>
+                                                        <button
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                setExpandedKeyword(expandedKeyword === item.keyword ? null : item.keyword);
+                                                            }}
+                                                            className="flex items-center gap-1 font-bold pl-4 border-l border-gray-700 ml-4"
+                                                            title="Show how this score is calculated"
+                                                        >
+                                                            <span className={getScoreColor(item.opportunityScore)}>{item.opportunityScore}</span>
+                                                            <span className="text-gray-500">/100</span>
+                                                            {expandedKeyword === item.keyword
+                                                                ? <ChevronUp className="h-3 w-3 text-gray-500" />
+                                                                : <ChevronDown className="h-3 w-3 text-gray-500" />}
+                                                        </button>
+                                                    </div>
+
+                                                    {/* Measured signals */}
+                                                    <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500">
+                                                        <span>~{formatCount(item.metrics.totalResults)} results</span>
+                                                        <span>{formatCount(item.metrics.medianTopViews)} median top views</span>
+                                                        <span>{formatAge(item.metrics.avgAgeDays)} avg age</span>
+                                                        <span>{formatCount(item.metrics.medianSubscribers)} median channel subs</span>
+                                                        <span>{item.metrics.autocompleteDepth} suggestions</span>
                                                     </div>
+
+                                                    {/* Score Breakdown */}
+                                                    {expandedKeyword === item.keyword && (
+                                                        <div className="mt-3 space-y-1 rounded bg-gray-800/50 p-2 text-xs">
+                                                            <p className="text-gray-500">Opportunity · factor score × weight</p>
+                                                            {item.factors.map(factor => (
+                                                                <div key={factor.key} className="flex items-center justify-between text-gray-300">
+                                                                    <span>{factor.label}</span>
+                                                                    <span className="font-mono text-gray-400">
+                                                                        {factor.score.toFixed(0)} × {(factor.weight * 100).toFixed(0)}% = <span className="text-white">{factor.contribution.toFixed(1)}</span>
+                                                                    </span>
+                                                                </div>
+                                                            ))}
+                                                        </div>
+                                                    )}
                                                 </div>
                                             </div>
                                         </div>
+                                    ))}
+                                </div>
+
+                                {/* Long tail */}
+                                {discovered.length > results.length && (
+                                    <div className="rounded-xl border border-gray-800 bg-gray-900/50 p-4">
+                                        <div className="mb-3 flex items-center justify-between">
+                                            <h4 className="text-sm font-medium text-gray-300">
+                                                All discovered keywords ({discovered.length})
+                                            </h4>
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                onClick={copyDiscovered}
+                                                className="h-8 text-gray-400 hover:text-white"
+                                            >
+                                                <Copy className="mr-2 h-3 w-3" />
+                                                Copy all
+                                            </Button>
+                                        </div>
+                                        <div className="flex max-h-64 flex-wrap gap-1.5 overflow-y-auto">
+                                            {discovered.map(keyword => (
+                                                <button
+                                                    key={keyword}
+                                                    onClick={() => handleGenerateTags(keyword)}
+                                                    className={cn(
+                                                        'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                                                        selectedKeyword === keyword
+                                                            ? 'border-teal-500 text-teal-300'
+                                                            : 'border-gray-700 text-gray-400 hover:border-gray-600 hover:text-gray-200'
+                                                    )}
+                                                >
+                                                    {keyword}
+                                                </button>
+                                            ))}
+                                        </div>
                                     </div>
-                                ))}
-                            </div>
+                                )}
+                                </>
+                            )}
                         </div>
 
                         {/* Right: Selected Keyword Actions */}
@@ -324,7 +665,7 @@ export function KeywordResearch() {
 
                                         {!selectedKeyword ? (
                                             <div className="text-center py-8 text-gray-500">
-                                                <p>Click any keyword on the left to generate optimized tags</p>
+                                                <p>Click any keyword on the left to generate tags and hashtags</p>
                                             </div>
                                         ) : (
                                             <>
@@ -333,17 +674,90 @@ export function KeywordResearch() {
                                                     <p className="text-white font-medium">{selectedKeyword}</p>
                                                 </div>
 
-                                                <div className="bg-black/40 rounded-lg p-3 mb-4 min-h-[100px] text-sm text-gray-300 font-mono">
-                                                    {generatedTags.join(', ')}
+                                                <div className="mb-2 flex items-center justify-between text-xs">
+                                                    <span className="text-gray-400">{selectedTags.length} tags</span>
+                                                    <span className={cn('font-mono', tagCharacters > TAG_CHARACTER_LIMIT ? 'text-red-400' : 'text-gray-400')}>
+                                                        {tagCharacters}/{TAG_CHARACTER_LIMIT}
+                                                    </span>
+                                                </div>
+                                                <div className="mb-1 h-1 w-full overflow-hidden rounded-full bg-gray-800">
+                                                    <div
+                                                        className={cn('h-full transition-all', tagCharacters > TAG_CHARACTER_LIMIT ? 'bg-red-500' : 'bg-teal-500')}
+                                                        style={{ width: `${Math.min(tagCharacters / TAG_CHARACTER_LIMIT, 1) * 100}%` }}
+                                                    />
+                                                </div>
+                                                <p className="mb-3 text-xs text-gray-500">
+                                                    Click a tag to add or remove it. Most relevant first; source on hover.
+                                                </p>
+
+                                                <div className="mb-4 flex max-h-72 flex-wrap gap-1.5 overflow-y-auto">
+                                                    {tagSuggestions?.candidates.map(candidate => {
+                                                        const picked = selectedTags.includes(candidate.tag);
+                                                        const fits = picked || countTagCharacters([...selectedTags, candidate.tag]) <= TAG_CHARACTER_LIMIT;
+                                                        return (
+                                                            <button
+                                                                key={candidate.tag}
+                                                                onClick={() => toggleTag(candidate.tag)}
+                                                                disabled={!fits}
+                                                                title={`${TAG_SOURCE_LABELS[candidate.source]} · relevance ${Math.round(candidate.relevance * 100)}%`}
+                                                                className={cn(
+                                                                    'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                                                                    picked
+                                                                        ? 'border-teal-500 bg-teal-500/10 text-teal-300'
+                                                                        : fits
+                                                                            ? 'border-gray-700 text-gray-500 hover:border-gray-600 hover:text-gray-300'
+                                                                            : 'border-gray-800 text-gray-600 cursor-not-allowed'
+                                                                )}
+                                                            >
+                                                                {candidate.tag}
+                                                            </button>
+                                                        );
+                                                    })}
                                                 </div>
 
                                                 <Button
                                                     onClick={copyTags}
+                                                    disabled={selectedTags.length === 0}
                                                     className="w-full bg-teal-600 hover:bg-teal-700"
                                                 >
                                                     <Copy className="mr-2 h-4 w-4" />
                                                     Copy Tags
                                                 </Button>
+                                                {onDraftTitles && (
+                                                    <Button
+                                                        onClick={() => onDraftTitles(selectedKeyword)}
+                                                        variant="outline"
+                                                        className="mt-2 w-full border-gray-700"
+                                                    >
+                                                        <Type className="mr-2 h-4 w-4" />
+                                                        Draft titles for this keyword
+                                                    </Button>
+                                                )}
+
+                                                {tagSuggestions && tagSuggestions.hashtags.length > 0 && (
+                                                    <div className="mt-6 space-y-3 border-t border-gray-800 pt-4">
+                                                        <h4 className="text-sm font-medium text-gray-300">Hashtags</h4>
+                                                        {([
+                                                            ['Description', tagSuggestions.hashtags],
+                                                            ['Shorts', tagSuggestions.shortsHashtags],
+                                                        ] as const).map(([label, hashtags]) => (
+                                                            <div key={label} className="flex items-start justify-between gap-2">
+                                                                <div>
+                                                                    <p className="text-xs text-gray-500">{label}</p>
+                                                                    <p className="text-sm text-teal-300">{hashtags.join(' ')}</p>
+                                                                </div>
+                                                                <Button
+                                                                    size="sm"
+                                                                    variant="ghost"
+                                                                    onClick={() => copyHashtags([...hashtags])}
+                                                                    className="h-8 shrink-0 text-gray-400 hover:text-white"
+                                                                >
+                                                                    <Copy className="h-3 w-3" />
+                                                                </Button>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                )}
                                             </>
                                         )}
                                     </CardContent>
@@ -1,35 +1,61 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Image, Sparkles, Copy, ArrowLeft, Loader2, Download } from 'lucide-react';
+import { Image, Sparkles, Copy, ArrowLeft, Loader2, Download, ImagePlus, X } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { ApiKeySettings } from '@/components/ApiKeySettings';
-import { getBackendUrl, getAuthHeaders } from '@/lib/api-config';
-
-interface ThumbnailConcept {
-    name: string;
-    description: string;
-    textOverlay: string;
-    colorScheme: string;
-    layout: string;
-    emotion: string;
-    ctrHook: string;
-    canvaPrompt: string;
-    midjourneyPrompt: string;
-}
-
-interface GeneratorResult {
-    concepts: ThumbnailConcept[];
-    designTips: string[];
-    colorPalettes: { name: string; colors: string[] }[];
-}
+import { ThumbnailMockup } from '@/components/ThumbnailMockup';
+import { generateStructured, s, Infer } from '@/lib/ai-schema';
+
+const thumbnailConceptSchema = s.object({
+    name: s.string(),
+    description: s.string(),
+    textOverlay: s.string(),
+    colorScheme: s.string(),
+    layout: s.string(),
+    emotion: s.string(),
+    ctrHook: s.string(),
+    canvaPrompt: s.string(),
+    midjourneyPrompt: s.string(),
+});
+
+const generatorResultSchema = s.object({
+    concepts: s.array(thumbnailConceptSchema, { min: 1 }),
+    designTips: s.array(s.string()),
+    colorPalettes: s.array(s.object({ name: s.string(), colors: s.array(s.string()) })),
+});
+
+type ThumbnailConcept = Infer<typeof thumbnailConceptSchema>;
+type GeneratorResult = Infer<typeof generatorResultSchema>;
 
 export function ThumbnailGenerator() {
     const [title, setTitle] = useState('');
     const [niche, setNiche] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [result, setResult] = useState<GeneratorResult | null>(null);
+    // Uploaded face/product cut-out for the mockups, with its object URL
+    const [cutout, setCutout] = useState<{ image: HTMLImageElement; url: string } | null>(null);
+
+    useEffect(() => () => {
+        if (cutout) URL.revokeObjectURL(cutout.url);
+    }, [cutout]);
+
+    const handleCutoutUpload = (file: File | undefined) => {
+        if (!file) return;
+        if (!file.type.startsWith('image/')) {
+            toast({ title: 'Not an image', description: 'Upload a PNG, JPG or WebP file', variant: 'destructive' });
+            return;
+        }
+        const url = URL.createObjectURL(file);
+        const image = new window.Image();
+        image.onload = () => setCutout({ image, url });
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            toast({ title: 'Error', description: 'Could not read that image', variant: 'destructive' });
+        };
+        image.src = url;
+    };
 
     const handleGenerate = async () => {
         if (!title.trim()) {
@@ -61,44 +87,12 @@ For EACH concept, provide:
 
 Also provide:
 - **Design Tips**: 7 specific tips for this niche
-- **Color Palettes**: 3 high-converting color combinations with hex codes
-
-Respond in this EXACT JSON format (no markdown, no backticks):
-
-{
-  "concepts": [
-    {
-      "name": "string",
-      "description": "string",
-      "textOverlay": "string",
-      "colorScheme": "string",
-      "layout": "string",
-      "emotion": "string",
-      "ctrHook": "string",
-      "canvaPrompt": "string",
-      "midjourneyPrompt": "string"
-    }
-  ],
-  "designTips": ["tip1", "tip2", ...],
-  "colorPalettes": [
-    { "name": "Palette Name", "colors": ["#FF0000", "#FFFFFF", "#000000"] }
-  ]
-}`;
-
-            const response = await fetch(`${getBackendUrl()}/api/gemini/generate`, {
-                method: 'POST',
-                headers: getAuthHeaders() as Record<string, string>,
-                body: JSON.stringify({ prompt })
-            });
-
-            if (!response.ok) throw new Error('Generation failed');
+- **Color Palettes**: 3 high-converting color combinations with hex codes`;
 
-            const data = await response.json();
-            const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-            const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-            const parsed = JSON.parse(cleanText);
+            const generated = await generateStructured(prompt, generatorResultSchema);
+            if (!generated.ok) throw new Error(generated.message);
 
-            setResult(parsed);
+            setResult(generated.data);
             toast({ title: 'Success!', description: '3 thumbnail concepts generated' });
         } catch (error) {
             console.error('Thumbnail generation failed:', error);
@@ -191,7 +185,7 @@ ${concept.midjourneyPrompt}`;
                         AI Thumbnail Generator
                     </h2>
                     <p className="text-lg text-gray-400">
-                        Professional thumbnail concepts with ready-to-use prompts for Canva & AI tools
+                        Thumbnail concepts rendered as ready-to-upload mockups, with prompts for Canva & AI tools
                     </p>
                 </div>
 
@@ -247,12 +241,48 @@ ${concept.midjourneyPrompt}`;
                 {/* Results */}
                 {result && (
                     <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-8">
+                        {/* Cut-out for the mockups */}
+                        <div className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-gray-800 bg-gray-900/50 p-4">
+                            <div>
+                                <p className="font-semibold text-white">Your face or product</p>
+                                <p className="text-sm text-gray-400">
+                                    Optional. A PNG with a transparent background is placed opposite the text in every mockup.
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                {cutout && (
+                                    <>
+                                        <img src={cutout.url} alt="Cut-out" className="h-10 w-10 rounded border border-gray-700 object-contain" />
+                                        <Button variant="ghost" size="sm" onClick={() => setCutout(null)} className="text-gray-400 hover:text-white">
+                                            <X className="mr-2 h-4 w-4" />
+                                            Remove
+                                        </Button>
+                                    </>
+                                )}
+                                <label className="inline-flex cursor-pointer items-center rounded-md border border-gray-700 px-3 py-2 text-sm text-gray-200 hover:bg-gray-800">
+                                    <ImagePlus className="mr-2 h-4 w-4" />
+                                    {cutout ? 'Replace' : 'Upload cut-out'}
+                                    <input
+                                        type="file"
+                                        accept="image/*"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            handleCutoutUpload(e.target.files?.[0]);
+                                            e.target.value = '';
+                                        }}
+                                    />
+                                </label>
+                            </div>
+                        </div>
+
                         {/* Thumbnail Concepts */}
                         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                             {result.concepts.map((concept, idx) => (
                                 <Card key={idx} className="bg-gray-900/50 border-gray-800 hover:border-cyan-500/30 transition-all">
                                     <div className="h-2 bg-gradient-to-r from-cyan-500 to-blue-500 w-full rounded-t-xl" />
                                     <CardContent className="p-6 space-y-4">
+                                        <ThumbnailMockup name={concept.name} concept={concept} cutout={cutout?.image ?? null} />
+
                                         <div>
                                             <h3 className="text-xl font-bold text-white mb-2">{concept.name}</h3>
                                             <p className="text-gray-400 text-sm">{concept.description}</p>
@@ -0,0 +1,342 @@
+import { useState, useEffect, useRef } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Type, Loader2, Plus, X, Sparkles, Trophy, ChevronDown, ChevronUp } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { ApiKeySettings } from '@/components/ApiKeySettings';
+import {
+    scoreTitles,
+    fetchNicheTitles,
+    draftTitles,
+    estimateNicheTitlesCost,
+    NicheTitle,
+    TitleScore,
+    MAX_CANDIDATE_TITLES,
+} from '@/lib/title-analyzer';
+import { cn } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+
+interface TitleAnalyzerProps {
+    // Keyword from the link, e.g. sent over from Keyword Research; drafts titles on load
+    keyword?: string;
+    onKeywordChange?: (keyword: string | null) => void;
+}
+
+const formatCount = (num: number) =>
+    new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(num);
+
+const getScoreColor = (score: number) => {
+    if (score >= 80) return 'text-green-400';
+    if (score >= 60) return 'text-yellow-400';
+    return 'text-gray-400';
+};
+
+export function TitleAnalyzer({ keyword, onKeywordChange }: TitleAnalyzerProps) {
+    const [keywordInput, setKeywordInput] = useState(keyword || '');
+    const [titles, setTitles] = useState<string[]>(['', '']);
+    const [isDrafting, setIsDrafting] = useState(false);
+    const [isScoring, setIsScoring] = useState(false);
+    const [scores, setScores] = useState<TitleScore[]>([]);
+    // Top titles for the keyword they were fetched for; refetched when it changes
+    const [niche, setNiche] = useState<{ keyword: string; titles: NicheTitle[] } | null>(null);
+    const [expandedTitle, setExpandedTitle] = useState<string | null>(null);
+
+    // Keyword the current drafts were made for, so a link update doesn't draft again
+    const draftedRef = useRef<string | null>(null);
+
+    const handleDraft = async (input = keywordInput) => {
+        const trimmed = input.trim();
+        if (!trimmed) {
+            toast({ title: 'Keyword required', description: 'Enter the keyword the video targets', variant: 'destructive' });
+            return;
+        }
+
+        draftedRef.current = trimmed;
+        setIsDrafting(true);
+        try {
+            const drafts = await draftTitles(trimmed, niche?.keyword === trimmed ? niche.titles : []);
+            // Drafts fill the empty slots and are added after the titles already written
+            const written = titles.filter(title => title.trim());
+            setTitles([...written, ...drafts.filter(draft => !written.includes(draft))].slice(0, MAX_CANDIDATE_TITLES));
+            setScores([]);
+        } finally {
+            setIsDrafting(false);
+        }
+    };
+
+    useEffect(() => {
+        if (keyword && keyword !== draftedRef.current) {
+            setKeywordInput(keyword);
+            handleDraft(keyword);
+        }
+    }, [keyword]);
+
+    const handleScore = async () => {
+        const trimmed = keywordInput.trim();
+        const candidates = Array.from(new Set(titles.map(title => title.trim()).filter(Boolean)));
+        if (!trimmed || candidates.length === 0) {
+            toast({ title: 'Nothing to score', description: 'Enter a keyword and at least one title', variant: 'destructive' });
+            return;
+        }
+
+        setIsScoring(true);
+        try {
+            let nicheTitles = niche?.keyword === trimmed ? niche.titles : null;
+            if (!nicheTitles) {
+                try {
+                    nicheTitles = await fetchNicheTitles(trimmed);
+                    setNiche({ keyword: trimmed, titles: nicheTitles });
+                } catch (error) {
+                    logger.error('Niche titles failed:', error);
+                    const message = error instanceof Error ? error.message : '';
+                    toast({
+                        title: 'Scored without niche comparison',
+                        description: message === 'QUOTA_BUDGET_EXCEEDED'
+                            ? 'Fetching top titles would go over your daily YouTube quota budget.'
+                            : message === 'QUOTA_EXCEEDED'
+                                ? 'YouTube API quota exceeded. Please try again tomorrow.'
+                                : 'Could not fetch the top titles for this keyword.',
+                    });
+                    nicheTitles = [];
+                }
+            }
+
+            setScores(scoreTitles(candidates, trimmed, nicheTitles).sort((a, b) => b.score - a.score));
+            onKeywordChange?.(trimmed);
+            draftedRef.current = trimmed;
+        } finally {
+            setIsScoring(false);
+        }
+    };
+
+    const updateTitle = (index: number, value: string) => {
+        setTitles(titles.map((title, i) => (i === index ? value : title)));
+    };
+
+    const removeTitle = (index: number) => {
+        setTitles(titles.filter((_, i) => i !== index));
+    };
+
+    const nicheTitles = niche?.keyword === keywordInput.trim() ? niche.titles : [];
+
+    return (
+        <div className="flex min-h-screen flex-col items-center justify-start bg-gradient-to-br from-gray-950 via-gray-900 to-black px-4 py-12">
+
+            {/* Settings */}
+            <div className="fixed top-6 right-6 z-50">
+                <ApiKeySettings />
+            </div>
+
+            <div className="mx-auto max-w-6xl w-full">
+                {/* Header */}
+                <div className="text-center mb-12">
+                    <div className="mb-6 flex items-center justify-center gap-3">
+                        <div className="rounded-full bg-gradient-to-br from-sky-500 to-indigo-600 p-3">
+                            <Type className="h-8 w-8 text-white" />
+                        </div>
+                        <h1 className="bg-gradient-to-r from-red-500 via-orange-500 to-yellow-500 bg-clip-text text-5xl font-black text-transparent">
+                            ViralVision
+                        </h1>
+                    </div>
+
+                    <h2 className="mb-4 text-3xl font-bold text-white sm:text-4xl">
+                        Title Analyzer
+                    </h2>
+                    <p className="text-lg text-gray-400">
+                        Score title candidates against each other and the niche's top performers before you publish
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                    {/* Left: candidates and scores */}
+                    <div className="lg:col-span-2 space-y-6">
+                        <div className="space-y-4 rounded-2xl border border-gray-800 bg-gray-900/50 p-6 backdrop-blur-sm">
+                            <div>
+                                <label className="mb-2 block text-sm font-medium text-gray-300">Target keyword</label>
+                                <div className="flex gap-2">
+                                    <Input
+                                        value={keywordInput}
+                                        onChange={(e) => setKeywordInput(e.target.value)}
+                                        placeholder="e.g., minecraft survival house"
+                                        className="bg-gray-800 border-gray-700 text-white"
+                                    />
+                                    <Button
+                                        onClick={() => handleDraft()}
+                                        disabled={isDrafting}
+                                        variant="outline"
+                                        className="border-gray-700 shrink-0"
+                                    >
+                                        {isDrafting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                                        Draft titles
+                                    </Button>
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="block text-sm font-medium text-gray-300">Title candidates</label>
+                                {titles.map((title, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <span className="w-5 text-right text-xs text-gray-500">{String.fromCharCode(65 + index)}</span>
+                                        <Input
+                                            value={title}
+                                            onChange={(e) => updateTitle(index, e.target.value)}
+                                            placeholder="Write a title..."
+                                            className="bg-gray-800 border-gray-700 text-white"
+                                            onKeyDown={(e) => e.key === 'Enter' && handleScore()}
+                                        />
+                                        <span className={cn('w-8 text-right text-xs', title.length > 60 ? 'text-yellow-400' : 'text-gray-500')}>
+                                            {title.length}
+                                        </span>
+                                        <button
+                                            onClick={() => removeTitle(index)}
+                                            disabled={titles.length <= 1}
+                                            className="text-gray-500 hover:text-white disabled:opacity-30"
+                                            title="Remove"
+                                        >
+                                            <X className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                                {titles.length < MAX_CANDIDATE_TITLES && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => setTitles([...titles, ''])}
+                                        className="text-gray-400 hover:text-white"
+                                    >
+                                        <Plus className="mr-2 h-3 w-3" />
+                                        Add title
+                                    </Button>
+                                )}
+                            </div>
+
+                            <Button
+                                onClick={handleScore}
+                                disabled={isScoring}
+                                className="w-full bg-sky-600 hover:bg-sky-700"
+                            >
+                                {isScoring ? <Loader2 className="animate-spin" /> : 'Score titles'}
+                            </Button>
+                            <p className="text-xs text-gray-500 text-center">
+                                {nicheTitles.length > 0
+                                    ? 'Top titles for this keyword are loaded; scoring is free'
+                                    : `Fetches the top titles for the keyword once (~${estimateNicheTitlesCost()} quota units)`}
+                            </p>
+                        </div>
+
+                        {/* Scores */}
+                        {scores.length > 0 && (
+                            <div className="grid gap-3 animate-in fade-in slide-in-from-bottom-4 duration-500">
+                                {scores.map((item, idx) => (
+                                    <div
+                                        key={item.title}
+                                        className={cn(
+                                            'p-4 rounded-xl border transition-all',
+                                            idx === 0 && scores.length > 1
+                                                ? 'bg-sky-950/20 border-sky-500/50'
+                                                : 'bg-gray-900/50 border-gray-800'
+                                        )}
+                                    >
+                                        <div className="flex items-start justify-between gap-4">
+                                            <div className="flex-1">
+                                                {idx === 0 && scores.length > 1 && (
+                                                    <span className="mb-1 inline-flex items-center gap-1 rounded bg-sky-500/20 px-1.5 py-0.5 text-xs font-medium text-sky-300">
+                                                        <Trophy className="h-3 w-3" />
+                                                        Best of {scores.length}
+                                                    </span>
+                                                )}
+                                                <h4 className="font-semibold text-white text-lg">{item.title}</h4>
+                                            </div>
+                                            <button
+                                                onClick={() => setExpandedTitle(expandedTitle === item.title ? null : item.title)}
+                                                className="flex items-center gap-1 font-bold"
+                                                title="Show how this score is calculated"
+                                            >
+                                                <span className={cn('text-2xl', getScoreColor(item.score))}>{item.score}</span>
+                                                <span className="text-gray-500">/100</span>
+                                                {expandedTitle === item.title
+                                                    ? <ChevronUp className="h-3 w-3 text-gray-500" />
+                                                    : <ChevronDown className="h-3 w-3 text-gray-500" />}
+                                            </button>
+                                        </div>
+
+                                        {/* Factor bars */}
+                                        <div className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1.5 sm:grid-cols-3">
+                                            {item.factors.map(factor => (
+                                                <div key={factor.key} title={factor.explanation}>
+                                                    <div className="flex justify-between text-xs text-gray-400">
+                                                        <span>{factor.label}</span>
+                                                        <span>{factor.score.toFixed(0)}</span>
+                                                    </div>
+                                                    <div className="h-1 w-full overflow-hidden rounded-full bg-gray-800">
+                                                        <div className="h-full bg-sky-500" style={{ width: `${factor.score}%` }} />
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+
+                                        {/* Explanation */}
+                                        {expandedTitle === item.title && (
+                                            <div className="mt-3 space-y-1.5 rounded bg-gray-800/50 p-2 text-xs">
+                                                <p className="text-gray-500">Score · factor score × weight</p>
+                                                {item.factors.map(factor => (
+                                                    <div key={factor.key}>
+                                                        <div className="flex items-center justify-between text-gray-300">
+                                                            <span>{factor.label}</span>
+                                                            <span className="font-mono text-gray-400">
+                                                                {factor.score.toFixed(0)} × {(factor.weight * 100).toFixed(0)}% = <span className="text-white">{factor.contribution.toFixed(1)}</span>
+                                                            </span>
+                                                        </div>
+                                                        <p className="text-gray-500">{factor.explanation}</p>
+                                                    </div>
+                                                ))}
+                                                {item.closestNicheTitle && (
+                                                    <p className="pt-1 text-gray-500">
+                                                        Closest top title: <span className="text-gray-300">{item.closestNicheTitle.title}</span> ({formatCount(item.closestNicheTitle.views)} views)
+                                                    </p>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Right: niche reference */}
+                    <div className="lg:col-span-1">
+                        <div className="sticky top-24">
+                            <Card className="bg-gray-900/80 border-gray-700 backdrop-blur">
+                                <CardContent className="p-6">
+                                    <h3 className="text-lg font-bold text-white mb-4">Top titles in the niche</h3>
+                                    {nicheTitles.length === 0 ? (
+                                        <div className="text-center py-8 text-gray-500">
+                                            <p>Score your titles to load the most viewed videos for the keyword</p>
+                                        </div>
+                                    ) : (
+                                        <ol className="max-h-[32rem] space-y-2 overflow-y-auto text-sm">
+                                            {nicheTitles.map(title => (
+                                                <li key={title.videoId}>
+                                                    <a
+                                                        href={`https://www.youtube.com/watch?v=${title.videoId}`}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="text-gray-300 hover:text-white"
+                                                    >
+                                                        {title.title}
+                                                    </a>
+                                                    <span className="ml-2 text-xs text-gray-500">{formatCount(title.views)} views</span>
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
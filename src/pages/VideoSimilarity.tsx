@@ -1,21 +1,23 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Video, Network, ArrowLeft, Loader2, ExternalLink } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { ApiKeySettings } from '@/components/ApiKeySettings';
-import { getBackendUrl } from '@/lib/api-config';
+import { fetchSimilarVideos } from '@/lib/youtube-api';
+import { RelatedVideo } from '@/types/video';
 
-interface RelatedVideo {
-    videoId: string;
-    title: string;
-    channelName: string;
-    thumbnailUrl: string;
+interface VideoSimilarityProps {
+    // Video id from the link; scanned on load and on back/forward
+    videoId?: string;
+    onVideoChange?: (videoId: string | null) => void;
 }
 
-export function VideoSimilarity() {
-    const [videoUrl, setVideoUrl] = useState('');
+export function VideoSimilarity({ videoId, onVideoChange }: VideoSimilarityProps) {
+    const [videoUrl, setVideoUrl] = useState(videoId || '');
+    // Video id of the latest scan, so a link update doesn't trigger it again
+    const scannedRef = useRef<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [results, setResults] = useState<RelatedVideo[]>([]);
 
@@ -47,42 +49,67 @@ export function VideoSimilarity() {
         return null;
     };
 
-    const handleSearch = async () => {
-        const id = extractVideoId(videoUrl);
+    const handleSearch = async (input = videoUrl) => {
+        const id = extractVideoId(input);
         if (!id) {
             toast({ title: 'Invalid URL', description: 'Please enter a valid YouTube video URL', variant: 'destructive' });
             return;
         }
 
+        scannedRef.current = id;
         setIsLoading(true);
         setResults([]);
 
         try {
-            const response = await fetch(`${getBackendUrl()}/api/youtube/related?videoId=${id}`);
-            const data = await response.json();
+            const relatedVideos = await fetchSimilarVideos(id);
 
-            if (data.relatedVideos && data.relatedVideos.length > 0) {
-                setResults(data.relatedVideos);
+            if (relatedVideos.length > 0) {
+                setResults(relatedVideos);
+                onVideoChange?.(id);
             } else {
                 toast({
                     title: 'No related videos found',
-                    description: 'Could not scrape related videos. YouTube might be blocking requests.',
+                    description: 'No videos competing with this one were found.',
                     variant: 'destructive'
                 });
             }
         } catch (error) {
             console.error('Error fetching related videos:', error);
-            toast({ title: 'Error', description: 'Failed to fetch related videos', variant: 'destructive' });
+            const errorMessage = error instanceof Error ? error.message : '';
+            toast({
+                title: 'Error',
+                description: errorMessage === 'QUOTA_BUDGET_EXCEEDED'
+                    ? 'This scan would go over your daily YouTube quota budget.'
+                    : errorMessage === 'QUOTA_EXCEEDED'
+                        ? 'YouTube API quota exceeded. Please try again tomorrow.'
+                        : 'Failed to fetch related videos',
+                variant: 'destructive'
+            });
         } finally {
             setIsLoading(false);
         }
     };
 
-    const handleBack = () => {
+    const reset = () => {
+        scannedRef.current = null;
         setResults([]);
         setVideoUrl('');
     };
 
+    const handleBack = () => {
+        reset();
+        onVideoChange?.(null);
+    };
+
+    useEffect(() => {
+        if (videoId && videoId !== scannedRef.current) {
+            setVideoUrl(videoId);
+            handleSearch(videoId);
+        } else if (!videoId && scannedRef.current) {
+            reset();
+        }
+    }, [videoId]);
+
     return (
         <div className="flex min-h-screen flex-col items-center justify-start bg-gradient-to-br from-gray-950 via-gray-900 to-black px-4 py-12">
 
@@ -140,7 +167,7 @@ export function VideoSimilarity() {
                                     onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
                                 />
                                 <Button
-                                    onClick={handleSearch}
+                                    onClick={() => handleSearch()}
                                     disabled={isLoading}
                                     className="bg-amber-600 hover:bg-amber-700 min-w-[120px]"
                                 >
@@ -163,7 +190,7 @@ export function VideoSimilarity() {
                                 Algorithm Recommendations
                             </h3>
                             <p className="text-gray-400 text-sm">
-                                YouTube suggests these {results.length} videos next. Create content that beats these to steal the "Suggested Video" traffic.
+                                These {results.length} videos compete with yours for the same topic. Create content that beats these to steal the "Suggested Video" traffic.
                             </p>
                         </div>
 
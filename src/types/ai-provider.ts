@@ -0,0 +1,22 @@
+/**
+ * Type definitions for the AI text providers (see lib/ai-providers.ts)
+ */
+
+export type AIProviderId = 'gemini' | 'openai' | 'local';
+
+export interface AIProviderConfig {
+    // Gemini keeps its key in apiKeys.gemini, which the backend proxy reads
+    apiKey?: string;
+    model?: string;
+    baseUrl?: string;
+}
+
+export interface AIProviderSettings {
+    active: AIProviderId;
+    providers: Partial<Record<AIProviderId, AIProviderConfig>>;
+}
+
+export interface AIGenerateOptions {
+    // Ground the answer in Google Search (Gemini only, ignored elsewhere)
+    enableSearch?: boolean;
+}
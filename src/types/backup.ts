@@ -0,0 +1,46 @@
+/**
+ * Export/import bundle types (see lib/backup.ts)
+ */
+
+import type { Idea, IdeaBoard } from './ideas';
+import type { WatchlistEntry } from './watchlist';
+import type { CompetitorChannel, CompetitorFeedSettings } from './competitor';
+import type { ScoringProfile } from './scoring';
+import type { QuotaSettings } from './quota';
+import type { AIProviderSettings } from './ai-provider';
+
+export interface BackupBundle {
+    app: 'viralvision';
+    version: number;
+    exportedAt: string; // ISO date
+    ideas: Idea[];
+    boards: IdeaBoard[];
+    watchlists: WatchlistEntry[];
+    scoringProfiles: ScoringProfile[];
+    // Pinned channels only; the upload feed itself is rebuilt by the next refresh
+    competitors: CompetitorChannel[];
+    competitorFeed?: CompetitorFeedSettings;
+    quotaSettings?: QuotaSettings;
+    aiProvider?: AIProviderSettings;
+    // Only present when the user opted in on export
+    apiKeys?: {
+        youtube?: string;
+        gemini?: string;
+    };
+}
+
+export interface BackupOptions {
+    // API keys (and AI provider keys) are left out unless this is set
+    includeApiKeys?: boolean;
+}
+
+export interface ImportSummary {
+    ideasAdded: number;
+    ideasUpdated: number;
+    boardsAdded: number;
+    watchlistsAdded: number;
+    profilesAdded: number;
+    competitorsAdded: number;
+    settingsImported: boolean;
+    apiKeysImported: boolean;
+}
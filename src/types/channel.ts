@@ -6,6 +6,8 @@ export interface SimilarChannel {
     videoCount: number;
     thumbnailUrl: string;
     description: string;
+    // Similar channels: topics shared with the target channel, strongest first.
+    // Target channel: its own most distinctive topics.
     topics: string[];
     avgViews: number;
     uploadFrequency: string; // "Daily", "Weekly", "Monthly", etc.
@@ -16,7 +18,11 @@ export interface SimilarChannel {
         publishedAt: string;
         thumbnailUrl: string;
     } | null;
-    similarityScore: number; // 0-100
+    // Description and title overlap with the target channel (TF-IDF), 0-100
+    contentScore: number;
+    // Subscriber, upload frequency, view and video count closeness, 0-100
+    statScore: number;
+    similarityScore: number; // 0-100, content and stats blended
 }
 
 export interface ChannelAnalysis {
@@ -24,3 +30,126 @@ export interface ChannelAnalysis {
     similarChannels: SimilarChannel[];
     keywords: string[];
 }
+
+export interface ChannelReportVideo {
+    id: string;
+    title: string;
+    publishedAt: string;
+    thumbnailUrl: string;
+    views: number;
+    likes: number;
+    comments: number;
+    lengthSeconds: number;
+    isShort: boolean;
+    // Views divided by the channel's median views (1 = a typical upload)
+    outlierMultiplier: number;
+}
+
+export interface FormatStats {
+    count: number;
+    share: number; // 0-1 of all uploads
+    medianViews: number;
+    avgViews: number;
+    totalViews: number;
+}
+
+export interface PostingSlot {
+    // Weekday 0-6 (Sunday first) or hour 0-23, in the viewer's time zone
+    slot: number;
+    uploads: number;
+    medianViews: number;
+}
+
+export interface TitleKeyword {
+    keyword: string;
+    // Top-decile titles containing the word
+    count: number;
+    // How much more often it appears in top-decile titles than in all titles
+    lift: number;
+}
+
+export interface TitlePatterns {
+    topDecileMinViews: number;
+    topDecileAvgChars: number;
+    otherAvgChars: number;
+    topDecileAvgWords: number;
+    otherAvgWords: number;
+    // Share of titles with a number, a question mark, or an ALL-CAPS word
+    topDecileWithNumber: number;
+    otherWithNumber: number;
+    topDecileWithQuestion: number;
+    otherWithQuestion: number;
+    topDecileWithCaps: number;
+    otherWithCaps: number;
+    keywords: TitleKeyword[];
+}
+
+export interface GrowthPoint {
+    month: string; // YYYY-MM
+    uploads: number;
+    totalViews: number;
+    medianViews: number;
+}
+
+export interface ChannelReport {
+    channel: SimilarChannel;
+    generatedAt: string;
+    videos: ChannelReportVideo[]; // Newest first
+    // True when the uploads playlist was longer than the report reads
+    truncated: boolean;
+    medianViews: number;
+    formats: {
+        shorts: FormatStats;
+        longForm: FormatStats;
+    };
+    weekdays: PostingSlot[];
+    hours: PostingSlot[];
+    titles: TitlePatterns;
+    growth: GrowthPoint[];
+}
+
+// Typical views for a channel, used to spot videos far above its usual (see lib/channel-baselines.ts)
+export interface ChannelBaseline {
+    channelId: string;
+    medianViews: number;
+    // Recent uploads the median was taken over
+    sampleSize: number;
+    fetchedAt: string; // ISO date
+}
+
+export interface ChannelGraphNode {
+    channel: SimilarChannel;
+    // Hops from the seed channel
+    depth: number;
+    expanded: boolean;
+    // Index into ChannelGraph.clusters
+    cluster: number;
+}
+
+export interface ChannelGraphEdge {
+    source: string;
+    target: string;
+    // similarityScore of the match that created the edge (0-100)
+    score: number;
+}
+
+export interface ChannelCluster {
+    label: string;
+    size: number;
+}
+
+export interface ChannelGraph {
+    seedId: string;
+    nodes: Record<string, ChannelGraphNode>;
+    edges: ChannelGraphEdge[];
+    clusters: ChannelCluster[];
+    // YouTube quota units used by expansions (the seed analysis not included)
+    quotaSpent: number;
+}
+
+export interface DiscoverySettings {
+    // Furthest hop from the seed the graph may reach; channels this far out can't be expanded
+    maxDepth: number;
+    // Units all expansions together may use
+    quotaBudget: number;
+}
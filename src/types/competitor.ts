@@ -0,0 +1,35 @@
+/**
+ * Competitor tracking types: pinned channels and the feed of their uploads
+ */
+
+import type { StoredVideo } from './ideas';
+
+export interface CompetitorChannel {
+    channelId: string;
+    channelName: string;
+    thumbnailUrl?: string;
+    addedAt: string; // ISO date
+}
+
+export interface CompetitorFeedSettings {
+    // Refresh on a schedule while the app is open
+    autoRefresh: boolean;
+    intervalHours: number;
+    // An upload is outperforming when its views are at least this multiple of the channel's median
+    minOutlierMultiplier: number;
+    // Profile uploads are scored with; missing means the default profile
+    scoringProfileId?: string;
+    lastCheckedAt?: string; // ISO date of the last attempt, successful or not
+    lastRunAt?: string; // ISO date of the last successful refresh
+    lastError?: string; // Set when the last attempt failed
+}
+
+export interface CompetitorUpload {
+    videoId: string;
+    channelId: string;
+    // Scored with the scoring profile of the latest refresh
+    video: StoredVideo;
+    firstSeenAt: string; // ISO date
+    // Uploads from a channel's first refresh start out seen, so pinning doesn't flood the feed
+    seen: boolean;
+}
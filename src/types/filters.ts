@@ -1,9 +1,12 @@
 export type RegionCode = 'ALL' | 'US' | 'GB' | 'CA' | 'AU' | 'DE';
 export type DurationType = 'ALL' | 'SHORT' | 'MEDIUM' | 'LONG';
 export type DateRange = '12h' | '24h' | 'today' | '7d' | '30d';
-export type SortBy = 'viewCount' | 'relevance' | 'date' | 'rating';
+// 'outlier' sorts by views vs. the channel's median; the search itself falls back to viewCount
+export type SortBy = 'viewCount' | 'relevance' | 'date' | 'rating' | 'outlier';
 export type ChannelSize = 'ALL' | 'SMALL' | 'MEDIUM' | 'LARGE';
 export type MinViews = 'ALL' | '1000' | '10000' | '100000';
+// Minimum views as a multiple of the channel's median views
+export type MinOutlier = 'ALL' | '2' | '5' | '10';
 
 export interface SearchFilters {
     region: RegionCode;
@@ -12,6 +15,8 @@ export interface SearchFilters {
     sortBy: SortBy;
     channelSize: ChannelSize;
     minViews: MinViews;
+    minOutlier: MinOutlier;
+    scoringProfileId: string; // See lib/scoring-profiles.ts
 }
 
 export const DEFAULT_FILTERS: SearchFilters = {
@@ -21,6 +26,8 @@ export const DEFAULT_FILTERS: SearchFilters = {
     sortBy: 'viewCount',
     channelSize: 'ALL',
     minViews: 'ALL',
+    minOutlier: 'ALL',
+    scoringProfileId: 'balanced',
 };
 
 
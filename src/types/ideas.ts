@@ -0,0 +1,34 @@
+/**
+ * Saved ideas workspace types.
+ * Stored values use ISO date strings so they survive JSON serialization.
+ */
+
+import type { Video } from './video';
+
+// Production pipeline, in order
+export type IdeaStatus = 'idea' | 'scripted' | 'filmed' | 'published';
+
+export type IdeaSort = 'saved' | 'updated' | 'viralScore' | 'views';
+
+// Video as stored, with its dates as ISO strings
+export type StoredVideo = Omit<Video, 'publishedAt' | 'fetchedAt'> & {
+    publishedAt: string;
+    fetchedAt: string;
+};
+
+export interface Idea {
+    id: string; // Same as the video id, so a video can only be saved once
+    video: StoredVideo;
+    boardId: string | null; // null = not on a board
+    tags: string[];
+    note: string;
+    status: IdeaStatus;
+    savedAt: string;
+    updatedAt: string;
+}
+
+export interface IdeaBoard {
+    id: string;
+    name: string;
+    createdAt: string;
+}
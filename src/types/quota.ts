@@ -0,0 +1,26 @@
+/**
+ * YouTube Data API quota ledger types
+ */
+
+export type QuotaEndpoint = 'search' | 'videos' | 'channels' | 'playlistItems' | 'autocomplete';
+
+export type QuotaBudgetMode = 'warn' | 'block';
+
+export interface QuotaSettings {
+    dailyBudget: number;
+    mode: QuotaBudgetMode;
+}
+
+export interface QuotaUsage {
+    day: string; // YYYY-MM-DD in Pacific time
+    units: number;
+    byEndpoint: Partial<Record<QuotaEndpoint, { calls: number; units: number }>>;
+}
+
+export interface QuotaCheck {
+    used: number;
+    budget: number;
+    cost: number;
+    wouldExceed: boolean;
+    blocked: boolean; // wouldExceed and the budget is set to block
+}
@@ -0,0 +1,13 @@
+/**
+ * Type definitions for URL routing (see lib/router.ts)
+ */
+
+export type ToolId = 'niche-finder' | 'video-analyzer' | 'channel-finder' | 'keyword-tool' | 'video-similarity' | 'thumbnail-generator' | 'competitor-tracker' | 'title-analyzer';
+
+export type AppView = 'tool-selector' | 'dashboard' | ToolId;
+
+export interface AppRoute {
+    view: AppView;
+    // Query string values, e.g. the niche and filters of a results page
+    params: Record<string, string>;
+}
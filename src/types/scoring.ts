@@ -0,0 +1,47 @@
+/**
+ * Viral scoring profile types
+ */
+
+export type ScoreFactorKey = 'avd' | 'engagement' | 'freshness' | 'viewSubRatio' | 'smallChannel';
+
+// Relative weights; normalized to sum to 1 when scoring
+export type FactorWeights = Record<ScoreFactorKey, number>;
+
+export interface ScoringProfile {
+    id: string;
+    name: string;
+    description: string;
+    longForm: FactorWeights;
+    shorts: FactorWeights;
+    thresholds: {
+        shortsMaxSeconds: number; // Videos this length or shorter use the Shorts weights
+        outlierViewSubRatio: number; // Views must exceed subs × this to be flagged as an outlier
+    };
+    dampeners: {
+        // Long-form uploads from channels above largeChannelSubs with a view/sub ratio
+        // below largeChannelMinRatio get their score multiplied by largeChannelFactor
+        largeChannelSubs: number;
+        largeChannelMinRatio: number;
+        largeChannelFactor: number;
+    };
+}
+
+// One weighted 0-100 sub-score; viral, keyword opportunity and title scores are sums of these
+export interface WeightedFactor<K extends string> {
+    key: K;
+    label: string;
+    score: number; // 0-100
+    weight: number; // 0-1, weights sum to 1
+    contribution: number; // score × weight
+}
+
+// Contributions are before dampeners (see ScoreBreakdown)
+export type ScoreFactor = WeightedFactor<ScoreFactorKey>;
+
+export interface ScoreBreakdown {
+    profileId: string;
+    format: 'long' | 'short';
+    factors: ScoreFactor[];
+    dampener: number; // Multiplier applied after weighting (1 = none)
+    total: number;
+}
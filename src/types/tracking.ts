@@ -0,0 +1,23 @@
+/**
+ * Niche tracking history types.
+ * Stored values use ISO date strings so they survive JSON serialization.
+ */
+
+export interface SnapshotPoint {
+    fetchedAt: string;
+    views: number;
+    likes: number;
+    comments: number;
+    subscriberCount: number;
+    viralScore: number;
+}
+
+export interface TrackedVideo {
+    videoId: string;
+    title: string;
+    channelId: string;
+    channelName: string;
+    publishedAt: string;
+    niches: string[]; // Normalized niche searches this video has appeared in
+    points: SnapshotPoint[]; // Oldest first
+}
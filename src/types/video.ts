@@ -1,3 +1,17 @@
+import type { ScoreBreakdown, ScoringProfile } from './scoring';
+import type { WatchlistEntry, WatchlistAlert } from './watchlist';
+import type { CompetitorChannel, CompetitorFeedSettings } from './competitor';
+import type { QuotaSettings } from './quota';
+import type { AIProviderSettings } from './ai-provider';
+
+export interface ViewVelocity {
+    viewsPerHour: number;
+    // Change in views/hour per hour versus the previous snapshot interval (null when unknown)
+    acceleration: number | null;
+    // 'snapshot' = measured between two fetches, 'lifetime' = views divided by age
+    source: 'snapshot' | 'lifetime';
+}
+
 export interface Video {
     id: string;
     title: string;
@@ -13,6 +27,10 @@ export interface Video {
     lengthSeconds: number;
     publishedAt: Date;
     fetchedAt: Date;
+    // Measured from stored snapshots when available; enrichVideo falls back to the lifetime average
+    velocity?: ViewVelocity;
+    // Median views of the channel's recent uploads (see lib/channel-baselines.ts); missing when unknown
+    channelMedianViews?: number;
 
     // Calculated fields
     viralScore: number;
@@ -21,6 +39,17 @@ export interface Video {
     isOutlier: boolean;
     recencyMultiplier: number;
     smallChannelBoost: number;
+    // Views divided by channelMedianViews ("5x the channel's usual"); missing without a baseline
+    outlierMultiplier?: number;
+    // Per-factor explanation of viralScore (missing on ideas saved before profiles existed)
+    scoreBreakdown?: ScoreBreakdown;
+}
+
+export interface RelatedVideo {
+    videoId: string;
+    title: string;
+    channelName: string;
+    thumbnailUrl: string;
 }
 
 export interface SavedIdea {
@@ -31,11 +60,24 @@ export interface SavedIdea {
 
 export interface UserPreferences {
     lastNiche: string;
+    // Ideas saved before the ideas workspace; moved to IndexedDB on load (see hooks/useIdeas.ts)
     savedIdeas: SavedIdea[];
     apiKeys?: {
         youtube?: string;
         gemini?: string;
     };
+    // Custom profiles and edited built-ins (see lib/scoring-profiles.ts)
+    scoringProfiles?: ScoringProfile[];
+    // Niches re-searched on a schedule and the alerts they raised (see lib/watchlist.ts)
+    watchlists?: WatchlistEntry[];
+    watchlistAlerts?: WatchlistAlert[];
+    // Pinned competitor channels and how their upload feed refreshes (see lib/competitor-feed.ts)
+    competitors?: CompetitorChannel[];
+    competitorFeed?: CompetitorFeedSettings;
+    // Daily YouTube API budget (see lib/quota-ledger.ts)
+    quotaSettings?: QuotaSettings;
+    // Which AI backend runs prompts, and each one's model settings (see lib/ai-providers.ts)
+    aiProvider?: AIProviderSettings;
 }
 
 
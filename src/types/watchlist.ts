@@ -0,0 +1,33 @@
+/**
+ * Watchlist types: niches re-searched on a schedule with alerts for new breakouts
+ */
+
+import { SearchFilters } from './filters';
+
+export interface WatchlistEntry {
+    id: string;
+    niche: string;
+    filters: SearchFilters;
+    intervalHours: number;
+    enabled: boolean;
+    alertMinViralScore: number; // Alert when a new video scores at least this
+    alertOnOutliers: boolean; // Alert when a new video is flagged as an outlier
+    createdAt: string; // ISO date
+    lastCheckedAt?: string; // ISO date of the last attempt, successful or not
+    lastRunAt?: string; // ISO date of the last successful run
+    lastError?: string; // Set when the last attempt failed
+    seenVideoIds: string[]; // Results of previous runs, used to find new videos
+}
+
+export interface WatchlistAlert {
+    id: string;
+    watchlistId: string;
+    niche: string;
+    videoId: string;
+    title: string;
+    channelName: string;
+    viralScore: number;
+    isOutlier: boolean;
+    createdAt: string; // ISO date
+    read: boolean;
+}
@@ -1,16 +1,33 @@
 /**
  * Type definitions for YouTube Data API v3 responses
+ *
+ * Which fields are present depends on the `part` requested, so whole parts are
+ * optional where different callers request different parts.
  */
 
+export interface YouTubeThumbnail {
+    url: string;
+    width?: number;
+    height?: number;
+}
+
+export interface YouTubeThumbnails {
+    default?: YouTubeThumbnail;
+    medium?: YouTubeThumbnail;
+    high?: YouTubeThumbnail;
+}
+
 export interface YouTubeSearchItem {
     id: {
         videoId: string;
     };
     snippet: {
         title: string;
+        description?: string;
         channelId: string;
         channelTitle: string;
         publishedAt: string;
+        thumbnails?: YouTubeThumbnails;
     };
     region?: string; // Added by our client
 }
@@ -18,20 +35,45 @@ export interface YouTubeSearchItem {
 export interface YouTubeSearchResponse {
     items: YouTubeSearchItem[];
     nextPageToken?: string;
+    pageInfo?: {
+        totalResults: number;
+        resultsPerPage: number;
+    };
+}
+
+// search with type=channel
+export interface YouTubeChannelSearchItem {
+    id: {
+        channelId: string;
+    };
+    snippet: {
+        title: string;
+        description?: string;
+        channelId: string;
+        thumbnails?: YouTubeThumbnails;
+    };
+}
+
+export interface YouTubeChannelSearchResponse {
+    items: YouTubeChannelSearchItem[];
+    nextPageToken?: string;
 }
 
 export interface YouTubeVideoItem {
     id: string;
     snippet: {
         title: string;
+        description?: string;
         channelId: string;
         channelTitle: string;
         publishedAt: string;
+        thumbnails?: YouTubeThumbnails;
+        tags?: string[];
     };
     statistics: {
-        viewCount: string;
-        likeCount: string;
-        commentCount: string;
+        viewCount?: string;
+        likeCount?: string; // Missing when likes are hidden
+        commentCount?: string; // Missing when comments are disabled
     };
     contentDetails: {
         duration: string; // ISO 8601 format
@@ -44,13 +86,33 @@ export interface YouTubeVideoResponse {
 
 export interface YouTubeChannelItem {
     id: string;
-    statistics: {
-        subscriberCount: string;
+    snippet?: {
+        title: string;
+        description?: string;
+        customUrl?: string; // e.g. "@handle"
+        publishedAt?: string;
+        thumbnails?: YouTubeThumbnails;
+    };
+    statistics?: {
+        subscriberCount?: string; // Missing when the count is hidden
+        videoCount?: string;
+        viewCount?: string;
+        hiddenSubscriberCount?: boolean;
+    };
+    contentDetails?: {
+        relatedPlaylists: {
+            uploads: string;
+        };
+    };
+    brandingSettings?: {
+        channel?: {
+            keywords?: string;
+        };
     };
 }
 
 export interface YouTubeChannelResponse {
-    items: YouTubeChannelItem[];
+    items?: YouTubeChannelItem[]; // Omitted when nothing matches
 }
 
 export interface YouTubePlaylistItem {
@@ -59,28 +121,26 @@ export interface YouTubePlaylistItem {
         description: string;
         channelTitle: string;
         publishedAt: string;
+        thumbnails?: YouTubeThumbnails;
         resourceId: {
             videoId: string;
         };
     };
+    contentDetails?: {
+        videoId: string;
+        videoPublishedAt?: string;
+    };
 }
 
 export interface YouTubePlaylistResponse {
     items: YouTubePlaylistItem[];
-}
-
-export interface YouTubeChannelDetailsItem {
-    id: string;
-    snippet: {
-        title: string;
-    };
-    contentDetails: {
-        relatedPlaylists: {
-            uploads: string;
-        };
+    nextPageToken?: string;
+    pageInfo?: {
+        totalResults: number;
     };
 }
 
-export interface YouTubeChannelDetailsResponse {
-    items: YouTubeChannelDetailsItem[];
+// Served by the backend from YouTube's suggest endpoint, not the Data API
+export interface YouTubeAutocompleteResponse {
+    suggestions: string[];
 }
@@ -9,6 +9,21 @@ interface ImportMeta {
     readonly env: ImportMetaEnv
 }
 
+/**
+ * Bridge exposed by electron/preload.cjs. Undefined when running in a plain browser.
+ */
+interface ElectronAPI {
+    store: {
+        read: (name: string) => Promise<Record<string, unknown>>
+        write: (name: string, data: Record<string, unknown>) => Promise<void>
+    }
+    notify: (title: string, body: string) => Promise<void>
+}
+
+interface Window {
+    electronAPI?: ElectronAPI
+}
+
 declare module '*.css' {
     const content: Record<string, string>
     export default content